@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "ProjectVersion" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "messageCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectVersion_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectVersion_projectId_idx" ON "ProjectVersion"("projectId");
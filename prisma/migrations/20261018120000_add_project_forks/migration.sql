@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "ShareLink" ADD COLUMN "messages" TEXT NOT NULL DEFAULT '[]';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "messages" TEXT NOT NULL DEFAULT '[]',
+    "data" TEXT NOT NULL DEFAULT '{}',
+    "model" TEXT,
+    "parentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Project_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "data", "id", "messages", "model", "name", "updatedAt", "userId") SELECT "createdAt", "data", "id", "messages", "model", "name", "updatedAt", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE INDEX "Project_parentId_idx" ON "Project"("parentId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "ProjectFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "content" TEXT,
+    "hash" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "ProjectFile_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "Message" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "hash" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Message_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectFile_projectId_path_key" ON "ProjectFile"("projectId", "path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_projectId_position_key" ON "Message"("projectId", "position");
+
+-- Move files out of the JSON column; hashes are filled in on the next save
+INSERT INTO "ProjectFile" ("id", "projectId", "path", "type", "content", "hash", "updatedAt")
+SELECT lower(hex(randomblob(12))), "Project"."id", "file"."key",
+       json_extract("file"."value", '$.type'), json_extract("file"."value", '$.content'),
+       NULL, "Project"."updatedAt"
+FROM "Project", json_each("Project"."data") AS "file";
+
+-- Move messages out of the JSON column
+INSERT INTO "Message" ("id", "projectId", "position", "role", "content", "hash", "createdAt")
+SELECT lower(hex(randomblob(12))), "Project"."id", "message"."key",
+       json_extract("message"."value", '$.role'), "message"."value",
+       NULL, "Project"."updatedAt"
+FROM "Project", json_each("Project"."messages") AS "message";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Project" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "userId" TEXT,
+    "model" TEXT,
+    "parentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Project_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Project_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Project" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Project" ("createdAt", "id", "model", "name", "parentId", "updatedAt", "userId") SELECT "createdAt", "id", "model", "name", "parentId", "updatedAt", "userId" FROM "Project";
+DROP TABLE "Project";
+ALTER TABLE "new_Project" RENAME TO "Project";
+CREATE INDEX "Project_parentId_idx" ON "Project"("parentId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ProjectVersion" ADD COLUMN "thumbnail" BLOB;
+
+-- AlterTable
+ALTER TABLE "ShareLink" ADD COLUMN "thumbnail" BLOB;
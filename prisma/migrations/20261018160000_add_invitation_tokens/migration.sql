@@ -0,0 +1,21 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ProjectInvitation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "projectId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ProjectInvitation_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Pending invitations get a token too; owners can copy their links
+INSERT INTO "new_ProjectInvitation" ("createdAt", "email", "id", "projectId", "role", "token") SELECT "createdAt", "email", "id", "projectId", "role", lower(hex(randomblob(24))) FROM "ProjectInvitation";
+DROP TABLE "ProjectInvitation";
+ALTER TABLE "new_ProjectInvitation" RENAME TO "ProjectInvitation";
+CREATE UNIQUE INDEX "ProjectInvitation_token_key" ON "ProjectInvitation"("token");
+CREATE INDEX "ProjectInvitation_email_idx" ON "ProjectInvitation"("email");
+CREATE UNIQUE INDEX "ProjectInvitation_projectId_email_key" ON "ProjectInvitation"("projectId", "email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,19 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { acceptInvitation } from "@/lib/project-access";
+
+export async function acceptProjectInvitation(token: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const projectId = await acceptInvitation(
+    token,
+    session.userId,
+    session.email
+  );
+  return { projectId };
+}
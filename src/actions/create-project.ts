@@ -2,6 +2,7 @@
 
 import { getSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { toFileRows, toMessageRows } from "@/lib/project-storage";
 
 interface CreateProjectInput {
   name: string;
@@ -20,8 +21,18 @@ export async function createProject(input: CreateProjectInput) {
     data: {
       name: input.name,
       userId: session.userId,
-      messages: JSON.stringify(input.messages),
-      data: JSON.stringify(input.data),
+      messages: {
+        create: toMessageRows(input.messages),
+      },
+      files: {
+        create: toFileRows(input.data),
+      },
+      members: {
+        create: {
+          userId: session.userId,
+          role: "owner",
+        },
+      },
     },
   });
 
@@ -0,0 +1,37 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { loadProjectFiles, loadProjectMessages } from "@/lib/project-storage";
+import { saveShareLinkThumbnail } from "@/lib/thumbnails";
+
+export async function createShareLink(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  // The link shows the project as it is now, not later edits
+  const data = await loadProjectFiles(projectId);
+  const shareLink = await prisma.shareLink.create({
+    data: {
+      token: randomBytes(24).toString("base64url"),
+      projectId,
+      messages: JSON.stringify(await loadProjectMessages(projectId)),
+      data: JSON.stringify(data),
+    },
+  });
+  void saveShareLinkThumbnail(shareLink.id, data);
+
+  return {
+    id: shareLink.id,
+    token: shareLink.token,
+    createdAt: shareLink.createdAt,
+    revokedAt: shareLink.revokedAt,
+  };
+}
@@ -0,0 +1,97 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import {
+  loadProjectFiles,
+  loadProjectMessages,
+  toFileRows,
+  toMessageRows,
+} from "@/lib/project-storage";
+
+// Fork either one of the caller's projects or the snapshot behind a share link
+export type ForkSource = { projectId: string } | { shareToken: string };
+
+async function getForkSource(source: ForkSource, userId: string) {
+  if ("shareToken" in source) {
+    const shareLink = await prisma.shareLink.findUnique({
+      where: {
+        token: source.shareToken,
+      },
+      include: {
+        project: {
+          select: {
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!shareLink || shareLink.revokedAt) {
+      throw new Error("Share link not found");
+    }
+
+    return {
+      parentId: shareLink.projectId,
+      name: shareLink.project.name,
+      messages: JSON.parse(shareLink.messages),
+      data: JSON.parse(shareLink.data),
+      model: null,
+    };
+  }
+
+  // Viewers may fork too; the fork is theirs to edit
+  await requireProjectRole(source.projectId, userId, "viewer");
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: source.projectId,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return {
+    parentId: project.id,
+    name: project.name,
+    messages: await loadProjectMessages(project.id),
+    data: await loadProjectFiles(project.id),
+    model: project.model,
+  };
+}
+
+export async function forkProject(source: ForkSource) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const parent = await getForkSource(source, session.userId);
+
+  const project = await prisma.project.create({
+    data: {
+      name: `${parent.name} (fork)`,
+      userId: session.userId,
+      messages: {
+        create: toMessageRows(parent.messages),
+      },
+      files: {
+        create: toFileRows(parent.data),
+      },
+      model: parent.model,
+      parentId: parent.parentId,
+      members: {
+        create: {
+          userId: session.userId,
+          role: "owner",
+        },
+      },
+    },
+  });
+
+  return project;
+}
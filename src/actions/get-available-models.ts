@@ -0,0 +1,10 @@
+"use server";
+
+import { createModelRegistry } from "@/lib/model-registry";
+
+// Only ids and labels leave the server; provider URLs and keys stay here
+export async function getAvailableModels() {
+  const { models, defaultModel } = createModelRegistry();
+
+  return { models, defaultModel };
+}
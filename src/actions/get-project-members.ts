@@ -0,0 +1,60 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function getProjectMembers(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const role = await requireProjectRole(projectId, session.userId, "viewer");
+
+  const [members, invitations] = await Promise.all([
+    prisma.projectMember.findMany({
+      where: {
+        projectId,
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+      include: {
+        user: {
+          select: {
+            email: true,
+          },
+        },
+      },
+    }),
+    prisma.projectInvitation.findMany({
+      where: {
+        projectId,
+      },
+      orderBy: {
+        createdAt: "asc",
+      },
+    }),
+  ]);
+
+  return {
+    members: members.map((member) => ({
+      id: member.id,
+      userId: member.userId,
+      email: member.user.email,
+      role: member.role,
+      createdAt: member.createdAt,
+    })),
+    invitations: invitations.map((invitation) => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      // Anyone holding the link can join as the invited email, so only
+      // owners get to pass it on
+      token: role === "owner" ? invitation.token : null,
+      createdAt: invitation.createdAt,
+    })),
+  };
+}
@@ -0,0 +1,33 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function getProjectVersion(projectId: string, versionId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "viewer");
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      id: versionId,
+      projectId,
+    },
+  });
+
+  if (!version) {
+    throw new Error("Version not found");
+  }
+
+  return {
+    id: version.id,
+    messageCount: version.messageCount,
+    data: JSON.parse(version.data),
+    createdAt: version.createdAt,
+  };
+}
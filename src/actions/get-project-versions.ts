@@ -0,0 +1,31 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function getProjectVersions(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "viewer");
+
+  const versions = await prisma.projectVersion.findMany({
+    where: {
+      projectId,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      messageCount: true,
+      createdAt: true,
+    },
+  });
+
+  return versions;
+}
@@ -2,6 +2,8 @@
 
 import { getSession } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { loadProjectFiles, loadProjectMessages } from "@/lib/project-storage";
 
 export async function getProject(projectId: string) {
   const session = await getSession();
@@ -10,10 +12,11 @@ export async function getProject(projectId: string) {
     throw new Error("Unauthorized");
   }
 
+  const role = await requireProjectRole(projectId, session.userId, "viewer");
+
   const project = await prisma.project.findUnique({
     where: {
       id: projectId,
-      userId: session.userId,
     },
   });
 
@@ -24,8 +27,11 @@ export async function getProject(projectId: string) {
   return {
     id: project.id,
     name: project.name,
-    messages: JSON.parse(project.messages),
-    data: JSON.parse(project.data),
+    messages: await loadProjectMessages(projectId),
+    data: await loadProjectFiles(projectId),
+    model: project.model,
+    parentId: project.parentId,
+    role,
     createdAt: project.createdAt,
     updatedAt: project.updatedAt,
   };
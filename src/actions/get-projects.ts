@@ -12,7 +12,11 @@ export async function getProjects() {
 
   const projects = await prisma.project.findMany({
     where: {
-      userId: session.userId,
+      members: {
+        some: {
+          userId: session.userId,
+        },
+      },
     },
     orderBy: {
       updatedAt: "desc",
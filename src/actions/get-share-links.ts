@@ -0,0 +1,32 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function getShareLinks(projectId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  const shareLinks = await prisma.shareLink.findMany({
+    where: {
+      projectId,
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      id: true,
+      token: true,
+      createdAt: true,
+      revokedAt: true,
+    },
+  });
+
+  return shareLinks;
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+
+// Public: anyone holding a live token may view its snapshot
+export async function getSharedProject(token: string) {
+  const shareLink = await prisma.shareLink.findUnique({
+    where: {
+      token,
+    },
+    include: {
+      project: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  });
+
+  if (!shareLink || shareLink.revokedAt) {
+    throw new Error("Share link not found");
+  }
+
+  return {
+    name: shareLink.project.name,
+    data: JSON.parse(shareLink.data),
+    createdAt: shareLink.createdAt,
+    hasThumbnail: shareLink.thumbnail !== null,
+  };
+}
@@ -0,0 +1,83 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { InvitableRole, isInvitableRole } from "@/lib/project-roles";
+
+/**
+ * Adds an existing user straight away; other emails get a pending invitation
+ * whose link the owner passes on, and which turns into a membership once
+ * opened by an account with that email.
+ */
+export async function inviteProjectMember(
+  projectId: string,
+  email: string,
+  role: InvitableRole
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "owner");
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (!normalizedEmail.includes("@")) {
+    throw new Error("Invalid email");
+  }
+  if (!isInvitableRole(role)) {
+    throw new Error("Invalid role");
+  }
+
+  const user = await prisma.user.findUnique({
+    where: {
+      email: normalizedEmail,
+    },
+  });
+
+  if (!user) {
+    const invitation = await prisma.projectInvitation.upsert({
+      where: {
+        projectId_email: {
+          projectId,
+          email: normalizedEmail,
+        },
+      },
+      create: {
+        projectId,
+        email: normalizedEmail,
+        role,
+        token: randomBytes(24).toString("base64url"),
+      },
+      update: {
+        role,
+      },
+    });
+    return { status: "invited" as const, token: invitation.token };
+  }
+
+  const existing = await prisma.projectMember.findUnique({
+    where: {
+      projectId_userId: {
+        projectId,
+        userId: user.id,
+      },
+    },
+  });
+
+  if (existing) {
+    throw new Error("Already a member");
+  }
+
+  await prisma.projectMember.create({
+    data: {
+      projectId,
+      userId: user.id,
+      role,
+    },
+  });
+  return { status: "added" as const };
+}
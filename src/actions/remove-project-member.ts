@@ -0,0 +1,36 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+// Owners can remove anyone but themselves; other members can only leave
+export async function removeProjectMember(projectId: string, memberId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const role = await requireProjectRole(projectId, session.userId, "viewer");
+
+  const member = await prisma.projectMember.findFirst({
+    where: {
+      id: memberId,
+      projectId,
+    },
+  });
+
+  if (!member || member.role === "owner") {
+    throw new Error("Member not found");
+  }
+  if (role !== "owner" && member.userId !== session.userId) {
+    throw new Error("Forbidden");
+  }
+
+  await prisma.projectMember.delete({
+    where: {
+      id: member.id,
+    },
+  });
+}
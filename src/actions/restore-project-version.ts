@@ -0,0 +1,46 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { saveProjectFiles } from "@/lib/project-storage";
+
+export async function restoreProjectVersion(
+  projectId: string,
+  versionId: string
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      id: versionId,
+      projectId,
+    },
+  });
+
+  if (!version) {
+    throw new Error("Version not found");
+  }
+
+  const data = JSON.parse(version.data);
+
+  await prisma.$transaction(async (tx) => {
+    await saveProjectFiles(projectId, data, tx);
+    await tx.project.update({
+      where: {
+        id: projectId,
+      },
+      data: {
+        updatedAt: new Date(),
+      },
+    });
+  });
+
+  return data;
+}
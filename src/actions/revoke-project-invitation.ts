@@ -0,0 +1,29 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function revokeProjectInvitation(
+  projectId: string,
+  invitationId: string
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "owner");
+
+  const { count } = await prisma.projectInvitation.deleteMany({
+    where: {
+      id: invitationId,
+      projectId,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error("Invitation not found");
+  }
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+
+export async function revokeShareLink(projectId: string, shareLinkId: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  const { count } = await prisma.shareLink.updateMany({
+    where: {
+      id: shareLinkId,
+      projectId,
+      revokedAt: null,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new Error("Share link not found");
+  }
+}
@@ -0,0 +1,65 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { loadProjectFiles, saveProjectFiles } from "@/lib/project-storage";
+
+/**
+ * Saves the file system only if the project is unchanged since
+ * `baseUpdatedAt`. Otherwise nothing is written and the stored state is
+ * returned so the caller can decide how to resolve the conflict.
+ */
+export async function saveProjectData(
+  projectId: string,
+  data: Record<string, any>,
+  baseUpdatedAt: Date
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  const updatedAt = new Date();
+  const saved = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.project.updateMany({
+      where: {
+        id: projectId,
+        updatedAt: new Date(baseUpdatedAt),
+      },
+      data: {
+        updatedAt,
+      },
+    });
+    if (count === 0) return false;
+
+    await saveProjectFiles(projectId, data, tx);
+    return true;
+  });
+
+  if (saved) {
+    return { status: "saved" as const, updatedAt };
+  }
+
+  const project = await prisma.project.findUnique({
+    where: {
+      id: projectId,
+    },
+    select: {
+      updatedAt: true,
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  return {
+    status: "conflict" as const,
+    updatedAt: project.updatedAt as Date,
+    data: await loadProjectFiles(projectId),
+  };
+}
@@ -0,0 +1,42 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { InvitableRole, isInvitableRole } from "@/lib/project-roles";
+
+export async function updateProjectMemberRole(
+  projectId: string,
+  memberId: string,
+  role: InvitableRole
+) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  await requireProjectRole(projectId, session.userId, "owner");
+
+  if (!isInvitableRole(role)) {
+    throw new Error("Invalid role");
+  }
+
+  // The owner's own membership is never changed here
+  const { count } = await prisma.projectMember.updateMany({
+    where: {
+      id: memberId,
+      projectId,
+      role: {
+        not: "owner",
+      },
+    },
+    data: {
+      role,
+    },
+  });
+
+  if (count === 0) {
+    throw new Error("Member not found");
+  }
+}
@@ -0,0 +1,30 @@
+"use server";
+
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { requireProjectRole } from "@/lib/project-access";
+import { createModelRegistry } from "@/lib/model-registry";
+
+export async function updateProjectModel(projectId: string, model: string) {
+  const session = await getSession();
+
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  const { models } = createModelRegistry();
+  if (!models.some((option) => option.id === model)) {
+    throw new Error("Unknown model");
+  }
+
+  await requireProjectRole(projectId, session.userId, "editor");
+
+  await prisma.project.update({
+    where: {
+      id: projectId,
+    },
+    data: {
+      model,
+    },
+  });
+}
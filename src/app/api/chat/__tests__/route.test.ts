@@ -0,0 +1,154 @@
+import { test, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type {
+  LanguageModelV1,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+
+vi.mock("server-only", () => ({}));
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+vi.mock("@/lib/auth", () => ({ getSession: vi.fn() }));
+vi.mock("@/lib/project-access", () => ({ getProjectRole: vi.fn() }));
+vi.mock("@/lib/project-storage", () => ({
+  saveProjectFiles: vi.fn(),
+  saveProjectMessages: vi.fn(),
+}));
+vi.mock("@/lib/thumbnails", () => ({ saveVersionThumbnail: vi.fn() }));
+
+// Drives the model the way streamText does: one call per step until a step
+// ends without tool calls or maxSteps is reached
+vi.mock("ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("ai")>()),
+  streamText: vi.fn((options: any) => {
+    const steps = runSteps(options.model, options.messages, options.maxSteps);
+    return { steps, toDataStreamResponse: () => new Response("") };
+  }),
+}));
+
+import { streamText } from "ai";
+import { POST } from "../route";
+
+async function runSteps(
+  model: LanguageModelV1,
+  messages: any[],
+  maxSteps: number
+): Promise<LanguageModelV1StreamPart[][]> {
+  const prompt: LanguageModelV1Prompt = messages.map((message) =>
+    message.role === "user"
+      ? { role: "user", content: [{ type: "text", text: message.content }] }
+      : { role: "system", content: message.content }
+  );
+  const steps: LanguageModelV1StreamPart[][] = [];
+
+  while (steps.length < maxSteps) {
+    const { stream } = await model.doStream({
+      inputFormat: "messages",
+      mode: { type: "regular" },
+      prompt,
+    });
+    const parts: LanguageModelV1StreamPart[] = [];
+    const reader = stream.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+    }
+    steps.push(parts);
+
+    const toolCalls = parts.flatMap((part) =>
+      part.type === "tool-call" ? [part] : []
+    );
+    if (toolCalls.length === 0) break;
+
+    prompt.push(
+      {
+        role: "assistant",
+        content: toolCalls.map((call) => ({
+          type: "tool-call" as const,
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          args: JSON.parse(call.args),
+        })),
+      },
+      {
+        role: "tool",
+        content: toolCalls.map((call) => ({
+          type: "tool-result" as const,
+          toolCallId: call.toolCallId,
+          toolName: call.toolName,
+          result: "ok",
+        })),
+      }
+    );
+  }
+
+  return steps;
+}
+
+function toolStep(index: number): LanguageModelV1StreamPart[] {
+  return [
+    {
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: `call_${index}`,
+      toolName: "str_replace_editor",
+      args: JSON.stringify({
+        command: "create",
+        path: `/components/Part${index}.jsx`,
+        file_text: "export default () => null;",
+      }),
+    },
+    {
+      type: "finish",
+      finishReason: "tool-calls",
+      usage: { promptTokens: 10, completionTokens: 5 },
+    },
+  ];
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "chat-route-"));
+  vi.stubEnv("LLM_FIXTURES", "replay");
+  vi.stubEnv("LLM_FIXTURES_DIR", dir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("replays fixtures with more steps than the mock provider gets", async () => {
+  const recordedSteps = [
+    ...Array.from({ length: 6 }, (_, index) => toolStep(index)),
+    [
+      { type: "text-delta", textDelta: "Done." },
+      {
+        type: "finish",
+        finishReason: "stop",
+        usage: { promptTokens: 10, completionTokens: 5 },
+      },
+    ],
+  ];
+  fs.writeFileSync(
+    path.join(dir, "dashboard.json"),
+    JSON.stringify({ match: "dashboard", steps: recordedSteps })
+  );
+
+  await POST(
+    new Request("http://localhost/api/chat", {
+      method: "POST",
+      body: JSON.stringify({
+        messages: [{ role: "user", content: "Build a dashboard" }],
+        files: {},
+      }),
+    })
+  );
+
+  const result = vi.mocked(streamText).mock.results[0].value;
+  expect(await result.steps).toEqual(recordedSteps);
+});
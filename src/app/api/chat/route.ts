@@ -1,21 +1,46 @@
-import type { FileNode } from "@/lib/file-system";
+import type { FileNode, FileHistoryEntry } from "@/lib/file-system";
 import { VirtualFileSystem } from "@/lib/file-system";
 import { streamText, appendResponseMessages } from "ai";
 import { buildStrReplaceTool } from "@/lib/tools/str-replace";
 import { buildFileManagerTool } from "@/lib/tools/file-manager";
+import { buildCheckTypesTool } from "@/lib/tools/check-types";
 import { prisma } from "@/lib/prisma";
 import { getSession } from "@/lib/auth";
-import { getLanguageModel } from "@/lib/provider";
+import { getProjectRole } from "@/lib/project-access";
+import { hasRole } from "@/lib/project-roles";
+import { saveProjectFiles, saveProjectMessages } from "@/lib/project-storage";
+import { saveVersionThumbnail } from "@/lib/thumbnails";
+import { MOCK_MAX_STEPS, getLanguageModel } from "@/lib/provider";
+import { createModelRegistry, supportsImages } from "@/lib/model-registry";
+import { sanitizeAttachments, withoutAttachments } from "@/lib/chat-attachments";
 import { generationPrompt } from "@/lib/prompts/generation";
+import { THEME_PATH, describeThemeForPrompt, parseTheme } from "@/lib/preview/theme";
 
 export async function POST(req: Request) {
   const {
-    messages,
+    messages: requestMessages,
     files,
+    history,
     projectId,
-  }: { messages: any[]; files: Record<string, FileNode>; projectId?: string } =
-    await req.json();
+    model: modelId,
+  }: {
+    messages: any[];
+    files: Record<string, FileNode>;
+    history?: Record<string, FileHistoryEntry[]>;
+    projectId?: string;
+    model?: string;
+  } = await req.json();
 
+  // Only editors may run the model against a saved project
+  if (projectId) {
+    const session = await getSession();
+    const role = session && (await getProjectRole(projectId, session.userId));
+    if (!role || !hasRole(role, "editor")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+  }
+
+  const messages = sanitizeAttachments(requestMessages);
   messages.unshift({
     role: "system",
     content: generationPrompt,
@@ -24,24 +49,42 @@ export async function POST(req: Request) {
     },
   });
 
+  // Kept apart from the main prompt so that one stays cached as the theme changes
+  const themeFile = files[THEME_PATH];
+  const themeResult = themeFile?.content ? parseTheme(themeFile.content) : null;
+  if (themeResult && "theme" in themeResult && themeResult.theme) {
+    messages.splice(1, 0, {
+      role: "system",
+      content: `The project defines these theme tokens in ${THEME_PATH}. Prefer them over arbitrary colors, fonts and radii:\n${describeThemeForPrompt(themeResult.theme)}`,
+    });
+  }
+
   // Reconstruct the VirtualFileSystem from serialized data
   const fileSystem = new VirtualFileSystem();
   fileSystem.deserializeFromNodes(files);
+  if (history) {
+    fileSystem.deserializeHistory(history);
+  }
 
-  const model = getLanguageModel();
-  // Use fewer steps for mock provider to prevent repetition
-  const isMockProvider = !process.env.ANTHROPIC_API_KEY;
+  const model = getLanguageModel(modelId);
+  // Use fewer steps for mock provider to prevent repetition; fixture replays
+  // get the full budget and cap their own fallback to the mock
+  const isMockProvider = model.provider === "mock";
   const result = streamText({
     model,
-    messages,
+    // Attachments are still saved for models that can't see them
+    messages: supportsImages(createModelRegistry(), modelId)
+      ? messages
+      : withoutAttachments(messages),
     maxTokens: 10_000,
-    maxSteps: isMockProvider ? 4 : 40,
+    maxSteps: isMockProvider ? MOCK_MAX_STEPS : 40,
     onError: (err: any) => {
       console.error(err);
     },
     tools: {
       str_replace_editor: buildStrReplaceTool(fileSystem),
       file_manager: buildFileManagerTool(fileSystem),
+      check_types: buildCheckTypesTool(fileSystem),
     },
     onFinish: async ({ response }) => {
       // Save to project if projectId is provided and user is authenticated
@@ -62,16 +105,31 @@ export async function POST(req: Request) {
             responseMessages,
           });
 
-          await prisma.project.update({
-            where: {
-              id: projectId,
-              userId: session.userId,
-            },
-            data: {
-              messages: JSON.stringify(allMessages),
-              data: JSON.stringify(fileSystem.serialize()),
-            },
+          const data = fileSystem.serialize();
+
+          const version = await prisma.$transaction(async (tx) => {
+            await saveProjectMessages(projectId, allMessages, tx);
+            await saveProjectFiles(projectId, data, tx);
+            await tx.project.update({
+              where: {
+                id: projectId,
+              },
+              data: {
+                updatedAt: new Date(),
+              },
+            });
+
+            // Snapshot the file system so this turn can be diffed or restored
+            return tx.projectVersion.create({
+              data: {
+                projectId,
+                data: JSON.stringify(data),
+                messageCount: allMessages.length,
+              },
+            });
           });
+          // Not awaited: rendering takes seconds and the turn is already saved
+          void saveVersionThumbnail(version.id, data);
         } catch (error) {
           console.error("Failed to save project data:", error);
         }
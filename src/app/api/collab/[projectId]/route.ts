@@ -0,0 +1,149 @@
+import { getSession } from "@/lib/auth";
+import { getProjectRole } from "@/lib/project-access";
+import { loadProjectFiles } from "@/lib/project-storage";
+import { hasRole } from "@/lib/project-roles";
+import { collabHub } from "@/lib/collab/hub";
+import { isFileOperation } from "@/lib/collab/operations";
+import type { CollabEvent, CollabRequest } from "@/lib/collab/protocol";
+
+// Comments keep idle connections from being closed by proxies
+const KEEP_ALIVE_MS = 25_000;
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+async function authorize(projectId: string) {
+  const session = await getSession();
+  if (!session) return null;
+
+  const role = await getProjectRole(projectId, session.userId);
+  return role ? { session, role } : null;
+}
+
+// Event stream of file operations and presence for one project
+export async function GET(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const clientId = new URL(req.url).searchParams.get("clientId");
+
+  const access = await authorize(projectId);
+  if (!access) {
+    return Response.json({ error: "Project not found" }, { status: 404 });
+  }
+  if (!clientId) {
+    return Response.json({ error: "clientId is required" }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+  let send: (event: CollabEvent) => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const enqueue = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The stream closed before the hub noticed the disconnect
+        }
+      };
+      send = (event: CollabEvent) => {
+        enqueue(`data: ${JSON.stringify(event)}\n\n`);
+      };
+
+      req.signal.addEventListener("abort", () => {
+        clearInterval(keepAlive);
+        collabHub.leave(projectId, clientId, send);
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      keepAlive = setInterval(() => {
+        enqueue(": keep-alive\n\n");
+      }, KEEP_ALIVE_MS);
+
+      await collabHub.join(
+        projectId,
+        {
+          clientId,
+          userId: access.session.userId,
+          name: access.session.email,
+          selectedFile: null,
+        },
+        send,
+        () => loadProjectFiles(projectId)
+      );
+    },
+    cancel() {
+      clearInterval(keepAlive);
+      collabHub.leave(projectId, clientId, send);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Submits a file operation or a presence update
+export async function POST(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+
+  let body: CollabRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  if (!body || typeof body.clientId !== "string") {
+    return Response.json({ error: "clientId is required" }, { status: 400 });
+  }
+
+  const access = await authorize(projectId);
+  if (!access) {
+    return Response.json({ error: "Project not found" }, { status: 404 });
+  }
+  // Operations only come from this user's own open stream
+  const peer = collabHub.getPeer(projectId, body.clientId);
+  if (peer?.userId !== access.session.userId) {
+    return Response.json({ error: "Not connected" }, { status: 409 });
+  }
+
+  if (body.type === "presence") {
+    if (body.selectedFile !== null && typeof body.selectedFile !== "string") {
+      return Response.json({ error: "Invalid presence" }, { status: 400 });
+    }
+    collabHub.updatePresence(projectId, body.clientId, body.selectedFile);
+    return Response.json({ ok: true });
+  }
+
+  if (body.type !== "op") {
+    return Response.json({ error: "Unknown request type" }, { status: 400 });
+  }
+  if (!hasRole(access.role, "editor")) {
+    return Response.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (
+    typeof body.opId !== "string" ||
+    typeof body.baseSeq !== "number" ||
+    !isFileOperation(body.op)
+  ) {
+    return Response.json({ error: "Invalid operation" }, { status: 400 });
+  }
+
+  const result = collabHub.submit(
+    projectId,
+    body.clientId,
+    body.opId,
+    body.baseSeq,
+    body.op
+  );
+  return Response.json(result);
+}
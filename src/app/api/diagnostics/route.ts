@@ -0,0 +1,41 @@
+import {
+  MAX_CHECKED_SOURCE_SIZE,
+  checkTypes,
+  getSourceSize,
+} from "@/lib/diagnostics/type-checker";
+
+export async function POST(req: Request) {
+  let files: unknown;
+  try {
+    ({ files } = await req.json());
+  } catch {
+    return Response.json({ error: "Invalid request body" }, { status: 400 });
+  }
+
+  if (!files || typeof files !== "object") {
+    return Response.json({ error: "files must be an object" }, { status: 400 });
+  }
+
+  const sources = new Map(
+    Object.entries(files).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string"
+    )
+  );
+  if (getSourceSize(sources) > MAX_CHECKED_SOURCE_SIZE) {
+    return Response.json(
+      { error: "Too much source to type-check" },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const diagnostics = checkTypes(sources);
+    return Response.json({ diagnostics });
+  } catch (error) {
+    console.error("Failed to type-check files:", error);
+    return Response.json(
+      { error: "Failed to type-check files" },
+      { status: 500 }
+    );
+  }
+}
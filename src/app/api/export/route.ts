@@ -0,0 +1,40 @@
+import { zipSync, strToU8 } from "fflate";
+import type { FileNode } from "@/lib/file-system";
+import {
+  buildViteProject,
+  slugifyProjectName,
+} from "@/lib/export/vite-project";
+
+export async function POST(req: Request) {
+  const { files, name = "uigen-project" }: {
+    files: Record<string, FileNode>;
+    name?: string;
+  } = await req.json();
+
+  if (!files || typeof files !== "object") {
+    return Response.json({ error: "files are required" }, { status: 400 });
+  }
+  if (typeof name !== "string") {
+    return Response.json({ error: "name must be a string" }, { status: 400 });
+  }
+
+  const slug = slugifyProjectName(name);
+  const projectFiles = buildViteProject(files, name);
+
+  // Nest everything in a folder so unzipping doesn't spill into the cwd
+  const archive = zipSync(
+    Object.fromEntries(
+      Object.entries(projectFiles).map(([path, content]) => [
+        `${slug}/${path}`,
+        strToU8(content),
+      ])
+    )
+  );
+
+  return new Response(archive, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${slug}.zip"`,
+    },
+  });
+}
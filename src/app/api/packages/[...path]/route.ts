@@ -0,0 +1,46 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+// Directory holding prebuilt ESM bundles laid out as <name>@<version>/<subpath>.js
+const MIRROR_DIR = path.resolve(
+  process.env.PACKAGE_MIRROR_DIR || ".package-mirror"
+);
+
+function getCandidates(segments: string[]): string[] {
+  const base = path.join(MIRROR_DIR, ...segments);
+  return [base, `${base}.js`, `${base}.mjs`, path.join(base, "index.js")];
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  // Next has already decoded the segments
+  const { path: segments } = await params;
+
+  for (const candidate of getCandidates(segments)) {
+    // Never serve anything outside the mirror directory
+    if (!candidate.startsWith(MIRROR_DIR + path.sep)) {
+      continue;
+    }
+
+    try {
+      const content = await readFile(candidate);
+      return new Response(content, {
+        headers: {
+          "Content-Type": "application/javascript; charset=utf-8",
+          "Cache-Control": "public, max-age=3600",
+          // Preview iframes load modules from a srcdoc document
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return Response.json(
+    { error: `Package not found in mirror: ${segments.join("/")}` },
+    { status: 404 }
+  );
+}
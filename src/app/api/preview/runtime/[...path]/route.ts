@@ -0,0 +1,43 @@
+import {
+  getEntrySource,
+  getRegistrySource,
+  RUNTIME_REGISTRY_MODULE,
+} from "@/lib/preview/runtime-bundle";
+
+const BASE_PATH = "/api/preview/runtime";
+
+function javascript(source: string) {
+  return new Response(source, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "public, max-age=3600",
+      // Preview iframes load modules from a srcdoc document
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+  const specifier = path.join("/").replace(/\.js$/, "");
+
+  if (specifier === RUNTIME_REGISTRY_MODULE) {
+    return javascript(await getRegistrySource());
+  }
+
+  const entry = getEntrySource(
+    specifier,
+    `${BASE_PATH}/${RUNTIME_REGISTRY_MODULE}.js`
+  );
+  if (!entry) {
+    return Response.json(
+      { error: `Unknown runtime module: ${specifier}` },
+      { status: 404 }
+    );
+  }
+
+  return javascript(await entry);
+}
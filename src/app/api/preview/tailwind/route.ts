@@ -0,0 +1,63 @@
+import { compileTailwind } from "@/lib/preview/tailwind-compiler";
+import { parseTheme } from "@/lib/preview/theme";
+import {
+  MAX_CANDIDATES,
+  MAX_CANDIDATE_LENGTH,
+} from "@/lib/preview/tailwind-candidates";
+
+export async function POST(req: Request) {
+  let body: { candidates: unknown; theme?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid request body" }, { status: 400 });
+  }
+  const { candidates, theme } = body ?? {};
+
+  if (!Array.isArray(candidates)) {
+    return Response.json(
+      { error: "candidates must be an array" },
+      { status: 400 }
+    );
+  }
+  if (candidates.length > MAX_CANDIDATES) {
+    return Response.json(
+      { error: `At most ${MAX_CANDIDATES} candidates are accepted` },
+      { status: 400 }
+    );
+  }
+  if (
+    !candidates.every(
+      (candidate) =>
+        typeof candidate === "string" &&
+        candidate.length <= MAX_CANDIDATE_LENGTH
+    )
+  ) {
+    return Response.json(
+      {
+        error: `candidates must be strings of at most ${MAX_CANDIDATE_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+
+  // The raw /theme.json, validated here since its values end up in the CSS
+  const themeResult =
+    typeof theme === "string" ? parseTheme(theme) : { theme: null };
+  if ("error" in themeResult) {
+    return Response.json({ error: themeResult.error }, { status: 400 });
+  }
+
+  try {
+    const css = await compileTailwind(candidates, themeResult.theme);
+    return new Response(css, {
+      headers: { "Content-Type": "text/css; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Failed to compile Tailwind:", error);
+    return Response.json(
+      { error: "Failed to compile Tailwind" },
+      { status: 500 }
+    );
+  }
+}
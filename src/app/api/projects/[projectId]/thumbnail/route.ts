@@ -0,0 +1,44 @@
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getProjectRole } from "@/lib/project-access";
+import { thumbnailResponse } from "@/lib/thumbnails";
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Thumbnail of the latest version that has one, or of ?version=<id>
+export async function GET(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const versionId = new URL(req.url).searchParams.get("version");
+
+  const session = await getSession();
+  const role = session && (await getProjectRole(projectId, session.userId));
+  if (!role) {
+    return Response.json({ error: "Project not found" }, { status: 404 });
+  }
+
+  const version = await prisma.projectVersion.findFirst({
+    where: {
+      projectId,
+      thumbnail: { not: null },
+      ...(versionId && { id: versionId }),
+    },
+    orderBy: {
+      createdAt: "desc",
+    },
+    select: {
+      thumbnail: true,
+    },
+  });
+
+  if (!version?.thumbnail) {
+    return Response.json({ error: "No thumbnail yet" }, { status: 404 });
+  }
+
+  // A new version brings a new thumbnail, so keep the cache short
+  return thumbnailResponse(
+    version.thumbnail,
+    versionId ? "private, max-age=86400, immutable" : "private, max-age=60"
+  );
+}
@@ -0,0 +1,91 @@
+import { getSession } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getProjectRole } from "@/lib/project-access";
+import { encodePng } from "@/lib/preview/png";
+import { findBrowser } from "@/lib/preview/screenshot";
+import { compareScreenshots } from "@/lib/preview/visual-regression";
+import { captureVersionRender } from "@/lib/thumbnails";
+
+interface RouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+function toPngDataUrl(png: Uint8Array): string {
+  return `data:image/png;base64,${Buffer.from(png).toString("base64")}`;
+}
+
+// Pixel diff between full-page renders of ?from=<versionId> and
+// ?to=<versionId>; thumbnails are too small to compare reliably
+export async function GET(req: Request, { params }: RouteContext) {
+  const { projectId } = await params;
+  const searchParams = new URL(req.url).searchParams;
+  const fromId = searchParams.get("from");
+  const toId = searchParams.get("to");
+
+  const session = await getSession();
+  const role = session && (await getProjectRole(projectId, session.userId));
+  if (!role) {
+    return Response.json({ error: "Project not found" }, { status: 404 });
+  }
+  if (!fromId || !toId) {
+    return Response.json(
+      { error: "from and to are required" },
+      { status: 400 }
+    );
+  }
+
+  const findVersion = (id: string) =>
+    prisma.projectVersion.findFirst({
+      where: {
+        id,
+        projectId,
+      },
+      select: {
+        id: true,
+        data: true,
+      },
+    });
+  const [from, to] = await Promise.all([
+    findVersion(fromId),
+    findVersion(toId),
+  ]);
+  if (!from || !to) {
+    return Response.json({ error: "Version not found" }, { status: 404 });
+  }
+
+  if (!findBrowser()) {
+    return Response.json(
+      { error: "No headless browser is available to render the versions" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const before = await captureVersionRender(from.data);
+    const after = before && (await captureVersionRender(to.data));
+    if (!before || !after) {
+      return Response.json(
+        { error: "One of the versions has no component to render" },
+        { status: 422 }
+      );
+    }
+
+    const { overlay, ...diff } = compareScreenshots(before, after);
+    return Response.json({
+      ...diff,
+      images: {
+        before: toPngDataUrl(before),
+        after: toPngDataUrl(after),
+        overlay: toPngDataUrl(encodePng(overlay)),
+      },
+    });
+  } catch (error) {
+    console.error("Visual diff failed:", error);
+    return Response.json(
+      { error: "Failed to render the versions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const maxDuration = 120;
@@ -0,0 +1,28 @@
+import { prisma } from "@/lib/prisma";
+import { thumbnailResponse } from "@/lib/thumbnails";
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+// Public like the share page itself, for link previews
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { token } = await params;
+
+  const shareLink = await prisma.shareLink.findUnique({
+    where: {
+      token,
+    },
+    select: {
+      thumbnail: true,
+      revokedAt: true,
+    },
+  });
+
+  if (!shareLink || shareLink.revokedAt || !shareLink.thumbnail) {
+    return Response.json({ error: "Thumbnail not found" }, { status: 404 });
+  }
+
+  // Short-lived, so a revoked link stops showing its snapshot soon
+  return thumbnailResponse(shareLink.thumbnail, "public, max-age=300");
+}
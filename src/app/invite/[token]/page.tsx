@@ -0,0 +1,19 @@
+import type { Metadata } from "next";
+import { getUser } from "@/actions";
+import { AcceptInvitation } from "@/components/members/AcceptInvitation";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Project invitation",
+  robots: { index: false },
+};
+
+export default async function InvitePage({ params }: PageProps) {
+  const { token } = await params;
+  const user = await getUser();
+
+  return <AcceptInvitation token={token} user={user} />;
+}
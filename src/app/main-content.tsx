@@ -5,14 +5,30 @@ import {
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
-import { FileSystemProvider } from "@/lib/contexts/file-system-context";
-import { ChatProvider } from "@/lib/contexts/chat-context";
+import {
+  FileSystemProvider,
+  useFileSystem,
+} from "@/lib/contexts/file-system-context";
+import { ChatProvider, useChat } from "@/lib/contexts/chat-context";
+import { DiagnosticsProvider } from "@/lib/contexts/diagnostics-context";
+import { AutosaveProvider } from "@/lib/contexts/autosave-context";
+import {
+  CollaborationProvider,
+  useCollaboration,
+} from "@/lib/contexts/collaboration-context";
 import { ChatInterface } from "@/components/chat/ChatInterface";
+import { ModelPicker } from "@/components/chat/ModelPicker";
 import { FileTree } from "@/components/editor/FileTree";
 import { CodeEditor } from "@/components/editor/CodeEditor";
+import { ProblemsPanel } from "@/components/editor/ProblemsPanel";
 import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { StoryGallery } from "@/components/preview/StoryGallery";
+import { A11yPanel } from "@/components/preview/A11yPanel";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { HeaderActions } from "@/components/HeaderActions";
+import { ExportButton } from "@/components/ExportButton";
+import { SaveStatus } from "@/components/SaveStatus";
+import type { ProjectRole } from "@/lib/project-roles";
 
 interface MainContentProps {
   user?: {
@@ -24,84 +40,180 @@ interface MainContentProps {
     name: string;
     messages: any[];
     data: any;
+    model?: string | null;
+    role?: ProjectRole;
     createdAt: Date;
     updatedAt: Date;
   };
 }
 
+// Feeds preview errors to the chat so auto-fix can act on them, elements
+// picked in the preview to the next message, and the accessibility audit
+// to the A11y panel
+function ChatPreviewFrame({
+  projectId,
+  readOnly,
+}: {
+  projectId?: string;
+  readOnly: boolean;
+}) {
+  const { setPreviewErrors, setSelectedElement, setA11yIssues } = useChat();
+  const { setSelectedFile } = useFileSystem();
+  return (
+    <PreviewFrame
+      onErrorsChange={setPreviewErrors}
+      onA11yIssuesChange={setA11yIssues}
+      projectId={projectId}
+      onElementPick={
+        readOnly
+          ? undefined
+          : (element) => {
+              setSelectedElement(element);
+              setSelectedFile(element.source.path);
+            }
+      }
+    />
+  );
+}
+
+// Viewers see the audit but can't ask the model for fixes
+function ChatA11yPanel({ readOnly }: { readOnly: boolean }) {
+  const { a11yIssues, requestA11yFix, status } = useChat();
+  return (
+    <A11yPanel
+      issues={a11yIssues}
+      onRequestFix={readOnly ? undefined : requestA11yFix}
+      isBusy={status === "submitted" || status === "streaming"}
+    />
+  );
+}
+
+// Marks the source of the element picked in the preview
+function ChatCodeEditor({ readOnly }: { readOnly: boolean }) {
+  const { selectedElement } = useChat();
+  return (
+    <CodeEditor readOnly={readOnly} highlight={selectedElement?.source} />
+  );
+}
+
+// Shows which files other sessions on the project have open
+function CollaborativeFileTree({ readOnly }: { readOnly: boolean }) {
+  const { peers } = useCollaboration();
+  return <FileTree readOnly={readOnly} peers={peers} />;
+}
+
 export function MainContent({ user, project }: MainContentProps) {
+  const readOnly = project?.role === "viewer";
+
   return (
     <FileSystemProvider initialData={project?.data}>
-      <ChatProvider projectId={project?.id} initialMessages={project?.messages}>
-        <div className="h-screen w-screen overflow-hidden bg-neutral-50">
-          <ResizablePanelGroup direction="horizontal" className="h-full">
-            {/* Left Panel - Chat */}
-            <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
-              <div className="h-full flex flex-col bg-white">
-                {/* Chat Header */}
-                <div className="h-14 flex items-center px-6 border-b border-neutral-200/60">
-                  <h1 className="text-lg font-semibold text-neutral-900 tracking-tight">React Component Generator</h1>
-                </div>
-
-                {/* Chat Content */}
-                <div className="flex-1 overflow-hidden">
-                  <ChatInterface />
-                </div>
-              </div>
-            </ResizablePanel>
-
-            <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
-
-            {/* Right Panel - Preview/Code */}
-            <ResizablePanel defaultSize={65}>
-              <Tabs defaultValue="preview" className="h-full flex flex-col bg-white">
-                {/* Top Bar */}
-                <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between bg-neutral-50/50">
-                  <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
-                    <TabsTrigger value="preview" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Preview</TabsTrigger>
-                    <TabsTrigger value="code" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Code</TabsTrigger>
-                  </TabsList>
-                  <HeaderActions user={user} projectId={project?.id} />
-                </div>
-
-                {/* Content Area */}
-                <TabsContent value="preview" className="flex-1 overflow-hidden bg-neutral-50 m-0">
-                  <div className="h-full bg-white">
-                    <PreviewFrame />
-                  </div>
-                </TabsContent>
-
-                <TabsContent value="code" className="flex-1 overflow-hidden bg-neutral-50 m-0">
-                  <ResizablePanelGroup
-                    direction="horizontal"
-                    className="h-full"
-                  >
-                    {/* File Tree */}
-                    <ResizablePanel
-                      defaultSize={30}
-                      minSize={20}
-                      maxSize={50}
-                    >
-                      <div className="h-full bg-neutral-50 border-r border-neutral-200">
-                        <FileTree />
+      <CollaborationProvider projectId={project?.id}>
+        <DiagnosticsProvider>
+          <ChatProvider
+            projectId={project?.id}
+            initialMessages={project?.messages}
+            initialModel={project?.model}
+          >
+            <AutosaveProvider
+              projectId={project?.id}
+              initialUpdatedAt={project?.updatedAt}
+              enabled={!readOnly}
+            >
+              <div className="h-screen w-screen overflow-hidden bg-neutral-50">
+                <ResizablePanelGroup direction="horizontal" className="h-full">
+                  {/* Left Panel - Chat */}
+                  <ResizablePanel defaultSize={35} minSize={25} maxSize={50}>
+                    <div className="h-full flex flex-col bg-white">
+                      {/* Chat Header */}
+                      <div className="h-14 flex items-center justify-between gap-3 px-6 border-b border-neutral-200/60">
+                        <h1 className="text-lg font-semibold text-neutral-900 tracking-tight">React Component Generator</h1>
+                        {!readOnly && <ModelPicker />}
+                      </div>
+
+                      {/* Chat Content */}
+                      <div className="flex-1 overflow-hidden">
+                        <ChatInterface readOnly={readOnly} />
                       </div>
-                    </ResizablePanel>
+                    </div>
+                  </ResizablePanel>
 
-                    <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+                  <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
 
-                    {/* Code Editor */}
-                    <ResizablePanel defaultSize={70}>
-                      <div className="h-full bg-white">
-                        <CodeEditor />
+                  {/* Right Panel - Preview/Code */}
+                  <ResizablePanel defaultSize={65}>
+                    <Tabs defaultValue="preview" className="h-full flex flex-col bg-white">
+                      {/* Top Bar */}
+                      <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between bg-neutral-50/50">
+                        <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
+                          <TabsTrigger value="preview" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Preview</TabsTrigger>
+                          <TabsTrigger value="code" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Code</TabsTrigger>
+                          <TabsTrigger value="gallery" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Gallery</TabsTrigger>
+                        </TabsList>
+                        <div className="flex items-center gap-2">
+                          {project && !readOnly && <SaveStatus />}
+                          <ExportButton projectName={project?.name} />
+                          <HeaderActions
+                            user={user}
+                            projectId={project?.id}
+                            role={project?.role}
+                          />
+                        </div>
                       </div>
-                    </ResizablePanel>
-                  </ResizablePanelGroup>
-                </TabsContent>
-              </Tabs>
-            </ResizablePanel>
-          </ResizablePanelGroup>
-        </div>
-      </ChatProvider>
+
+                      {/* Content Area */}
+                      <TabsContent value="preview" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+                        <div className="h-full flex flex-col bg-white">
+                          <div className="flex-1 min-h-0">
+                            <ChatPreviewFrame
+                              projectId={project?.id}
+                              readOnly={readOnly}
+                            />
+                          </div>
+                          <ChatA11yPanel readOnly={readOnly} />
+                        </div>
+                      </TabsContent>
+
+                      <TabsContent value="gallery" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+                        <StoryGallery />
+                      </TabsContent>
+
+                      <TabsContent value="code" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+                        <ResizablePanelGroup
+                          direction="horizontal"
+                          className="h-full"
+                        >
+                          {/* File Tree */}
+                          <ResizablePanel
+                            defaultSize={30}
+                            minSize={20}
+                            maxSize={50}
+                          >
+                            <div className="h-full bg-neutral-50 border-r border-neutral-200">
+                              <CollaborativeFileTree readOnly={readOnly} />
+                            </div>
+                          </ResizablePanel>
+
+                          <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+
+                          {/* Code Editor */}
+                          <ResizablePanel defaultSize={70}>
+                            <div className="h-full flex flex-col bg-white">
+                              <div className="flex-1 min-h-0">
+                                <ChatCodeEditor readOnly={readOnly} />
+                              </div>
+                              <ProblemsPanel />
+                            </div>
+                          </ResizablePanel>
+                        </ResizablePanelGroup>
+                      </TabsContent>
+                    </Tabs>
+                  </ResizablePanel>
+                </ResizablePanelGroup>
+              </div>
+            </AutosaveProvider>
+          </ChatProvider>
+        </DiagnosticsProvider>
+      </CollaborationProvider>
     </FileSystemProvider>
   );
 }
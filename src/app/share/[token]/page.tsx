@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getUser } from "@/actions";
+import { getSharedProject } from "@/actions/get-shared-project";
+import { SharedProjectView } from "@/components/share/SharedProjectView";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: PageProps): Promise<Metadata> {
+  const { token } = await params;
+  const metadata: Metadata = {
+    title: "Shared design",
+    robots: { index: false },
+  };
+
+  try {
+    const project = await getSharedProject(token);
+    if (project.hasThumbnail) {
+      // Link previews need absolute image URLs
+      if (process.env.APP_URL) {
+        metadata.metadataBase = new URL(process.env.APP_URL);
+      }
+      metadata.openGraph = {
+        title: project.name,
+        images: [`/api/share/${token}/thumbnail`],
+      };
+    }
+  } catch {
+    // The page itself answers unknown tokens with a 404
+  }
+
+  return metadata;
+}
+
+export default async function SharePage({ params }: PageProps) {
+  const { token } = await params;
+  const user = await getUser();
+
+  let project;
+  try {
+    project = await getSharedProject(token);
+  } catch (error) {
+    // Unknown and revoked tokens look the same to the visitor
+    notFound();
+  }
+
+  return <SharedProjectView user={user} token={token} project={project} />;
+}
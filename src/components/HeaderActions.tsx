@@ -3,11 +3,26 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Plus, LogOut, FolderOpen, ChevronDown } from "lucide-react";
+import {
+  Plus,
+  LogOut,
+  FolderOpen,
+  ChevronDown,
+  History,
+  Share2,
+  GitFork,
+  Users,
+} from "lucide-react";
 import { AuthDialog } from "@/components/auth/AuthDialog";
+import { VersionHistoryDialog } from "@/components/versions/VersionHistoryDialog";
+import { ShareDialog } from "@/components/share/ShareDialog";
+import { MembersDialog } from "@/components/members/MembersDialog";
+import { ProjectThumbnail } from "@/components/preview/ProjectThumbnail";
 import { signOut } from "@/actions";
 import { getProjects } from "@/actions/get-projects";
 import { createProject } from "@/actions/create-project";
+import { forkProject } from "@/actions/fork-project";
+import { ProjectRole, hasRole } from "@/lib/project-roles";
 import {
   Popover,
   PopoverContent,
@@ -28,6 +43,10 @@ interface HeaderActionsProps {
     email: string;
   } | null;
   projectId?: string;
+  // The current user's role in the project
+  role?: ProjectRole;
+  // Set on share pages, where the shared snapshot is what gets forked
+  shareToken?: string;
 }
 
 interface Project {
@@ -37,7 +56,12 @@ interface Project {
   updatedAt: Date;
 }
 
-export function HeaderActions({ user, projectId }: HeaderActionsProps) {
+export function HeaderActions({
+  user,
+  projectId,
+  role = "owner",
+  shareToken,
+}: HeaderActionsProps) {
   const router = useRouter();
   const [authDialogOpen, setAuthDialogOpen] = useState(false);
   const [authMode, setAuthMode] = useState<"signin" | "signup">("signin");
@@ -45,6 +69,10 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
   const [projects, setProjects] = useState<Project[]>([]);
   const [initialLoading, setInitialLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [isForking, setIsForking] = useState(false);
 
   // Load projects initially
   useEffect(() => {
@@ -92,6 +120,19 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
     router.push(`/${project.id}`);
   };
 
+  const handleFork = async () => {
+    setIsForking(true);
+    try {
+      const project = await forkProject(
+        shareToken ? { shareToken } : { projectId: projectId! }
+      );
+      router.push(`/${project.id}`);
+    } catch (error) {
+      console.error("Failed to fork project:", error);
+      setIsForking(false);
+    }
+  };
+
   if (!user) {
     return (
       <>
@@ -143,6 +184,10 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
                         setSearchQuery("");
                       }}
                     >
+                      <ProjectThumbnail
+                        src={`/api/projects/${project.id}/thumbnail`}
+                        className="h-9 w-14"
+                      />
                       <div className="flex flex-col">
                         <span className="font-medium">{project.name}</span>
                       </div>
@@ -155,6 +200,72 @@ export function HeaderActions({ user, projectId }: HeaderActionsProps) {
         </Popover>
       )}
 
+      {projectId && (
+        <>
+          <Button
+            variant="outline"
+            className="h-8 gap-2"
+            onClick={() => setVersionsOpen(true)}
+            title="Version history"
+          >
+            <History className="h-4 w-4" />
+            History
+          </Button>
+          <VersionHistoryDialog
+            open={versionsOpen}
+            onOpenChange={setVersionsOpen}
+            projectId={projectId}
+            readOnly={!hasRole(role, "editor")}
+          />
+          <Button
+            variant="outline"
+            className="h-8 gap-2"
+            onClick={() => setMembersOpen(true)}
+            title="Project members"
+          >
+            <Users className="h-4 w-4" />
+            Members
+          </Button>
+          <MembersDialog
+            open={membersOpen}
+            onOpenChange={setMembersOpen}
+            projectId={projectId}
+            role={role}
+          />
+          {hasRole(role, "editor") && (
+            <>
+              <Button
+                variant="outline"
+                className="h-8 gap-2"
+                onClick={() => setShareOpen(true)}
+                title="Share a read-only link"
+              >
+                <Share2 className="h-4 w-4" />
+                Share
+              </Button>
+              <ShareDialog
+                open={shareOpen}
+                onOpenChange={setShareOpen}
+                projectId={projectId}
+              />
+            </>
+          )}
+        </>
+      )}
+
+      {(projectId || shareToken) && (
+        <Button
+          variant="outline"
+          className="h-8 gap-2"
+          onClick={handleFork}
+          disabled={isForking}
+          title="Copy this project into a new one"
+        >
+          <GitFork className="h-4 w-4" />
+          Fork
+        </Button>
+      )}
+
       <Button className="flex items-center gap-2 h-8" onClick={handleNewDesign}>
         <Plus className="h-4 w-4" />
         New Design
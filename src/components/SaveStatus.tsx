@@ -0,0 +1,99 @@
+"use client";
+
+import { AlertTriangle, Check, Loader2, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAutosave } from "@/lib/contexts/autosave-context";
+
+export function SaveStatus() {
+  const { status, lastSavedAt, save, revert, loadLatest, overwrite } =
+    useAutosave();
+
+  switch (status) {
+    case "saved":
+      return (
+        <span
+          className="flex items-center gap-1.5 text-xs text-neutral-500"
+          title={
+            lastSavedAt
+              ? `Last saved ${lastSavedAt.toLocaleTimeString()}`
+              : undefined
+          }
+        >
+          <Check className="h-3.5 w-3.5" />
+          Saved
+        </span>
+      );
+
+    case "saving":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-neutral-500">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Saving…
+        </span>
+      );
+
+    case "dirty":
+      return (
+        <div className="flex items-center gap-1.5">
+          <span className="flex items-center gap-1.5 text-xs text-neutral-600">
+            <span className="h-2 w-2 rounded-full bg-amber-500" />
+            Unsaved changes
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={save}>
+            Save
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={revert}
+            title="Discard changes since the last save"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Revert
+          </Button>
+        </div>
+      );
+
+    case "conflict":
+      return (
+        <div className="flex items-center gap-1.5">
+          <span className="flex items-center gap-1.5 text-xs text-amber-700">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Changed elsewhere
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={loadLatest}
+            title="Discard your changes and load the saved version"
+          >
+            Load latest
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2"
+            onClick={overwrite}
+            title="Replace the saved version with your changes"
+          >
+            Overwrite
+          </Button>
+        </div>
+      );
+
+    case "error":
+      return (
+        <div className="flex items-center gap-1.5">
+          <span className="flex items-center gap-1.5 text-xs text-red-600">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            Save failed
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={save}>
+            Retry
+          </Button>
+        </div>
+      );
+  }
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { Wrench } from "lucide-react";
+import { useChat, MAX_AUTO_FIX_ATTEMPTS } from "@/lib/contexts/chat-context";
+
+export function AutoFixToggle() {
+  const { autoFix, setAutoFix, autoFixAttempts, previewErrors } = useChat();
+
+  const gaveUp =
+    autoFixAttempts >= MAX_AUTO_FIX_ATTEMPTS && previewErrors.length > 0;
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-4 text-xs text-neutral-500">
+      <label className="flex items-center gap-2 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={autoFix}
+          onChange={(e) => setAutoFix(e.target.checked)}
+          className="h-3.5 w-3.5 accent-blue-600"
+        />
+        <Wrench className="h-3.5 w-3.5" />
+        Auto-fix preview errors
+      </label>
+      {autoFix && autoFixAttempts > 0 && (
+        <span className={gaveUp ? "text-red-600" : "text-neutral-500"}>
+          {gaveUp
+            ? `Stopped after ${MAX_AUTO_FIX_ATTEMPTS} attempts`
+            : `Fix attempt ${autoFixAttempts}/${MAX_AUTO_FIX_ATTEMPTS}`}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -3,12 +3,28 @@
 import { useEffect, useRef } from "react";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { AutoFixToggle } from "./AutoFixToggle";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useChat } from "@/lib/contexts/chat-context";
 
-export function ChatInterface() {
+interface ChatInterfaceProps {
+  // Viewers can read the conversation but not continue it
+  readOnly?: boolean;
+}
+
+export function ChatInterface({ readOnly = false }: ChatInterfaceProps = {}) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const { messages, input, handleInputChange, handleSubmit, status } = useChat();
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    status,
+    selectedElement,
+    setSelectedElement,
+    attachments,
+    setAttachments,
+  } = useChat();
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
@@ -29,14 +45,25 @@ export function ChatInterface() {
           <MessageList messages={messages} isLoading={status === "streaming"} />
         </div>
       </ScrollArea>
-      <div className="mt-4 flex-shrink-0">
-        <MessageInput
-          input={input}
-          handleInputChange={handleInputChange}
-          handleSubmit={handleSubmit}
-          isLoading={status === "submitted" || status === "streaming"}
-        />
-      </div>
+      {readOnly ? (
+        <p className="mt-4 flex-shrink-0 rounded-md bg-neutral-50 px-3 py-2 text-center text-sm text-neutral-500">
+          You have view access to this project. Fork it to make changes.
+        </p>
+      ) : (
+        <div className="mt-4 flex-shrink-0">
+          <AutoFixToggle />
+          <MessageInput
+            input={input}
+            handleInputChange={handleInputChange}
+            handleSubmit={handleSubmit}
+            isLoading={status === "submitted" || status === "streaming"}
+            selectedElement={selectedElement}
+            onClearSelectedElement={() => setSelectedElement(null)}
+            attachments={attachments}
+            onAttachmentsChange={setAttachments}
+          />
+        </div>
+      )}
     </div>
   );
 }
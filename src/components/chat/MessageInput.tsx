@@ -1,13 +1,39 @@
 "use client";
 
-import { ChangeEvent, FormEvent, KeyboardEvent } from "react";
-import { Send } from "lucide-react";
+import {
+  ChangeEvent,
+  ClipboardEvent,
+  DragEvent,
+  FormEvent,
+  KeyboardEvent,
+  useRef,
+  useState,
+} from "react";
+import Image from "next/image";
+import { ImagePlus, MousePointerClick, Send, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  PickedElement,
+  describePickedElement,
+} from "@/lib/preview/element-picker";
+import {
+  ACCEPTED_IMAGE_TYPES,
+  ImageAttachment,
+  MAX_ATTACHMENTS,
+  checkImageFile,
+  readImageAttachment,
+} from "@/lib/chat-attachments";
 
 interface MessageInputProps {
   input?: string;
   handleInputChange?: (e: ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit?: (e: FormEvent<HTMLFormElement>) => void;
   isLoading?: boolean;
+  selectedElement?: PickedElement | null;
+  onClearSelectedElement?: () => void;
+  attachments?: ImageAttachment[];
+  // Enables attaching images by paste, drag and drop or the file picker
+  onAttachmentsChange?: (attachments: ImageAttachment[]) => void;
 }
 
 export function MessageInput({
@@ -15,7 +41,72 @@ export function MessageInput({
   handleInputChange = () => {},
   handleSubmit = () => {},
   isLoading = false,
+  selectedElement = null,
+  onClearSelectedElement = () => {},
+  attachments = [],
+  onAttachmentsChange,
 }: MessageInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const addFiles = async (files: File[]) => {
+    if (!onAttachmentsChange || files.length === 0) return;
+
+    const errors: string[] = [];
+    const accepted = files.filter((file) => {
+      const error = checkImageFile(file);
+      if (error) errors.push(error);
+      return !error;
+    });
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (accepted.length > room) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS} images`);
+    }
+    setAttachmentError(errors[0] ?? null);
+
+    const added = accepted.slice(0, Math.max(room, 0));
+    if (added.length === 0) return;
+    try {
+      onAttachmentsChange([
+        ...attachments,
+        ...(await Promise.all(added.map(readImageAttachment))),
+      ]);
+    } catch (error) {
+      setAttachmentError(
+        error instanceof Error ? error.message : "Failed to read the image"
+      );
+    }
+  };
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const images = Array.from(e.clipboardData.files).filter((file) =>
+      file.type.startsWith("image/")
+    );
+    if (!onAttachmentsChange || images.length === 0) return;
+    // Pasting a screenshot shouldn't also paste its file name as text
+    e.preventDefault();
+    addFiles(images);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAttachmentsChange || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onAttachmentsChange) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachmentError(null);
+    onAttachmentsChange?.(attachments.filter((_, i) => i !== index));
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -27,17 +118,102 @@ export function MessageInput({
   };
 
   return (
-    <form onSubmit={handleSubmit} className="relative p-4 bg-white border-t border-neutral-200/60">
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn(
+        "relative p-4 bg-white border-t border-neutral-200/60",
+        isDragging && "bg-blue-50/60"
+      )}
+    >
       <div className="relative max-w-4xl mx-auto">
+        {attachments.length > 0 && (
+          <div className="mb-2 flex flex-wrap gap-2">
+            {attachments.map((attachment, index) => (
+              <div
+                key={`${index}-${attachment.name}`}
+                className="group relative h-16 w-16 overflow-hidden rounded-md border border-neutral-200 bg-neutral-50"
+              >
+                <Image
+                  src={attachment.url}
+                  alt={attachment.name ?? "Attached image"}
+                  fill
+                  unoptimized
+                  className="object-cover"
+                />
+                <button
+                  type="button"
+                  onClick={() => removeAttachment(index)}
+                  className="absolute right-0.5 top-0.5 rounded bg-neutral-900/70 p-0.5 text-white opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+                  aria-label={`Remove ${attachment.name ?? "image"}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {attachmentError && (
+          <p className="mb-2 text-xs text-red-600">{attachmentError}</p>
+        )}
+        {selectedElement && (
+          <div className="mb-2 flex items-center gap-1.5 rounded-md border border-blue-200 bg-blue-50 px-2 py-1 text-xs text-blue-700">
+            <MousePointerClick className="h-3.5 w-3.5 flex-shrink-0" />
+            <span className="truncate font-mono">
+              {describePickedElement(selectedElement)}
+            </span>
+            <button
+              type="button"
+              onClick={onClearSelectedElement}
+              className="ml-auto rounded p-0.5 hover:bg-blue-100"
+              aria-label="Remove selected element"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
         <textarea
           value={input}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
-          placeholder="Describe the React component you want to create..."
+          onPaste={handlePaste}
+          placeholder={
+            selectedElement
+              ? "Describe the change to the selected element..."
+              : "Describe the React component you want to create..."
+          }
           disabled={isLoading}
-          className="w-full min-h-[80px] max-h-[200px] pl-4 pr-14 py-3.5 rounded-xl border border-neutral-200 bg-neutral-50/50 text-neutral-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50 focus:bg-white transition-all placeholder:text-neutral-400 text-[15px] font-normal shadow-sm"
+          className={`w-full min-h-[80px] max-h-[200px] pl-4 ${onAttachmentsChange ? "pr-24" : "pr-14"} py-3.5 rounded-xl border border-neutral-200 bg-neutral-50/50 text-neutral-900 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500/10 focus:border-blue-500/50 focus:bg-white transition-all placeholder:text-neutral-400 text-[15px] font-normal shadow-sm`}
           rows={3}
         />
+        {onAttachmentsChange && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
+              multiple
+              hidden
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                // Allows picking the same file again after removing it
+                e.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isLoading || attachments.length >= MAX_ATTACHMENTS}
+              className="absolute right-14 bottom-3 p-2.5 rounded-lg text-neutral-400 transition-all hover:bg-neutral-100 hover:text-neutral-700 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              title="Attach images (or paste or drop them)"
+              aria-label="Attach images"
+            >
+              <ImagePlus className="h-4 w-4" />
+            </button>
+          </>
+        )}
         <button 
           type="submit" 
           disabled={isLoading || !input.trim()}
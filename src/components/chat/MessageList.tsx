@@ -1,10 +1,12 @@
 "use client";
 
 import { Message } from "ai";
+import Image from "next/image";
 import { cn } from "@/lib/utils";
 import { User, Bot, Loader2 } from "lucide-react";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { ToolCallDisplay } from "./ToolCallDisplay";
+import type { ImageAttachment } from "@/lib/chat-attachments";
 
 interface MessageListProps {
   messages: Message[];
@@ -47,6 +49,27 @@ export function MessageList({ messages, isLoading }: MessageListProps) {
               "flex flex-col gap-2 max-w-[85%]",
               message.role === "user" ? "items-end" : "items-start"
             )}>
+              {message.experimental_attachments?.length ? (
+                <div className="flex flex-wrap justify-end gap-2">
+                  {message.experimental_attachments.map(
+                    (attachment: ImageAttachment, index: number) =>
+                      attachment.contentType.startsWith("image/") ? (
+                        <div
+                          key={index}
+                          className="relative h-24 w-24 overflow-hidden rounded-lg border border-neutral-200 bg-neutral-50 shadow-sm"
+                        >
+                          <Image
+                            src={attachment.url}
+                            alt={attachment.name ?? "Attached image"}
+                            fill
+                            unoptimized
+                            className="object-cover"
+                          />
+                        </div>
+                      ) : null
+                  )}
+                </div>
+              ) : null}
               <div className={cn(
                 "rounded-xl px-4 py-3",
                 message.role === "user" 
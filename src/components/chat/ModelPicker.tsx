@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Cpu } from "lucide-react";
+import { useChat } from "@/lib/contexts/chat-context";
+import { getAvailableModels } from "@/actions/get-available-models";
+import type { ModelOption } from "@/lib/model-registry";
+
+export function ModelPicker() {
+  const { model, setModel, status } = useChat();
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string>("");
+
+  useEffect(() => {
+    getAvailableModels()
+      .then((available) => {
+        setModels(available.models);
+        setDefaultModel(available.defaultModel);
+      })
+      .catch(console.error);
+  }, []);
+
+  // Nothing to choose between
+  if (models.length < 2) return null;
+
+  // A model saved on the project may since have been removed from the config
+  const selected = models.some((option) => option.id === model)
+    ? model!
+    : defaultModel;
+
+  return (
+    <label className="flex items-center gap-1.5 text-neutral-500">
+      <Cpu className="h-4 w-4" />
+      <span className="sr-only">Model</span>
+      <select
+        value={selected}
+        onChange={(e) => setModel(e.target.value)}
+        disabled={status === "submitted" || status === "streaming"}
+        className="h-8 max-w-[220px] rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-900 truncate"
+      >
+        {models.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
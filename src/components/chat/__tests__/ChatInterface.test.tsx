@@ -7,6 +7,7 @@ import { useChat } from "@/lib/contexts/chat-context";
 // Mock the dependencies
 vi.mock("@/lib/contexts/chat-context", () => ({
   useChat: vi.fn(),
+  MAX_AUTO_FIX_ATTEMPTS: 3,
 }));
 
 // Mock the ScrollArea component
@@ -49,6 +50,10 @@ const mockUseChat = {
   handleInputChange: vi.fn(),
   handleSubmit: vi.fn(),
   status: "idle" as const,
+  autoFix: false,
+  setAutoFix: vi.fn(),
+  autoFixAttempts: 0,
+  previewErrors: [],
 };
 
 beforeEach(() => {
@@ -176,4 +181,36 @@ test("renders with correct layout classes", () => {
   const inputWrapper = screen.getByTestId("message-input").parentElement;
   expect(inputWrapper?.className).toContain("mt-4");
   expect(inputWrapper?.className).toContain("flex-shrink-0");
-});
\ No newline at end of file
+});
+test("toggles auto-fix mode", async () => {
+  const setAutoFix = vi.fn();
+  (useChat as any).mockReturnValue({ ...mockUseChat, setAutoFix });
+
+  render(<ChatInterface />);
+
+  await userEvent.click(screen.getByLabelText("Auto-fix preview errors"));
+
+  expect(setAutoFix).toHaveBeenCalledWith(true);
+});
+
+test("shows when auto-fix has given up", () => {
+  (useChat as any).mockReturnValue({
+    ...mockUseChat,
+    autoFix: true,
+    autoFixAttempts: 3,
+    previewErrors: [{ kind: "runtime", message: "boom" }],
+  });
+
+  render(<ChatInterface />);
+
+  expect(screen.getByText("Stopped after 3 attempts")).toBeDefined();
+});
+
+test("hides the input for read-only members", () => {
+  render(<ChatInterface readOnly />);
+
+  expect(screen.queryByTestId("message-input")).toBeNull();
+  expect(
+    screen.getByText(/You have view access to this project/)
+  ).toBeDefined();
+});
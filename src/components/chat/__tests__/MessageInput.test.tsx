@@ -260,4 +260,81 @@ test("submit button click triggers form submission", async () => {
   await userEvent.click(submitButton);
   
   expect(handleSubmit).toHaveBeenCalledOnce();
-});
\ No newline at end of file
+});
+
+test("shows the selected element and lets it be removed", async () => {
+  const onClearSelectedElement = vi.fn();
+  render(
+    <MessageInput
+      input=""
+      selectedElement={{
+        source: { path: "/App.jsx", line: 4, column: 7 },
+        tagName: "button",
+      }}
+      onClearSelectedElement={onClearSelectedElement}
+    />
+  );
+
+  expect(screen.getByText("<button> in /App.jsx:4:7")).toBeDefined();
+  expect(
+    screen.getByPlaceholderText("Describe the change to the selected element...")
+  ).toBeDefined();
+
+  await userEvent.click(screen.getByLabelText("Remove selected element"));
+  expect(onClearSelectedElement).toHaveBeenCalledTimes(1);
+});
+
+test("attaches images picked with the file picker", async () => {
+  const onAttachmentsChange = vi.fn();
+  render(<MessageInput input="" onAttachmentsChange={onAttachmentsChange} />);
+
+  const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+  await userEvent.upload(
+    fileInput,
+    new File(["hello"], "mockup.png", { type: "image/png" })
+  );
+
+  await vi.waitFor(() =>
+    expect(onAttachmentsChange).toHaveBeenCalledWith([
+      {
+        name: "mockup.png",
+        contentType: "image/png",
+        url: "data:image/png;base64,aGVsbG8=",
+      },
+    ])
+  );
+});
+
+test("rejects files that are not supported images", async () => {
+  const onAttachmentsChange = vi.fn();
+  render(<MessageInput input="" onAttachmentsChange={onAttachmentsChange} />);
+
+  const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+  fireEvent.change(fileInput, {
+    target: { files: [new File(["<svg/>"], "logo.svg", { type: "image/svg+xml" })] },
+  });
+
+  expect(
+    await screen.findByText("logo.svg is not a PNG, JPEG, GIF or WebP image")
+  ).toBeDefined();
+  expect(onAttachmentsChange).not.toHaveBeenCalled();
+});
+
+test("shows attached images and lets them be removed", async () => {
+  const onAttachmentsChange = vi.fn();
+  const attachments = [
+    { name: "a.png", contentType: "image/png", url: "data:image/png;base64,YQ==" },
+    { name: "b.png", contentType: "image/png", url: "data:image/png;base64,Yg==" },
+  ];
+  render(
+    <MessageInput
+      input=""
+      attachments={attachments}
+      onAttachmentsChange={onAttachmentsChange}
+    />
+  );
+
+  expect(screen.getByAltText("a.png")).toBeDefined();
+  await userEvent.click(screen.getByLabelText("Remove a.png"));
+  expect(onAttachmentsChange).toHaveBeenCalledWith([attachments[1]]);
+});
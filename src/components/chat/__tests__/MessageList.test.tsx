@@ -360,3 +360,22 @@ test("MessageList renders multiple tool-invocation parts", () => {
   const toolCalls = screen.getAllByTestId("tool-call-display");
   expect(toolCalls).toHaveLength(2);
 });
+
+test("MessageList shows thumbnails of attached images", () => {
+  const messages = [
+    {
+      id: "1",
+      role: "user",
+      content: "Build this",
+      experimental_attachments: [
+        { name: "mockup.png", contentType: "image/png", url: "data:image/png;base64,YQ==" },
+      ],
+    },
+  ] as Message[];
+
+  render(<MessageList messages={messages} />);
+
+  const image = screen.getByAltText("mockup.png") as HTMLImageElement;
+  expect(image.src).toBe("data:image/png;base64,YQ==");
+  expect(screen.getByText("Build this")).toBeDefined();
+});
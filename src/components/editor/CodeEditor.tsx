@@ -1,20 +1,125 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useRef } from "react";
 import Editor from "@monaco-editor/react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useDiagnostics } from "@/lib/contexts/diagnostics-context";
+import type { SourceLocation } from "@/lib/preview/element-picker";
 import { Code2 } from "lucide-react";
+import { FileHistory } from "./FileHistory";
 
-export function CodeEditor() {
+interface CodeEditorProps {
+  readOnly?: boolean;
+  // Source of the element picked in the preview, marked when its file is open
+  highlight?: SourceLocation | null;
+}
+
+export function CodeEditor({
+  readOnly = false,
+  highlight = null,
+}: CodeEditorProps = {}) {
   const { selectedFile, getFileContent, updateFile } = useFileSystem();
+  const { getFileDiagnostics, activeDiagnostic } = useDiagnostics();
   const editorRef = useRef<any>(null);
+  const monacoRef = useRef<any>(null);
+  const highlightRef = useRef<any>(null);
+
+  // Type errors come from the project-wide check, which knows about the
+  // other virtual files; Monaco's own checker only sees the open file
+  const handleEditorWillMount = (monaco: any) => {
+    monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
+      noSemanticValidation: true,
+      noSyntaxValidation: false,
+    });
+  };
 
-  const handleEditorDidMount = (editor: any) => {
+  const applyMarkers = useCallback(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const fileDiagnostics = selectedFile ? getFileDiagnostics(selectedFile) : [];
+    monaco.editor.setModelMarkers(
+      model,
+      "diagnostics",
+      fileDiagnostics.map((diagnostic) => ({
+        startLineNumber: diagnostic.line,
+        startColumn: diagnostic.column,
+        endLineNumber: diagnostic.endLine,
+        endColumn: diagnostic.endColumn,
+        message: diagnostic.message,
+        code: `TS${diagnostic.code}`,
+        severity:
+          diagnostic.severity === "error"
+            ? monaco.MarkerSeverity.Error
+            : monaco.MarkerSeverity.Warning,
+      }))
+    );
+  }, [selectedFile, getFileDiagnostics]);
+
+  useEffect(() => {
+    applyMarkers();
+  }, [applyMarkers]);
+
+  const applyHighlight = useCallback(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    highlightRef.current ??= editor.createDecorationsCollection();
+    if (!highlight || highlight.path !== selectedFile) {
+      highlightRef.current.clear();
+      return;
+    }
+
+    highlightRef.current.set([
+      {
+        range: {
+          startLineNumber: highlight.line,
+          startColumn: 1,
+          endLineNumber: highlight.line,
+          endColumn: 1,
+        },
+        options: {
+          isWholeLine: true,
+          className: "picked-element-line",
+          linesDecorationsClassName: "picked-element-glyph",
+        },
+      },
+    ]);
+    const position = { lineNumber: highlight.line, column: highlight.column };
+    editor.revealPositionInCenter(position);
+    editor.setPosition(position);
+  }, [highlight, selectedFile]);
+
+  useEffect(() => {
+    applyHighlight();
+  }, [applyHighlight]);
+
+  const handleEditorDidMount = (editor: any, monaco: any) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    applyMarkers();
+    applyHighlight();
   };
 
+  // Jump to a problem picked in the problems panel
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !activeDiagnostic || activeDiagnostic.path !== selectedFile) {
+      return;
+    }
+
+    const position = {
+      lineNumber: activeDiagnostic.line,
+      column: activeDiagnostic.column,
+    };
+    editor.revealPositionInCenter(position);
+    editor.setPosition(position);
+    editor.focus();
+  }, [activeDiagnostic, selectedFile]);
+
   const handleEditorChange = (value: string | undefined) => {
-    if (selectedFile && value !== undefined) {
+    if (!readOnly && selectedFile && value !== undefined) {
       updateFile(selectedFile, value);
     }
   };
@@ -61,24 +166,33 @@ export function CodeEditor() {
   const language = getLanguageFromPath(selectedFile);
 
   return (
-    <Editor
-      height="100%"
-      language={language}
-      value={content}
-      onChange={handleEditorChange}
-      onMount={handleEditorDidMount}
-      theme="vs-dark"
-      options={{
-        minimap: { enabled: false },
-        fontSize: 14,
-        lineNumbers: 'on',
-        roundedSelection: false,
-        scrollBeyondLastLine: false,
-        readOnly: false,
-        automaticLayout: true,
-        wordWrap: 'on',
-        padding: { top: 16, bottom: 16 },
-      }}
-    />
+    <div className="h-full flex flex-col bg-gray-900">
+      <div className="h-9 flex items-center justify-between px-3 border-b border-gray-800">
+        <span className="text-xs text-gray-400 truncate">{selectedFile}</span>
+        {!readOnly && <FileHistory path={selectedFile} />}
+      </div>
+      <div className="flex-1 min-h-0">
+        <Editor
+          height="100%"
+          language={language}
+          value={content}
+          onChange={handleEditorChange}
+          beforeMount={handleEditorWillMount}
+          onMount={handleEditorDidMount}
+          theme="vs-dark"
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            lineNumbers: 'on',
+            roundedSelection: false,
+            scrollBeyondLastLine: false,
+            readOnly,
+            automaticLayout: true,
+            wordWrap: 'on',
+            padding: { top: 16, bottom: 16 },
+          }}
+        />
+      </div>
+    </div>
   );
 }
\ No newline at end of file
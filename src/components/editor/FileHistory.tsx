@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { History, Undo2 } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import type { FileHistoryEntry } from "@/lib/file-system";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface FileHistoryProps {
+  path: string;
+}
+
+function describeEntry(entry: FileHistoryEntry): string {
+  switch (entry.command) {
+    case "create":
+      return "Created";
+    case "str_replace":
+      return "Replaced text";
+    case "insert":
+      return "Inserted text";
+    case "rename":
+      return `Renamed from ${entry.previousPath}`;
+    case "delete":
+      return "Deleted";
+  }
+}
+
+export function FileHistory({ path }: FileHistoryProps) {
+  const { getFileHistory, undoEdit } = useFileSystem();
+  const [open, setOpen] = useState(false);
+
+  // Newest change first
+  const entries = getFileHistory(path).reverse();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button
+            className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800 transition-colors"
+            title="Edit history"
+          >
+            <History className="h-3.5 w-3.5" />
+            {entries.length}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="end">
+          {entries.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-neutral-500">
+              No changes recorded for this file
+            </p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto py-1">
+              {entries.map((entry, index) => (
+                <li
+                  key={`${entry.timestamp}-${index}`}
+                  className="flex items-center justify-between px-3 py-1.5 text-xs"
+                >
+                  <span className="truncate text-neutral-700">
+                    {describeEntry(entry)}
+                  </span>
+                  <span className="ml-2 shrink-0 text-neutral-400">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </PopoverContent>
+      </Popover>
+      <button
+        className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-400"
+        onClick={() => undoEdit(path)}
+        disabled={entries.length === 0}
+        title="Undo last change"
+      >
+        <Undo2 className="h-3.5 w-3.5" />
+        Undo
+      </button>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useRef, DragEvent, ChangeEvent } from "react";
 import { FileNode } from "@/lib/file-system";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
 import {
@@ -9,16 +9,20 @@ import {
   Folder,
   FolderOpen,
   FileCode,
+  Upload,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { readImportEntries } from "@/lib/import/project-import";
+import { Peer, getPeerColor, getPeerInitial } from "@/lib/collab/protocol";
 
 interface FileTreeNodeProps {
   node: FileNode;
   level: number;
+  peers: Peer[];
 }
 
-function FileTreeNode({ node, level }: FileTreeNodeProps) {
+function FileTreeNode({ node, level, peers }: FileTreeNodeProps) {
   const { selectedFile, setSelectedFile } = useFileSystem();
   const [isExpanded, setIsExpanded] = useState(true);
 
@@ -41,6 +45,11 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
         })
       : [];
 
+  const viewers =
+    node.type === "file"
+      ? peers.filter((peer) => peer.selectedFile === node.path)
+      : [];
+
   return (
     <div>
       <div
@@ -71,11 +80,32 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
           </>
         )}
         <span className="truncate text-gray-700">{node.name}</span>
+        {viewers.length > 0 && (
+          <div className="ml-auto flex -space-x-1 shrink-0">
+            {viewers.map((peer) => (
+              <span
+                key={peer.clientId}
+                title={`${peer.name} has this file open`}
+                className={cn(
+                  "flex h-4 w-4 items-center justify-center rounded-full text-[9px] font-semibold text-white ring-1 ring-white",
+                  getPeerColor(peer.clientId)
+                )}
+              >
+                {getPeerInitial(peer)}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
       {node.type === "directory" && isExpanded && children.length > 0 && (
         <div>
           {children.map((child) => (
-            <FileTreeNode key={child.path} node={child} level={level + 1} />
+            <FileTreeNode
+              key={child.path}
+              node={child}
+              level={level + 1}
+              peers={peers}
+            />
           ))}
         </div>
       )}
@@ -83,34 +113,126 @@ function FileTreeNode({ node, level }: FileTreeNodeProps) {
   );
 }
 
-export function FileTree() {
-  const { fileSystem, refreshTrigger } = useFileSystem();
+interface FileTreeProps {
+  readOnly?: boolean;
+  // Collaborators to show next to the file they have open
+  peers?: Peer[];
+}
+
+export function FileTree({ readOnly = false, peers = [] }: FileTreeProps = {}) {
+  const { fileSystem, refreshTrigger, importFiles } = useFileSystem();
+  const [isDragging, setIsDragging] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const rootNode = fileSystem.getNode("/");
 
-  if (!rootNode || !rootNode.children || rootNode.children.size === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-4 text-center">
-        <Folder className="h-12 w-12 text-gray-300 mb-3" />
-        <p className="text-sm text-gray-500">No files yet</p>
-        <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
-      </div>
-    );
-  }
+  const handleImport = async (files: File[]) => {
+    if (files.length === 0) return;
 
-  const rootChildren = Array.from(rootNode.children.values()).sort((a, b) => {
-    if (a.type !== b.type) {
-      return a.type === "directory" ? -1 : 1;
+    try {
+      const entries = await readImportEntries(files);
+      const { imported, skipped } = importFiles(entries);
+      setImportMessage(
+        `Imported ${imported.length} file${imported.length === 1 ? "" : "s"}` +
+          (skipped.length > 0 ? `, skipped ${skipped.length}` : "")
+      );
+    } catch (error) {
+      console.error("Import failed:", error);
+      setImportMessage("Import failed");
     }
-    return a.name.localeCompare(b.name);
-  });
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!readOnly && e.dataTransfer.types.includes("Files")) {
+      e.preventDefault();
+      setIsDragging(true);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    if (readOnly) return;
+    e.preventDefault();
+    setIsDragging(false);
+    handleImport(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    handleImport(Array.from(e.target.files || []));
+    // Allow importing the same file again
+    e.target.value = "";
+  };
+
+  const rootChildren = rootNode?.children
+    ? Array.from(rootNode.children.values()).sort((a, b) => {
+        if (a.type !== b.type) {
+          return a.type === "directory" ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+      })
+    : [];
 
   return (
-    <ScrollArea className="h-full">
-      <div className="py-2" key={refreshTrigger}>
-        {rootChildren.map((child) => (
-          <FileTreeNode key={child.path} node={child} level={0} />
-        ))}
+    <div
+      className="relative h-full flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200">
+        <span className="text-xs text-gray-500 truncate">
+          {importMessage || "Files"}
+        </span>
+        {!readOnly && (
+          <>
+            <button
+              className="p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+              onClick={() => inputRef.current?.click()}
+              title="Import files or a zip"
+            >
+              <Upload className="h-3.5 w-3.5" />
+            </button>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleInputChange}
+            />
+          </>
+        )}
       </div>
-    </ScrollArea>
+
+      {rootChildren.length === 0 ? (
+        <div className="flex flex-col items-center justify-center flex-1 p-4 text-center">
+          <Folder className="h-12 w-12 text-gray-300 mb-3" />
+          <p className="text-sm text-gray-500">No files yet</p>
+          <p className="text-xs text-gray-400 mt-1">Files will appear here</p>
+          {!readOnly && (
+            <p className="text-xs text-gray-400 mt-1">
+              Drop files or a zip to import them
+            </p>
+          )}
+        </div>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="py-2" key={refreshTrigger}>
+            {rootChildren.map((child) => (
+              <FileTreeNode
+                key={child.path}
+                node={child}
+                level={0}
+                peers={peers}
+              />
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+
+      {isDragging && (
+        <div className="absolute inset-0 flex items-center justify-center bg-blue-50/80 border-2 border-dashed border-blue-400 pointer-events-none">
+          <p className="text-sm font-medium text-blue-600">Drop to import</p>
+        </div>
+      )}
+    </div>
   );
 }
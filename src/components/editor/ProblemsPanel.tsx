@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  CircleX,
+  Loader2,
+  TriangleAlert,
+} from "lucide-react";
+import { useDiagnostics } from "@/lib/contexts/diagnostics-context";
+
+export function ProblemsPanel() {
+  const { diagnostics, isChecking, revealDiagnostic } = useDiagnostics();
+  const [isOpen, setIsOpen] = useState(true);
+
+  const errorCount = diagnostics.filter((d) => d.severity === "error").length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="flex flex-col border-t border-gray-800 bg-gray-900 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-8 flex items-center gap-2 px-3 text-gray-400 hover:text-gray-200"
+      >
+        {isOpen ? (
+          <ChevronDown className="h-3.5 w-3.5" />
+        ) : (
+          <ChevronRight className="h-3.5 w-3.5" />
+        )}
+        <span className="font-medium uppercase tracking-wide">Problems</span>
+        <span className="flex items-center gap-1">
+          <CircleX className="h-3.5 w-3.5 text-red-400" />
+          {errorCount}
+        </span>
+        <span className="flex items-center gap-1">
+          <TriangleAlert className="h-3.5 w-3.5 text-amber-400" />
+          {warningCount}
+        </span>
+        {isChecking && <Loader2 className="h-3.5 w-3.5 animate-spin ml-auto" />}
+      </button>
+
+      {isOpen && (
+        <div className="max-h-40 overflow-y-auto pb-1">
+          {diagnostics.length === 0 ? (
+            <p className="px-3 py-1.5 text-gray-500">
+              No problems detected in TypeScript files
+            </p>
+          ) : (
+            <ul>
+              {diagnostics.map((diagnostic, index) => (
+                <li key={`${diagnostic.path}-${diagnostic.line}-${diagnostic.column}-${index}`}>
+                  <button
+                    onClick={() => revealDiagnostic(diagnostic)}
+                    className="w-full flex items-start gap-2 px-3 py-1 text-left hover:bg-gray-800"
+                  >
+                    {diagnostic.severity === "error" ? (
+                      <CircleX className="h-3.5 w-3.5 shrink-0 mt-0.5 text-red-400" />
+                    ) : (
+                      <TriangleAlert className="h-3.5 w-3.5 shrink-0 mt-0.5 text-amber-400" />
+                    )}
+                    <span className="flex-1 text-gray-300 whitespace-pre-wrap">
+                      {diagnostic.message}
+                    </span>
+                    <span className="shrink-0 text-gray-500">
+                      {diagnostic.path}:{diagnostic.line}:{diagnostic.column}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
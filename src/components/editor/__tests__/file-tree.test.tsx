@@ -33,6 +33,9 @@ vi.mock("lucide-react", () => ({
   FileCode: ({ className }: { className?: string }) => (
     <div className={className}>FileCode</div>
   ),
+  Upload: ({ className }: { className?: string }) => (
+    <div className={className}>Upload</div>
+  ),
 }));
 
 // Helper function to create a mock file system
@@ -335,3 +338,60 @@ test("FileTree re-renders when refreshTrigger changes", () => {
   // The component should still render correctly
   expect(screen.getByText("test.js")).toBeDefined();
 });
+
+test("FileTree hides import controls when read-only", () => {
+  const mockFileSystem = createMockFileSystem({
+    "/": { type: "directory", name: "", path: "/", children: new Map() },
+  });
+
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+
+  const { container } = render(<FileTree readOnly />);
+
+  expect(screen.queryByTitle("Import files or a zip")).toBeNull();
+  expect(container.querySelector('input[type="file"]')).toBeNull();
+  expect(screen.queryByText("Drop files or a zip to import them")).toBeNull();
+});
+
+test("FileTree shows collaborators next to the file they have open", () => {
+  const rootChildren = new Map<string, FileNode>([
+    [
+      "App.jsx",
+      { type: "file", name: "App.jsx", path: "/App.jsx", content: "" },
+    ],
+  ]);
+  const mockFileSystem = createMockFileSystem({
+    "/": { type: "directory", name: "", path: "/", children: rootChildren },
+  });
+
+  const mockUseFileSystem = useFileSystem as ReturnType<typeof vi.fn>;
+  mockUseFileSystem.mockReturnValue({
+    fileSystem: mockFileSystem,
+    refreshTrigger: 0,
+    selectedFile: null,
+    setSelectedFile: vi.fn(),
+  });
+
+  render(
+    <FileTree
+      peers={[
+        {
+          clientId: "c1",
+          userId: "u1",
+          name: "ada@example.com",
+          selectedFile: "/App.jsx",
+        },
+      ]}
+    />
+  );
+
+  expect(screen.getByTitle("ada@example.com has this file open").textContent).toBe(
+    "A"
+  );
+});
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AuthDialog } from "@/components/auth/AuthDialog";
+import { acceptProjectInvitation } from "@/actions/accept-project-invitation";
+import { setPendingInvitation } from "@/lib/pending-invitation";
+
+interface AcceptInvitationProps {
+  token: string;
+  user: {
+    email: string;
+  } | null;
+}
+
+export function AcceptInvitation({ token, user }: AcceptInvitationProps) {
+  const router = useRouter();
+  const [authMode, setAuthMode] = useState<"signin" | "signup" | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+    try {
+      const { projectId } = await acceptProjectInvitation(token);
+      router.push(`/${projectId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setIsJoining(false);
+    }
+  };
+
+  // Signing in from here joins the project afterwards, see useAuth
+  const openAuthDialog = (mode: "signin" | "signup") => {
+    setPendingInvitation(token);
+    setAuthMode(mode);
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-neutral-50 p-4">
+      <div className="w-full max-w-sm rounded-lg border border-neutral-200 bg-white p-6 shadow-sm">
+        <h1 className="text-lg font-semibold text-neutral-900">
+          You&apos;re invited to a project
+        </h1>
+        <p className="mt-1 text-sm text-neutral-500">
+          {user
+            ? `Join it as ${user.email}. Invitations only work for the email they were sent to.`
+            : "Sign in or create an account with the email the invitation was sent to."}
+        </p>
+
+        {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-4 flex gap-2">
+          {user ? (
+            <Button className="h-8 gap-2" onClick={handleJoin} disabled={isJoining}>
+              {isJoining && <Loader2 className="h-4 w-4 animate-spin" />}
+              Join project
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                className="h-8"
+                onClick={() => openAuthDialog("signin")}
+              >
+                Sign In
+              </Button>
+              <Button className="h-8" onClick={() => openAuthDialog("signup")}>
+                Sign Up
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!user && (
+        <AuthDialog
+          open={authMode !== null}
+          onOpenChange={(open) => {
+            if (!open) setAuthMode(null);
+          }}
+          defaultMode={authMode ?? "signin"}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState, useEffect, useCallback, FormEvent } from "react";
+import { Check, Copy, Loader2, UserPlus, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getProjectMembers } from "@/actions/get-project-members";
+import { inviteProjectMember } from "@/actions/invite-project-member";
+import { updateProjectMemberRole } from "@/actions/update-project-member-role";
+import { removeProjectMember } from "@/actions/remove-project-member";
+import { revokeProjectInvitation } from "@/actions/revoke-project-invitation";
+import {
+  INVITABLE_ROLES,
+  InvitableRole,
+  ProjectRole,
+} from "@/lib/project-roles";
+
+interface MembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  role: ProjectRole;
+}
+
+interface MemberSummary {
+  id: string;
+  userId: string;
+  email: string;
+  role: string;
+  createdAt: Date;
+}
+
+interface InvitationSummary {
+  id: string;
+  email: string;
+  role: string;
+  // Only owners see invite links
+  token: string | null;
+  createdAt: Date;
+}
+
+interface MembersState {
+  members: MemberSummary[];
+  invitations: InvitationSummary[];
+}
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+function getInviteUrl(token: string) {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+const selectClassName =
+  "h-8 rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-900";
+
+export function MembersDialog({
+  open,
+  onOpenChange,
+  projectId,
+  role,
+}: MembersDialogProps) {
+  const [state, setState] = useState<MembersState>({
+    members: [],
+    invitations: [],
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  const isOwner = role === "owner";
+
+  const loadMembers = useCallback(() => {
+    return getProjectMembers(projectId).then(setState).catch(console.error);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    setError(null);
+    loadMembers().finally(() => setIsLoading(false));
+  }, [open, loadMembers]);
+
+  // Every change reloads the list so it reflects what the server accepted
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy invite link:", error);
+    }
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsInviting(true);
+    await run(async () => {
+      const result = await inviteProjectMember(projectId, email, inviteRole);
+      setEmail("");
+      if (result.status === "invited") {
+        await handleCopy(result.token);
+      }
+    });
+    setIsInviting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Members</DialogTitle>
+          <DialogDescription>
+            Editors can chat with the assistant and change files. Viewers can
+            browse the project and fork it. People without an account join
+            through their invite link, which is copied when you invite them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex items-center gap-2">
+            <Input
+              type="email"
+              placeholder="teammate@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="h-8"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+              className={selectClassName}
+              aria-label="Role"
+            >
+              {INVITABLE_ROLES.map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <Button type="submit" className="h-8 gap-2" disabled={isInviting}>
+              {isInviting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="h-4 w-4" />
+              )}
+              Invite
+            </Button>
+          </form>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-neutral-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : (
+          <ul className="flex flex-col divide-y divide-neutral-200 border border-neutral-200 rounded-md">
+            {state.members.map((member) => (
+              <li
+                key={member.id}
+                className="flex items-center gap-2 px-3 py-2 text-sm"
+              >
+                <span className="flex-1 truncate text-neutral-700">
+                  {member.email}
+                </span>
+                {isOwner && member.role !== "owner" ? (
+                  <>
+                    <select
+                      value={member.role}
+                      onChange={(e) =>
+                        run(() =>
+                          updateProjectMemberRole(
+                            projectId,
+                            member.id,
+                            e.target.value as InvitableRole
+                          )
+                        )
+                      }
+                      className={selectClassName}
+                      aria-label={`Role of ${member.email}`}
+                    >
+                      {INVITABLE_ROLES.map((option) => (
+                        <option key={option} value={option}>
+                          {ROLE_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() =>
+                        run(() => removeProjectMember(projectId, member.id))
+                      }
+                      title="Remove member"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-xs text-neutral-500">
+                    {ROLE_LABELS[member.role as ProjectRole] ?? member.role}
+                  </span>
+                )}
+              </li>
+            ))}
+            {state.invitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="flex items-center gap-2 px-3 py-2 text-sm"
+              >
+                <span className="flex-1 truncate text-neutral-500">
+                  {invitation.email}
+                </span>
+                <span className="text-xs text-neutral-500">
+                  Invited as {ROLE_LABELS[invitation.role as ProjectRole]}
+                </span>
+                {invitation.token && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleCopy(invitation.token!)}
+                    title="Copy invite link"
+                  >
+                    {copiedToken === invitation.token ? (
+                      <Check className="h-4 w-4 text-emerald-600" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+                {isOwner && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      run(() => revokeProjectInvitation(projectId, invitation.id))
+                    }
+                    title="Revoke invitation"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
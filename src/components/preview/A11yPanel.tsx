@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronRight, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { A11yImpact, A11yIssue } from "@/lib/preview/a11y-audit";
+import { formatSourceLocation } from "@/lib/preview/element-picker";
+import { cn } from "@/lib/utils";
+
+interface A11yPanelProps {
+  issues: A11yIssue[];
+  // Hands the issues to the model; hidden when not given
+  onRequestFix?: () => void;
+  // Disables the fix request while the assistant is responding
+  isBusy?: boolean;
+}
+
+const impactStyles: Record<A11yImpact, string> = {
+  critical: "bg-red-50 text-red-700",
+  serious: "bg-orange-50 text-orange-700",
+  moderate: "bg-amber-50 text-amber-700",
+  minor: "bg-neutral-100 text-neutral-600",
+};
+
+export function A11yPanel({ issues, onRequestFix, isBusy = false }: A11yPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="flex flex-col border-t border-neutral-200 bg-neutral-50 text-xs">
+      <div className="h-8 flex items-center gap-2 px-3">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-neutral-500 hover:text-neutral-800"
+          aria-expanded={isOpen}
+        >
+          {isOpen ? (
+            <ChevronDown className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5" />
+          )}
+          <span className="font-medium uppercase tracking-wide">A11y</span>
+          <span
+            className={cn(
+              "rounded px-1.5 py-0.5 font-medium",
+              issues.length > 0
+                ? "bg-red-50 text-red-700"
+                : "bg-emerald-50 text-emerald-700"
+            )}
+          >
+            {issues.length}
+          </span>
+        </button>
+        {onRequestFix && issues.length > 0 && (
+          <Button
+            variant="ghost"
+            className="ml-auto h-6 gap-1.5 px-2 text-xs text-neutral-600"
+            onClick={onRequestFix}
+            disabled={isBusy}
+          >
+            <Sparkles className="h-3.5 w-3.5" />
+            Ask AI to fix
+          </Button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="max-h-48 overflow-y-auto border-t border-neutral-200 bg-white py-1">
+          {issues.length === 0 ? (
+            <p className="px-3 py-1.5 text-neutral-500">
+              No accessibility issues found in the preview
+            </p>
+          ) : (
+            <ul>
+              {issues.map((issue, index) => (
+                <li
+                  key={`${issue.rule}-${index}`}
+                  className="flex items-start gap-2 px-3 py-1.5"
+                >
+                  <span
+                    className={cn(
+                      "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                      impactStyles[issue.impact]
+                    )}
+                  >
+                    {issue.impact}
+                  </span>
+                  <div className="flex min-w-0 flex-1 flex-col gap-0.5">
+                    <span className="text-neutral-800">{issue.message}</span>
+                    <code className="truncate font-mono text-[11px] text-neutral-500">
+                      {issue.html}
+                    </code>
+                  </div>
+                  <span className="shrink-0 text-neutral-500">
+                    {issue.source
+                      ? formatSourceLocation(issue.source)
+                      : issue.rule}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
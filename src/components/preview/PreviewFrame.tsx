@@ -1,22 +1,176 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { SyntheticEvent, useEffect, useRef, useState } from "react";
 import { useFileSystem } from "@/lib/contexts/file-system-context";
 import {
+  createDataURL,
   createImportMap,
   createPreviewHTML,
 } from "@/lib/transform/jsx-transformer";
-import { AlertCircle } from "lucide-react";
+import {
+  PREVIEW_SANDBOX,
+  createTailwindLoader,
+  getPackageMirrorUrl,
+  getRuntimeUrl,
+} from "@/lib/preview/preview-environment";
+import {
+  findDefaultEntryPoint,
+  getPropsPath,
+  listComponentFiles,
+  readPreviewProps,
+} from "@/lib/preview/entry-points";
+import {
+  PreviewError,
+  isPreviewErrorMessage,
+  isSamePreviewError,
+} from "@/lib/preview/preview-errors";
+import {
+  ViewportSize,
+  getFitZoom,
+  getViewportSizes,
+} from "@/lib/preview/viewport";
+import { useViewportSettings } from "@/hooks/use-viewport-settings";
+import { ViewportToolbar } from "@/components/preview/ViewportToolbar";
+import {
+  DARK_MODE_MESSAGE,
+  THEME_PATH,
+  readProjectTheme,
+} from "@/lib/preview/theme";
+import {
+  PICKER_MODE_MESSAGE,
+  PickedElement,
+  isPickerCancelledMessage,
+  readPickedElement,
+} from "@/lib/preview/element-picker";
+import {
+  A11yIssue,
+  mergeA11yIssues,
+  readA11yAuditMessage,
+} from "@/lib/preview/a11y-audit";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import {
+  AlertCircle,
+  Component,
+  Moon,
+  MousePointerClick,
+  Sun,
+} from "lucide-react";
+
+// Keeps a broken render from flooding the app with repeated errors
+const MAX_REPORTED_ERRORS = 10;
 
-export function PreviewFrame() {
-  const iframeRef = useRef<HTMLIFrameElement>(null);
+// Space between side-by-side viewports and around them, in pixels
+const VIEWPORT_GAP = 16;
+const STAGE_PADDING = 16;
+const VIEWPORT_LABEL_HEIGHT = 20;
+
+interface PreviewFrameProps {
+  // Called with every error the current render has reported so far
+  onErrorsChange?: (errors: PreviewError[]) => void;
+  // Viewport settings are remembered per project
+  projectId?: string;
+  // Enables the element picker; called with the element clicked in the preview
+  onElementPick?: (element: PickedElement) => void;
+  // Enables the accessibility audit; called with the issues of the current
+  // render whenever they change
+  onA11yIssuesChange?: (issues: A11yIssue[]) => void;
+}
+
+export function PreviewFrame({
+  onErrorsChange,
+  projectId,
+  onElementPick,
+  onA11yIssuesChange,
+}: PreviewFrameProps = {}) {
+  const stageRef = useRef<HTMLDivElement>(null);
   const { getAllFiles, refreshTrigger } = useFileSystem();
   const [error, setError] = useState<string | null>(null);
-  const [entryPoint, setEntryPoint] = useState<string>("/App.jsx");
+  // A component picked in the selector; null renders the app's entry point
+  const [selectedEntry, setSelectedEntry] = useState<string | null>(null);
+  const [defaultEntry, setDefaultEntry] = useState<string | null>(null);
+  const [componentFiles, setComponentFiles] = useState<string[]>([]);
+  const [hasProps, setHasProps] = useState(false);
   const [isFirstLoad, setIsFirstLoad] = useState(true);
+  const [getTailwindCss] = useState(createTailwindLoader);
+  const [previewHTML, setPreviewHTML] = useState<string | null>(null);
+  const { settings, updateSettings } = useViewportSettings(projectId);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const [darkMode, setDarkMode] = useState(false);
+  const darkModeRef = useRef(darkMode);
+  darkModeRef.current = darkMode;
+  const [picking, setPicking] = useState(false);
+  const pickingRef = useRef(picking);
+  pickingRef.current = picking;
+  const onElementPickRef = useRef(onElementPick);
+  onElementPickRef.current = onElementPick;
+  const previewErrorsRef = useRef<PreviewError[]>([]);
+  const onErrorsChangeRef = useRef(onErrorsChange);
+  onErrorsChangeRef.current = onErrorsChange;
+  // Latest audit report of each frame
+  const a11yReportsRef = useRef(new Map<MessageEventSource, A11yIssue[]>());
+  const onA11yIssuesChangeRef = useRef(onA11yIssuesChange);
+  onA11yIssuesChangeRef.current = onA11yIssuesChange;
+
+  // Collect errors the preview iframes post back via postMessage
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const frames = Array.from(
+        stageRef.current?.querySelectorAll("iframe") ?? []
+      );
+      if (!frames.some((frame) => frame.contentWindow === event.source)) {
+        return;
+      }
+
+      const issues = readA11yAuditMessage(event.data);
+      if (issues) {
+        const reports = a11yReportsRef.current;
+        reports.set(event.source!, issues);
+        // Frames removed since, e.g. by leaving side-by-side mode, no longer count
+        for (const source of reports.keys()) {
+          if (!frames.some((frame) => frame.contentWindow === source)) {
+            reports.delete(source);
+          }
+        }
+        onA11yIssuesChangeRef.current?.(
+          mergeA11yIssues(Array.from(reports.values()))
+        );
+        return;
+      }
+
+      const picked = readPickedElement(event.data);
+      if (picked) {
+        setPicking(false);
+        onElementPickRef.current?.(picked);
+        return;
+      }
+      if (isPickerCancelledMessage(event.data)) {
+        setPicking(false);
+        return;
+      }
+      if (!isPreviewErrorMessage(event.data)) return;
+
+      const { error } = event.data;
+      const reported = previewErrorsRef.current;
+      if (
+        reported.length >= MAX_REPORTED_ERRORS ||
+        reported.some((existing) => isSamePreviewError(existing, error))
+      ) {
+        return;
+      }
+
+      previewErrorsRef.current = [...reported, error];
+      onErrorsChangeRef.current?.(previewErrorsRef.current);
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, []);
 
   useEffect(() => {
-    const updatePreview = () => {
+    let cancelled = false;
+
+    const updatePreview = async () => {
       try {
         const files = getAllFiles();
 
@@ -25,33 +179,18 @@ export function PreviewFrame() {
           setError(null);
         }
 
-        // Find the entry point - look for App.jsx, App.tsx, index.jsx, or index.tsx
-        let foundEntryPoint = entryPoint;
-        const possibleEntries = [
-          "/App.jsx",
-          "/App.tsx",
-          "/index.jsx",
-          "/index.tsx",
-          "/src/App.jsx",
-          "/src/App.tsx",
-        ];
-
-        if (!files.has(entryPoint)) {
-          const found = possibleEntries.find((path) => files.has(path));
-          if (found) {
-            foundEntryPoint = found;
-            setEntryPoint(found);
-          } else if (files.size > 0) {
-            // Just use the first .jsx/.tsx file found
-            const firstJSX = Array.from(files.keys()).find(
-              (path) => path.endsWith(".jsx") || path.endsWith(".tsx")
-            );
-            if (firstJSX) {
-              foundEntryPoint = firstJSX;
-              setEntryPoint(firstJSX);
-            }
-          }
-        }
+        const components = listComponentFiles(files);
+        setComponentFiles((current) =>
+          current.join("\n") === components.join("\n") ? current : components
+        );
+
+        // A picked component that was deleted falls back to the app
+        const appEntryPoint = findDefaultEntryPoint(files);
+        setDefaultEntry(appEntryPoint);
+        const foundEntryPoint =
+          selectedEntry && files.has(selectedEntry)
+            ? selectedEntry
+            : appEntryPoint;
 
         if (files.size === 0) {
           if (isFirstLoad) {
@@ -74,21 +213,53 @@ export function PreviewFrame() {
           return;
         }
 
-        const { importMap, styles, errors } = createImportMap(files);
-        const previewHTML = createPreviewHTML(foundEntryPoint, importMap, styles, errors);
+        const { importMap, styles, errors } = createImportMap(files, {
+          packageMirrorUrl: getPackageMirrorUrl(),
+          runtimeUrl: getRuntimeUrl(),
+          createModuleUrl: createDataURL,
+        });
 
-        if (iframeRef.current) {
-          const iframe = iframeRef.current;
-
-          // Need both allow-scripts and allow-same-origin for blob URLs in import map
-          iframe.setAttribute(
-            "sandbox",
-            "allow-scripts allow-same-origin allow-forms"
-          );
-          iframe.srcdoc = previewHTML;
+        const propsResult = readPreviewProps(files, foundEntryPoint);
+        let props: Record<string, unknown> | undefined;
+        if ("error" in propsResult) {
+          errors.push({
+            path: getPropsPath(foundEntryPoint),
+            error: propsResult.error,
+          });
+        } else {
+          props = propsResult.props;
+        }
+        setHasProps(files.has(getPropsPath(foundEntryPoint)));
 
-          setError(null);
+        const themeResult = readProjectTheme(files);
+        if ("error" in themeResult) {
+          errors.push({ path: THEME_PATH, error: themeResult.error });
         }
+
+        const tailwindCss = await getTailwindCss(files);
+        if (cancelled) return;
+
+        const html = createPreviewHTML(
+          foundEntryPoint,
+          importMap,
+          styles,
+          errors,
+          {
+            tailwindCss,
+            props,
+            theme: "theme" in themeResult ? themeResult.theme : null,
+            darkMode: darkModeRef.current,
+            a11yAudit: !!onA11yIssuesChangeRef.current,
+          }
+        );
+
+        // Errors from the previous render no longer apply
+        previewErrorsRef.current = [];
+        onErrorsChangeRef.current?.([]);
+        a11yReportsRef.current.clear();
+        onA11yIssuesChangeRef.current?.([]);
+        setPreviewHTML(html);
+        setError(null);
       } catch (err) {
         console.error("Preview error:", err);
         setError(err instanceof Error ? err.message : "Unknown preview error");
@@ -96,7 +267,67 @@ export function PreviewFrame() {
     };
 
     updatePreview();
-  }, [refreshTrigger, getAllFiles, entryPoint, error, isFirstLoad]);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    refreshTrigger,
+    getAllFiles,
+    getTailwindCss,
+    selectedEntry,
+    error,
+    isFirstLoad,
+  ]);
+
+  // Toggled in place, so the rendered components keep their state
+  useEffect(() => {
+    stageRef.current?.querySelectorAll("iframe").forEach((frame) => {
+      frame.contentWindow?.postMessage(
+        { type: DARK_MODE_MESSAGE, enabled: darkMode },
+        "*"
+      );
+    });
+  }, [darkMode]);
+
+  useEffect(() => {
+    stageRef.current?.querySelectorAll("iframe").forEach((frame) => {
+      frame.contentWindow?.postMessage(
+        { type: PICKER_MODE_MESSAGE, enabled: picking },
+        "*"
+      );
+    });
+  }, [picking]);
+
+  // Frames can load a document built before the last toggle
+  const syncFrame = (event: SyntheticEvent<HTMLIFrameElement>) => {
+    const frame = event.currentTarget;
+    frame.contentWindow?.postMessage(
+      { type: DARK_MODE_MESSAGE, enabled: darkModeRef.current },
+      "*"
+    );
+    if (pickingRef.current) {
+      frame.contentWindow?.postMessage(
+        { type: PICKER_MODE_MESSAGE, enabled: true },
+        "*"
+      );
+    }
+  };
+
+  // Measures the space available for fitting fixed-size viewports
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setStageSize({
+        width: entry.contentRect.width,
+        height: entry.contentRect.height,
+      });
+    });
+    observer.observe(stage);
+    return () => observer.disconnect();
+  }, [error]);
 
   if (error) {
     if (error === "firstLoad") {
@@ -150,11 +381,146 @@ export function PreviewFrame() {
     );
   }
 
+  const activeEntry =
+    selectedEntry && componentFiles.includes(selectedEntry)
+      ? selectedEntry
+      : null;
+
+  const viewportSizes = getViewportSizes(settings);
+  const fitZoom = getFitZoom(
+    viewportSizes,
+    // The stage's content box already excludes its padding
+    {
+      width: stageSize.width,
+      height: stageSize.height - VIEWPORT_LABEL_HEIGHT,
+    },
+    VIEWPORT_GAP
+  );
+  const zoom = settings.zoom === "fit" ? fitZoom : settings.zoom;
+
+  const renderViewport = (size: ViewportSize) => (
+    <div key={size.label} className="flex flex-col items-center gap-1">
+      <div
+        className="overflow-hidden rounded-md border border-neutral-300 bg-white shadow-sm"
+        style={{ width: size.width * zoom, height: size.height * zoom }}
+      >
+        <iframe
+          sandbox={PREVIEW_SANDBOX}
+          srcDoc={previewHTML ?? undefined}
+          onLoad={syncFrame}
+          className="block border-0 bg-white origin-top-left"
+          style={{
+            width: size.width,
+            height: size.height,
+            transform: `scale(${zoom})`,
+          }}
+          title={`Preview (${size.label})`}
+        />
+      </div>
+      <span className="text-xs leading-4 text-neutral-500">
+        {size.label} · {size.width}×{size.height}
+      </span>
+    </div>
+  );
+
   return (
-    <iframe
-      ref={iframeRef}
-      className="w-full h-full border-0 bg-white"
-      title="Preview"
-    />
+    <div className="h-full flex flex-col">
+      <div className="h-10 flex items-center justify-between gap-3 px-3 border-b border-neutral-200 bg-neutral-50 text-xs text-neutral-500">
+        <div className="flex min-w-0 items-center gap-3">
+          {componentFiles.some((path) => path !== defaultEntry) && (
+            <label className="flex items-center gap-1.5">
+              <Component className="h-4 w-4" />
+              <span className="sr-only">Component to preview</span>
+              <select
+                value={activeEntry ?? ""}
+                onChange={(e) => setSelectedEntry(e.target.value || null)}
+                className="h-7 max-w-[260px] rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-900 truncate"
+              >
+                <option value="">
+                  {defaultEntry ? `App (${defaultEntry})` : "App"}
+                </option>
+                {componentFiles
+                  .filter((path) => path !== defaultEntry)
+                  .map((path) => (
+                    <option key={path} value={path}>
+                      {path}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          )}
+          {activeEntry && hasProps && (
+            <span className="truncate">
+              Props from {getPropsPath(activeEntry).split("/").pop()}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {onElementPick && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(
+                "h-7 w-7 text-neutral-500",
+                picking && "bg-white text-blue-600 shadow-sm"
+              )}
+              onClick={() => setPicking((active) => !active)}
+              title={
+                picking
+                  ? "Click an element in the preview, or press Escape to cancel"
+                  : "Select an element to edit"
+              }
+              aria-label="Select an element to edit"
+              aria-pressed={picking}
+            >
+              <MousePointerClick className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-neutral-500"
+            onClick={() => setDarkMode((dark) => !dark)}
+            title={darkMode ? "Switch to light mode" : "Switch to dark mode"}
+            aria-label="Dark mode"
+            aria-pressed={darkMode}
+          >
+            {darkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+          </Button>
+          <div className="mx-1 h-4 w-px bg-neutral-200" />
+          <ViewportToolbar
+            settings={settings}
+            onChange={updateSettings}
+            fitZoom={fitZoom}
+          />
+        </div>
+      </div>
+      <div
+        ref={stageRef}
+        className={
+          viewportSizes.length > 0
+            ? "flex-1 min-h-0 overflow-auto bg-neutral-100"
+            : "flex-1 min-h-0"
+        }
+        style={viewportSizes.length > 0 ? { padding: STAGE_PADDING } : undefined}
+      >
+        {viewportSizes.length === 0 ? (
+          <iframe
+            sandbox={PREVIEW_SANDBOX}
+            srcDoc={previewHTML ?? undefined}
+            onLoad={syncFrame}
+            className="w-full h-full border-0 bg-white"
+            title="Preview"
+          />
+        ) : (
+          <div
+            className="mx-auto flex w-max items-start"
+            style={{ gap: VIEWPORT_GAP }}
+          >
+            {viewportSizes.map(renderViewport)}
+          </div>
+        )}
+      </div>
+    </div>
   );
 }
@@ -0,0 +1,39 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { ImageOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ProjectThumbnailProps {
+  src: string;
+  className?: string;
+}
+
+// Thumbnails are captured in the background, so older projects, fresh
+// share links and servers without a browser simply have none yet
+export function ProjectThumbnail({ src, className }: ProjectThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div
+      className={cn(
+        "relative flex shrink-0 items-center justify-center overflow-hidden rounded border border-neutral-200 bg-neutral-50",
+        className
+      )}
+    >
+      {failed ? (
+        <ImageOff className="h-3.5 w-3.5 text-neutral-300" />
+      ) : (
+        <Image
+          src={src}
+          alt=""
+          fill
+          unoptimized
+          className="object-cover object-top"
+          onError={() => setFailed(true)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LayoutGrid } from "lucide-react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import {
+  createDataURL,
+  createImportMap,
+  createPreviewHTML,
+} from "@/lib/transform/jsx-transformer";
+import {
+  PREVIEW_SANDBOX,
+  createTailwindLoader,
+  getPackageMirrorUrl,
+  getRuntimeUrl,
+} from "@/lib/preview/preview-environment";
+import {
+  formatStoryName,
+  getStoryNames,
+  getStoryTitle,
+  listStoryFiles,
+} from "@/lib/preview/stories";
+import { THEME_PATH, readProjectTheme } from "@/lib/preview/theme";
+
+interface StoryGroup {
+  path: string;
+  stories: { name: string; html: string }[];
+}
+
+export function StoryGallery() {
+  const { getAllFiles, refreshTrigger } = useFileSystem();
+  const [groups, setGroups] = useState<StoryGroup[]>([]);
+  const [getTailwindCss] = useState(createTailwindLoader);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const updateGallery = async () => {
+      const files = getAllFiles();
+      const storyFiles = listStoryFiles(files);
+      if (storyFiles.length === 0) {
+        setGroups([]);
+        return;
+      }
+
+      // One import map for all frames; each frame only picks its story
+      const { importMap, styles, errors } = createImportMap(files, {
+        packageMirrorUrl: getPackageMirrorUrl(),
+        runtimeUrl: getRuntimeUrl(),
+        createModuleUrl: createDataURL,
+      });
+      const themeResult = readProjectTheme(files);
+      if ("error" in themeResult) {
+        errors.push({ path: THEME_PATH, error: themeResult.error });
+      }
+      const tailwindCss = await getTailwindCss(files);
+      if (cancelled) return;
+
+      setGroups(
+        storyFiles.map((path) => ({
+          path,
+          stories: getStoryNames(files.get(path) ?? "").map((name) => ({
+            name,
+            html: createPreviewHTML(path, importMap, styles, errors, {
+              tailwindCss,
+              story: name,
+              theme: "theme" in themeResult ? themeResult.theme : null,
+            }),
+          })),
+        }))
+      );
+    };
+
+    updateGallery().catch((err) => {
+      console.error("Gallery error:", err);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshTrigger, getAllFiles, getTailwindCss]);
+
+  if (groups.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-8 bg-gray-50">
+        <div className="text-center max-w-md">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-gray-100 mb-4">
+            <LayoutGrid className="h-8 w-8 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            No Stories Yet
+          </h3>
+          <p className="text-sm text-gray-500">
+            Add a <code>*.stories.jsx</code> file next to a component to see
+            its states side by side
+          </p>
+          <p className="text-xs text-gray-400 mt-2">
+            Or ask the AI to write stories for one of your components
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-auto bg-neutral-50 p-6 space-y-8">
+      {groups.map((group) => {
+        const title = getStoryTitle(group.path);
+        return (
+          <section key={group.path}>
+            <h3 className="mb-3 text-sm font-semibold text-neutral-900">
+              {title}
+              <span className="ml-2 font-normal text-neutral-400">
+                {group.path}
+              </span>
+            </h3>
+            {group.stories.length === 0 ? (
+              <p className="text-xs text-neutral-500">
+                This file has no named story exports.
+              </p>
+            ) : (
+              <div className="grid grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-4">
+                {group.stories.map((story) => (
+                  <figure
+                    key={story.name}
+                    className="overflow-hidden rounded-md border border-neutral-200 bg-white"
+                  >
+                    <iframe
+                      sandbox={PREVIEW_SANDBOX}
+                      srcDoc={story.html}
+                      title={`${title} / ${formatStoryName(story.name)}`}
+                      className="h-56 w-full border-0 bg-white"
+                    />
+                    <figcaption className="border-t border-neutral-200 px-3 py-2 text-xs text-neutral-600">
+                      {formatStoryName(story.name)}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
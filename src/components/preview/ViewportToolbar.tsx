@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Columns3,
+  Maximize2,
+  Monitor,
+  Ruler,
+  RotateCw,
+  Smartphone,
+  Tablet,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  ViewportDevice,
+  ViewportSettings,
+  ZOOM_LEVELS,
+  clampViewportSize,
+} from "@/lib/preview/viewport";
+
+const DEVICES: { id: ViewportDevice; label: string; icon: typeof Monitor }[] = [
+  { id: "responsive", label: "Fill the panel", icon: Maximize2 },
+  { id: "mobile", label: "Mobile", icon: Smartphone },
+  { id: "tablet", label: "Tablet", icon: Tablet },
+  { id: "desktop", label: "Desktop", icon: Monitor },
+  { id: "custom", label: "Custom size", icon: Ruler },
+];
+
+// Applies the size on blur or Enter, so partial input isn't clamped while typing
+function SizeInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const size = clampViewportSize(Number(draft));
+    setDraft(String(size));
+    if (size !== value) onChange(size);
+  };
+
+  return (
+    <Input
+      type="number"
+      aria-label={label}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      className="h-7 w-[72px] px-2 text-xs md:text-xs"
+    />
+  );
+}
+
+interface ViewportToolbarProps {
+  settings: ViewportSettings;
+  onChange: (changes: Partial<ViewportSettings>) => void;
+  // The zoom "Fit" currently resolves to
+  fitZoom: number;
+}
+
+export function ViewportToolbar({
+  settings,
+  onChange,
+  fitZoom,
+}: ViewportToolbarProps) {
+  const isResponsive = settings.device === "responsive" && !settings.multi;
+
+  return (
+    <div className="flex items-center gap-1">
+      {DEVICES.map(({ id, label, icon: Icon }) => (
+        <Button
+          key={id}
+          variant="ghost"
+          size="icon"
+          className={cn(
+            "h-7 w-7 text-neutral-500",
+            !settings.multi &&
+              settings.device === id &&
+              "bg-white text-neutral-900 shadow-sm"
+          )}
+          onClick={() => onChange({ device: id, multi: false })}
+          title={label}
+          aria-label={label}
+          aria-pressed={!settings.multi && settings.device === id}
+        >
+          <Icon className="h-4 w-4" />
+        </Button>
+      ))}
+
+      {settings.device === "custom" && !settings.multi && (
+        <div className="flex items-center gap-1 ml-1">
+          <SizeInput
+            label="Viewport width"
+            value={settings.customWidth}
+            onChange={(customWidth) => onChange({ customWidth })}
+          />
+          <span className="text-neutral-400">×</span>
+          <SizeInput
+            label="Viewport height"
+            value={settings.customHeight}
+            onChange={(customHeight) => onChange({ customHeight })}
+          />
+        </div>
+      )}
+
+      <div className="mx-1 h-4 w-px bg-neutral-200" />
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "h-7 w-7 text-neutral-500",
+          settings.multi && "bg-white text-neutral-900 shadow-sm"
+        )}
+        onClick={() => onChange({ multi: !settings.multi })}
+        title="Show all devices side by side"
+        aria-label="Show all devices side by side"
+        aria-pressed={settings.multi}
+      >
+        <Columns3 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          "h-7 w-7 text-neutral-500",
+          settings.rotated && "bg-white text-neutral-900 shadow-sm"
+        )}
+        onClick={() => onChange({ rotated: !settings.rotated })}
+        disabled={isResponsive}
+        title="Rotate"
+        aria-label="Rotate"
+        aria-pressed={settings.rotated}
+      >
+        <RotateCw className="h-4 w-4" />
+      </Button>
+
+      <select
+        aria-label="Zoom"
+        value={String(settings.zoom)}
+        onChange={(e) =>
+          onChange({
+            zoom: e.target.value === "fit" ? "fit" : Number(e.target.value),
+          })
+        }
+        disabled={isResponsive}
+        className="h-7 rounded-md border border-neutral-200 bg-white px-1.5 text-xs text-neutral-900 disabled:opacity-50"
+      >
+        <option value="fit">Fit ({Math.round(fitZoom * 100)}%)</option>
+        {ZOOM_LEVELS.map((zoom) => (
+          <option key={zoom} value={String(zoom)}>
+            {Math.round(zoom * 100)}%
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
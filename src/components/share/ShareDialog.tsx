@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { getShareLinks } from "@/actions/get-share-links";
+import { createShareLink } from "@/actions/create-share-link";
+import { revokeShareLink } from "@/actions/revoke-share-link";
+import { ProjectThumbnail } from "@/components/preview/ProjectThumbnail";
+import { cn } from "@/lib/utils";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+interface ShareLinkSummary {
+  id: string;
+  token: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+function getShareUrl(token: string) {
+  return `${window.location.origin}/share/${token}`;
+}
+
+export function ShareDialog({ open, onOpenChange, projectId }: ShareDialogProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    getShareLinks(projectId)
+      .then(setLinks)
+      .catch(console.error)
+      .finally(() => setIsLoading(false));
+  }, [open, projectId]);
+
+  const handleCopy = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(projectId);
+      setLinks((prev) => [link, ...prev]);
+      await handleCopy(link);
+    } catch (error) {
+      console.error("Failed to create share link:", error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    try {
+      await revokeShareLink(projectId, link.id);
+      setLinks((prev) =>
+        prev.map((item) =>
+          item.id === link.id ? { ...item, revokedAt: new Date() } : item
+        )
+      );
+    } catch (error) {
+      console.error("Failed to revoke share link:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view the preview and code, and fork the
+            project with its chat, as they are when the link is created. Later
+            changes are not shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button
+          className="h-8 gap-2 self-start"
+          onClick={handleCreate}
+          disabled={isCreating}
+        >
+          {isCreating ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Link2 className="h-4 w-4" />
+          )}
+          Create link
+        </Button>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8 text-neutral-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : links.length === 0 ? (
+          <p className="py-8 text-center text-sm text-neutral-500">
+            No share links yet.
+          </p>
+        ) : (
+          <ul className="flex flex-col divide-y divide-neutral-200 border border-neutral-200 rounded-md">
+            {links.map((link) => (
+              <li
+                key={link.id}
+                className="flex items-center gap-2 px-3 py-2 text-sm"
+              >
+                <ProjectThumbnail
+                  src={`/api/share/${link.token}/thumbnail`}
+                  className="h-9 w-14"
+                />
+                <div className="flex flex-col min-w-0 flex-1">
+                  <span
+                    className={cn(
+                      "truncate font-mono text-xs text-neutral-700",
+                      link.revokedAt && "line-through text-neutral-400"
+                    )}
+                  >
+                    /share/{link.token}
+                  </span>
+                  <span className="text-xs text-neutral-500">
+                    {link.revokedAt
+                      ? `Revoked ${new Date(link.revokedAt).toLocaleString()}`
+                      : `Created ${new Date(link.createdAt).toLocaleString()}`}
+                  </span>
+                </div>
+                {!link.revokedAt && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleCopy(link)}
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? (
+                        <Check className="h-4 w-4 text-emerald-600" />
+                      ) : (
+                        <Copy className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      className="h-8"
+                      onClick={() => handleRevoke(link)}
+                    >
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { Eye } from "lucide-react";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { FileSystemProvider } from "@/lib/contexts/file-system-context";
+import { DiagnosticsProvider } from "@/lib/contexts/diagnostics-context";
+import { FileTree } from "@/components/editor/FileTree";
+import { CodeEditor } from "@/components/editor/CodeEditor";
+import { PreviewFrame } from "@/components/preview/PreviewFrame";
+import { StoryGallery } from "@/components/preview/StoryGallery";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { HeaderActions } from "@/components/HeaderActions";
+
+interface SharedProjectViewProps {
+  user?: {
+    id: string;
+    email: string;
+  } | null;
+  token: string;
+  project: {
+    name: string;
+    data: any;
+    createdAt: Date;
+  };
+}
+
+export function SharedProjectView({
+  user,
+  token,
+  project,
+}: SharedProjectViewProps) {
+  return (
+    <FileSystemProvider initialData={project.data}>
+      <DiagnosticsProvider>
+        <div className="h-screen w-screen overflow-hidden bg-neutral-50">
+          <Tabs defaultValue="preview" className="h-full flex flex-col bg-white">
+            {/* Top Bar */}
+            <div className="h-14 border-b border-neutral-200/60 px-6 flex items-center justify-between gap-4 bg-neutral-50/50">
+              <div className="flex items-center gap-3 min-w-0">
+                <h1 className="text-lg font-semibold text-neutral-900 tracking-tight truncate">
+                  {project.name}
+                </h1>
+                <span className="flex items-center gap-1.5 shrink-0 rounded-full bg-neutral-100 px-2.5 py-0.5 text-xs text-neutral-600">
+                  <Eye className="h-3.5 w-3.5" />
+                  Read-only snapshot ·{" "}
+                  {new Date(project.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <TabsList className="bg-white/60 border border-neutral-200/60 p-0.5 h-9 shadow-sm">
+                  <TabsTrigger value="preview" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Preview</TabsTrigger>
+                  <TabsTrigger value="code" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Code</TabsTrigger>
+                  <TabsTrigger value="gallery" className="data-[state=active]:bg-white data-[state=active]:text-neutral-900 data-[state=active]:shadow-sm text-neutral-600 px-4 py-1.5 text-sm font-medium transition-all">Gallery</TabsTrigger>
+                </TabsList>
+                <HeaderActions user={user} shareToken={token} />
+              </div>
+            </div>
+
+            {/* Content Area */}
+            <TabsContent value="preview" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+              <div className="h-full bg-white">
+                <PreviewFrame />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="gallery" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+              <StoryGallery />
+            </TabsContent>
+
+            <TabsContent value="code" className="flex-1 overflow-hidden bg-neutral-50 m-0">
+              <ResizablePanelGroup direction="horizontal" className="h-full">
+                {/* File Tree */}
+                <ResizablePanel defaultSize={25} minSize={15} maxSize={50}>
+                  <div className="h-full bg-neutral-50 border-r border-neutral-200">
+                    <FileTree readOnly />
+                  </div>
+                </ResizablePanel>
+
+                <ResizableHandle className="w-[1px] bg-neutral-200 hover:bg-neutral-300 transition-colors" />
+
+                {/* Code Editor */}
+                <ResizablePanel defaultSize={75}>
+                  <div className="h-full bg-white">
+                    <CodeEditor readOnly />
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </DiagnosticsProvider>
+    </FileSystemProvider>
+  );
+}
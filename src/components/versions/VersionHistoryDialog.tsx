@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Loader2, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { getProjectVersions } from "@/actions/get-project-versions";
+import { getProjectVersion } from "@/actions/get-project-version";
+import { restoreProjectVersion } from "@/actions/restore-project-version";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { VisualDiffView } from "@/components/versions/VisualDiffView";
+import { diffSnapshots, diffLines, FileChange } from "@/lib/version-diff";
+import { cn } from "@/lib/utils";
+
+interface VersionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  // Viewers can compare versions but not restore them
+  readOnly?: boolean;
+}
+
+interface VersionSummary {
+  id: string;
+  messageCount: number;
+  createdAt: Date;
+}
+
+const statusStyles: Record<FileChange["status"], string> = {
+  added: "bg-emerald-50 text-emerald-700",
+  removed: "bg-red-50 text-red-700",
+  modified: "bg-amber-50 text-amber-700",
+};
+
+function formatVersion(version: VersionSummary, index: number, total: number) {
+  return `v${total - index} · ${new Date(version.createdAt).toLocaleString()}`;
+}
+
+export function VersionHistoryDialog({
+  open,
+  onOpenChange,
+  projectId,
+  readOnly = false,
+}: VersionHistoryDialogProps) {
+  const { replaceFiles } = useFileSystem();
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [baseId, setBaseId] = useState<string>("");
+  const [targetId, setTargetId] = useState<string>("");
+  const [changes, setChanges] = useState<FileChange[]>([]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [view, setView] = useState<"files" | "visual">("files");
+
+  // Load versions when the dialog opens, comparing the latest two by default
+  useEffect(() => {
+    if (!open) return;
+
+    setIsLoading(true);
+    getProjectVersions(projectId)
+      .then((loaded) => {
+        setVersions(loaded);
+        setTargetId(loaded[0]?.id || "");
+        setBaseId(loaded[1]?.id || loaded[0]?.id || "");
+      })
+      .catch(console.error)
+      .finally(() => setIsLoading(false));
+  }, [open, projectId]);
+
+  // Recompute the diff whenever the compared versions change
+  useEffect(() => {
+    if (!baseId || !targetId) {
+      setChanges([]);
+      return;
+    }
+
+    Promise.all([
+      getProjectVersion(projectId, baseId),
+      getProjectVersion(projectId, targetId),
+    ])
+      .then(([base, target]) => {
+        const fileChanges = diffSnapshots(base.data, target.data);
+        setChanges(fileChanges);
+        setSelectedPath(fileChanges[0]?.path || null);
+      })
+      .catch(console.error);
+  }, [projectId, baseId, targetId]);
+
+  const handleRestore = async () => {
+    if (!targetId) return;
+
+    setIsRestoring(true);
+    try {
+      const data = await restoreProjectVersion(projectId, targetId);
+      replaceFiles(data);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to restore version:", error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const selectedChange = changes.find((change) => change.path === selectedPath);
+
+  const renderSelect = (
+    label: string,
+    value: string,
+    onChange: (value: string) => void
+  ) => (
+    <label className="flex flex-col gap-1 text-xs font-medium text-neutral-600">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 rounded-md border border-neutral-200 bg-white px-2 text-sm text-neutral-900"
+      >
+        {versions.map((version, index) => (
+          <option key={version.id} value={version.id}>
+            {formatVersion(version, index, versions.length)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            A version is saved after every assistant turn. Compare any two or
+            restore one as the current state.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-neutral-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-neutral-500">
+            No versions yet. Versions appear after the assistant responds.
+          </p>
+        ) : (
+          <div className="flex flex-col gap-4">
+            <div className="flex items-end gap-3">
+              {renderSelect("Compare", baseId, setBaseId)}
+              {renderSelect("With", targetId, setTargetId)}
+              <div className="flex rounded-md border border-neutral-200 p-0.5">
+                {(["files", "visual"] as const).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setView(option)}
+                    className={cn(
+                      "rounded px-2 py-1 text-xs capitalize text-neutral-600 hover:bg-neutral-100",
+                      view === option &&
+                        "bg-neutral-900 text-white hover:bg-neutral-900"
+                    )}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              {!readOnly && (
+                <Button
+                  className="ml-auto h-8 gap-2"
+                  onClick={handleRestore}
+                  disabled={isRestoring}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Restore this version
+                </Button>
+              )}
+            </div>
+
+            {view === "visual" ? (
+              <div className="h-[420px] border border-neutral-200 rounded-md overflow-hidden">
+                <VisualDiffView
+                  projectId={projectId}
+                  baseId={baseId}
+                  targetId={targetId}
+                />
+              </div>
+            ) : (
+              <div className="flex h-[420px] border border-neutral-200 rounded-md overflow-hidden">
+                <ScrollArea className="w-64 border-r border-neutral-200 bg-neutral-50">
+                  {changes.length === 0 ? (
+                    <p className="p-3 text-xs text-neutral-500">No file changes</p>
+                  ) : (
+                    <ul className="py-1">
+                      {changes.map((change) => (
+                        <li key={change.path}>
+                          <button
+                            onClick={() => setSelectedPath(change.path)}
+                            className={cn(
+                              "w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-xs hover:bg-neutral-100",
+                              selectedPath === change.path && "bg-blue-50"
+                            )}
+                          >
+                            <span className="truncate text-neutral-700">
+                              {change.path}
+                            </span>
+                            <span
+                              className={cn(
+                                "shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium",
+                                statusStyles[change.status]
+                              )}
+                            >
+                              {change.status}
+                            </span>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </ScrollArea>
+
+                <ScrollArea className="flex-1">
+                  {selectedChange && (
+                    <pre className="p-3 text-xs font-mono leading-5">
+                      {diffLines(
+                        selectedChange.before || "",
+                        selectedChange.after || ""
+                      ).map((line, index) => (
+                        <div
+                          key={index}
+                          className={cn(
+                            "px-2 whitespace-pre-wrap",
+                            line.type === "added" && "bg-emerald-50 text-emerald-800",
+                            line.type === "removed" && "bg-red-50 text-red-800"
+                          )}
+                        >
+                          {line.type === "added"
+                            ? "+ "
+                            : line.type === "removed"
+                              ? "- "
+                              : "  "}
+                          {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { Loader2, ScanEye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DiffRegion, formatChangePercentage } from "@/lib/visual-diff";
+import { cn } from "@/lib/utils";
+
+interface VisualDiffViewProps {
+  projectId: string;
+  baseId: string;
+  targetId: string;
+}
+
+// What /api/projects/[projectId]/visual-diff returns
+interface VisualDiffResult {
+  width: number;
+  height: number;
+  changedPercentage: number;
+  regions: DiffRegion[];
+  images: { before: string; after: string; overlay: string };
+}
+
+type ImageMode = "before" | "after" | "overlay";
+
+const IMAGE_MODES: { id: ImageMode; label: string }[] = [
+  { id: "overlay", label: "Diff" },
+  { id: "before", label: "Before" },
+  { id: "after", label: "After" },
+];
+
+export function VisualDiffView({
+  projectId,
+  baseId,
+  targetId,
+}: VisualDiffViewProps) {
+  const [result, setResult] = useState<VisualDiffResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [mode, setMode] = useState<ImageMode>("overlay");
+
+  // A result only belongs to the pair it was computed for
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [projectId, baseId, targetId]);
+
+  const handleCompare = async () => {
+    setIsComparing(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from: baseId, to: targetId });
+      const response = await fetch(
+        `/api/projects/${projectId}/visual-diff?${params}`
+      );
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || "Failed to compare the versions");
+      }
+      setResult(body);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  if (!result) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-3 p-6 text-center">
+        <p className="max-w-sm text-sm text-neutral-500">
+          Render both versions and compare them pixel by pixel to spot
+          unintended changes to the look of the project.
+        </p>
+        <Button
+          className="h-8 gap-2"
+          onClick={handleCompare}
+          disabled={isComparing || !baseId || !targetId}
+        >
+          {isComparing ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <ScanEye className="h-4 w-4" />
+          )}
+          Compare renders
+        </Button>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  const changedRegions = result.regions.filter(
+    (region) => region.changedPixels > 0
+  );
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center gap-3 border-b border-neutral-200 px-3 py-2">
+        <span className="text-sm text-neutral-700">
+          <span className="font-medium">
+            {formatChangePercentage(result.changedPercentage)}
+          </span>{" "}
+          of the page changed
+        </span>
+        <div className="ml-auto flex rounded-md border border-neutral-200 p-0.5">
+          {IMAGE_MODES.map((imageMode) => (
+            <button
+              key={imageMode.id}
+              onClick={() => setMode(imageMode.id)}
+              className={cn(
+                "rounded px-2 py-0.5 text-xs text-neutral-600 hover:bg-neutral-100",
+                mode === imageMode.id && "bg-neutral-900 text-white hover:bg-neutral-900"
+              )}
+            >
+              {imageMode.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-neutral-50 p-3">
+        <div className="relative mx-auto w-full max-w-[640px]">
+          <Image
+            src={result.images[mode]}
+            alt={`${IMAGE_MODES.find((m) => m.id === mode)!.label} render`}
+            width={result.width}
+            height={result.height}
+            unoptimized
+            className="block h-auto w-full border border-neutral-200 bg-white"
+          />
+          {mode === "overlay" &&
+            changedRegions.map((region) => (
+              <div
+                key={`${region.x}:${region.y}`}
+                className="absolute border border-red-500/60"
+                style={{
+                  left: `${(region.x / result.width) * 100}%`,
+                  top: `${(region.y / result.height) * 100}%`,
+                  width: `${(region.width / result.width) * 100}%`,
+                  height: `${(region.height / result.height) * 100}%`,
+                }}
+              >
+                <span className="absolute right-0 top-0 bg-red-500 px-1 text-[10px] font-medium text-white">
+                  {formatChangePercentage(region.changedPercentage)}
+                </span>
+              </div>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -40,6 +40,19 @@ vi.mock("@/actions/create-project", () => ({
   createProject: (...args: any[]) => mockCreateProject(...args),
 }));
 
+// Mock invitations
+const mockTakePendingInvitation = vi.fn();
+const mockAcceptProjectInvitation = vi.fn();
+
+vi.mock("@/lib/pending-invitation", () => ({
+  takePendingInvitation: () => mockTakePendingInvitation(),
+}));
+
+vi.mock("@/actions/accept-project-invitation", () => ({
+  acceptProjectInvitation: (...args: any[]) =>
+    mockAcceptProjectInvitation(...args),
+}));
+
 describe("useAuth", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -387,6 +400,43 @@ describe("useAuth", () => {
     });
   });
 
+  describe("handlePostSignIn - invitation flow", () => {
+    test("joins the project of a pending invite link", async () => {
+      mockSignInAction.mockResolvedValue({ success: true });
+      mockTakePendingInvitation.mockReturnValue("invite-token");
+      mockAcceptProjectInvitation.mockResolvedValue({ projectId: "invited" });
+      mockGetAnonWorkData.mockReturnValue(null);
+
+      const { result } = renderHook(() => useAuth());
+
+      await result.current.signIn("test@example.com", "password123");
+
+      expect(mockAcceptProjectInvitation).toHaveBeenCalledWith("invite-token");
+      expect(mockPush).toHaveBeenCalledWith("/invited");
+      expect(mockGetProjects).not.toHaveBeenCalled();
+    });
+
+    test("falls back to the usual redirect when the invitation fails", async () => {
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      mockSignInAction.mockResolvedValue({ success: true });
+      mockTakePendingInvitation.mockReturnValue("invite-token");
+      mockAcceptProjectInvitation.mockRejectedValue(
+        new Error("This invitation is for a different email address")
+      );
+      mockGetAnonWorkData.mockReturnValue(null);
+      mockGetProjects.mockResolvedValue([{ id: "existing-project" }]);
+
+      const { result } = renderHook(() => useAuth());
+
+      await result.current.signIn("test@example.com", "password123");
+
+      expect(mockPush).toHaveBeenCalledWith("/existing-project");
+      consoleError.mockRestore();
+    });
+  });
+
   describe("handlePostSignIn - new project flow", () => {
     test("creates new project when no anonymous work and no existing projects", async () => {
       mockSignInAction.mockResolvedValue({ success: true });
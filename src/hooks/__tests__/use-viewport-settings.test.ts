@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { useViewportSettings } from "../use-viewport-settings";
+import { DEFAULT_VIEWPORT_SETTINGS } from "@/lib/preview/viewport";
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+});
+
+describe("useViewportSettings", () => {
+  test("starts with the defaults", () => {
+    const { result } = renderHook(() => useViewportSettings("project-1"));
+    expect(result.current.settings).toEqual(DEFAULT_VIEWPORT_SETTINGS);
+  });
+
+  test("remembers settings per project", () => {
+    const { result, unmount } = renderHook(() =>
+      useViewportSettings("project-1")
+    );
+    act(() => result.current.updateSettings({ device: "mobile", zoom: 0.5 }));
+    unmount();
+
+    const same = renderHook(() => useViewportSettings("project-1"));
+    expect(same.result.current.settings).toMatchObject({
+      device: "mobile",
+      zoom: 0.5,
+    });
+
+    const other = renderHook(() => useViewportSettings("project-2"));
+    expect(other.result.current.settings).toEqual(DEFAULT_VIEWPORT_SETTINGS);
+  });
+
+  test("matches the server render before reading storage", () => {
+    localStorage.setItem(
+      "uigen_viewport_project-1",
+      JSON.stringify({ device: "tablet" })
+    );
+    const devices: string[] = [];
+    renderHook(() => {
+      const { settings } = useViewportSettings("project-1");
+      devices.push(settings.device);
+    });
+
+    expect(devices[0]).toBe(DEFAULT_VIEWPORT_SETTINGS.device);
+    expect(devices[devices.length - 1]).toBe("tablet");
+  });
+
+  test("reloads settings when the project changes", () => {
+    localStorage.setItem(
+      "uigen_viewport_project-2",
+      JSON.stringify({ device: "tablet" })
+    );
+    const { result, rerender } = renderHook(
+      ({ projectId }) => useViewportSettings(projectId),
+      { initialProps: { projectId: "project-1" } }
+    );
+
+    rerender({ projectId: "project-2" });
+
+    expect(result.current.settings.device).toBe("tablet");
+  });
+
+  test("ignores corrupt stored settings", () => {
+    localStorage.setItem("uigen_viewport_project-1", "{not json");
+    const { result } = renderHook(() => useViewportSettings("project-1"));
+    expect(result.current.settings).toEqual(DEFAULT_VIEWPORT_SETTINGS);
+  });
+});
@@ -6,12 +6,30 @@ import { signIn as signInAction, signUp as signUpAction } from "@/actions";
 import { getAnonWorkData, clearAnonWork } from "@/lib/anon-work-tracker";
 import { getProjects } from "@/actions/get-projects";
 import { createProject } from "@/actions/create-project";
+import { acceptProjectInvitation } from "@/actions/accept-project-invitation";
+import { takePendingInvitation } from "@/lib/pending-invitation";
 
 export function useAuth() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
 
+  // Joins the project of an invite link opened before signing in
+  const acceptPendingInvitation = async (): Promise<string | null> => {
+    const token = takePendingInvitation();
+    if (!token) return null;
+
+    try {
+      const { projectId } = await acceptProjectInvitation(token);
+      return projectId;
+    } catch (error) {
+      console.error("Failed to accept invitation:", error);
+      return null;
+    }
+  };
+
   const handlePostSignIn = async () => {
+    const invitedProjectId = await acceptPendingInvitation();
+
     // Get any anonymous work
     const anonWork = getAnonWorkData();
 
@@ -28,6 +46,11 @@ export function useAuth() {
       return;
     }
 
+    if (invitedProjectId) {
+      router.push(`/${invitedProjectId}`);
+      return;
+    }
+
     // Otherwise, find the user's most recent project
     const projects = await getProjects();
 
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_VIEWPORT_SETTINGS,
+  ViewportSettings,
+  parseViewportSettings,
+} from "@/lib/preview/viewport";
+
+const STORAGE_PREFIX = "uigen_viewport";
+
+function getStorageKey(projectId?: string) {
+  return projectId ? `${STORAGE_PREFIX}_${projectId}` : STORAGE_PREFIX;
+}
+
+function readSettings(projectId?: string): ViewportSettings {
+  try {
+    const stored = localStorage.getItem(getStorageKey(projectId));
+    return parseViewportSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_VIEWPORT_SETTINGS;
+  }
+}
+
+// Preview viewport settings, remembered in this browser for each project
+export function useViewportSettings(projectId?: string) {
+  // Storage is only read after mounting, so the server and the first
+  // client render agree
+  const [settings, setSettings] = useState<ViewportSettings>(
+    DEFAULT_VIEWPORT_SETTINGS
+  );
+
+  useEffect(() => {
+    setSettings(readSettings(projectId));
+  }, [projectId]);
+
+  const updateSettings = useCallback(
+    (changes: Partial<ViewportSettings>) => {
+      setSettings((current) => {
+        const next = { ...current, ...changes };
+        try {
+          localStorage.setItem(getStorageKey(projectId), JSON.stringify(next));
+        } catch {
+          // Storage may be full or disabled; the settings still apply
+        }
+        return next;
+      });
+    },
+    [projectId]
+  );
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,111 @@
+import { test, expect, describe } from "vitest";
+import {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  checkImageFile,
+  isImageAttachment,
+  readImageAttachment,
+  sanitizeAttachments,
+  withoutAttachments,
+} from "@/lib/chat-attachments";
+
+const png = {
+  name: "mockup.png",
+  contentType: "image/png",
+  url: "data:image/png;base64,iVBORw0KGgo=",
+};
+
+describe("checkImageFile", () => {
+  test("accepts supported images", () => {
+    expect(checkImageFile({ name: "a.webp", type: "image/webp", size: 1024 })).toBeNull();
+  });
+
+  test("rejects other types and large files", () => {
+    expect(checkImageFile({ name: "a.svg", type: "image/svg+xml", size: 10 })).toBe(
+      "a.svg is not a PNG, JPEG, GIF or WebP image"
+    );
+    expect(
+      checkImageFile({ name: "a.png", type: "image/png", size: MAX_ATTACHMENT_BYTES + 1 })
+    ).toBe("a.png is larger than 5 MB");
+  });
+});
+
+test("readImageAttachment reads the file as a data URL", async () => {
+  const file = new File(["hello"], "shot.png", { type: "image/png" });
+
+  expect(await readImageAttachment(file)).toEqual({
+    name: "shot.png",
+    contentType: "image/png",
+    url: "data:image/png;base64,aGVsbG8=",
+  });
+});
+
+describe("isImageAttachment", () => {
+  test("accepts inline images", () => {
+    expect(isImageAttachment(png)).toBe(true);
+  });
+
+  test("rejects remote URLs and mismatched or unsupported types", () => {
+    expect(isImageAttachment({ ...png, url: "https://example.com/a.png" })).toBe(false);
+    expect(isImageAttachment({ ...png, contentType: "image/jpeg" })).toBe(false);
+    expect(
+      isImageAttachment({
+        contentType: "text/plain",
+        url: "data:text/plain;base64,aGVsbG8=",
+      })
+    ).toBe(false);
+    expect(isImageAttachment(null)).toBe(false);
+  });
+});
+
+describe("sanitizeAttachments", () => {
+  test("drops invalid attachments and caps the count", () => {
+    const messages = sanitizeAttachments([
+      { role: "user", content: "Build this" },
+      {
+        role: "user",
+        content: "Like these",
+        experimental_attachments: [
+          { contentType: "image/png", url: "http://169.254.169.254/" },
+          ...Array(MAX_ATTACHMENTS + 1).fill(png),
+        ],
+      },
+      {
+        role: "user",
+        content: "Remote only",
+        experimental_attachments: [{ contentType: "image/png", url: "https://x.dev/a.png" }],
+      },
+    ]);
+
+    expect(messages[0]).toEqual({ role: "user", content: "Build this" });
+    expect(messages[1].experimental_attachments).toEqual(Array(MAX_ATTACHMENTS).fill(png));
+    expect(messages[2]).toEqual({ role: "user", content: "Remote only" });
+  });
+});
+
+describe("withoutAttachments", () => {
+  test("replaces attachments with a note", () => {
+    const [message] = withoutAttachments([
+      {
+        role: "user",
+        content: "Build this",
+        parts: [{ type: "text", text: "Build this" }],
+        experimental_attachments: [png, png],
+      },
+    ]);
+
+    expect(message).toEqual({
+      role: "user",
+      content: "Build this\n\n[2 images attached, but this model can't view images]",
+      parts: [
+        { type: "text", text: "Build this" },
+        { type: "text", text: "[2 images attached, but this model can't view images]" },
+      ],
+    });
+  });
+
+  test("leaves messages without attachments alone", () => {
+    const message = { role: "assistant", content: "Done" };
+    expect(withoutAttachments([message])[0]).toBe(message);
+  });
+});
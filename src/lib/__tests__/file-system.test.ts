@@ -1,5 +1,5 @@
 import { test, expect } from "vitest";
-import { VirtualFileSystem } from "@/lib/file-system";
+import { VirtualFileSystem, MAX_HISTORY_ENTRIES } from "@/lib/file-system";
 
 test("creates a new file system with root directory", () => {
   const fs = new VirtualFileSystem();
@@ -675,3 +675,164 @@ test("rename handles empty directories", () => {
   expect(fs.exists("/moved-empty-dir")).toBe(true);
   expect(fs.getNode("/moved-empty-dir")?.type).toBe("directory");
 });
+
+test("undoEdit reverts the last str_replace", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "const a = 1;");
+  fs.replaceInFile("/App.jsx", "1", "2");
+  fs.replaceInFile("/App.jsx", "2", "3");
+
+  expect(fs.undoEdit("/App.jsx")).toBe("Reverted last edit to /App.jsx");
+  expect(fs.readFile("/App.jsx")).toBe("const a = 2;");
+
+  fs.undoEdit("/App.jsx");
+  expect(fs.readFile("/App.jsx")).toBe("const a = 1;");
+});
+
+test("undoEdit reverts an insert", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/test.js", "line1\nline2");
+  fs.insertInFile("/test.js", 1, "inserted");
+
+  fs.undoEdit("/test.js");
+
+  expect(fs.readFile("/test.js")).toBe("line1\nline2");
+});
+
+test("undoEdit removes a created file", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/components/Button.jsx", "button");
+
+  expect(fs.undoEdit("/components/Button.jsx")).toBe(
+    "Undid creation of /components/Button.jsx"
+  );
+  expect(fs.exists("/components/Button.jsx")).toBe(false);
+});
+
+test("undoEdit moves a renamed file back with its history", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/old.jsx", "a");
+  fs.replaceInFile("/old.jsx", "a", "b");
+  fs.rename("/old.jsx", "/new.jsx");
+
+  expect(fs.getHistory("/new.jsx").map((e) => e.command)).toEqual([
+    "create",
+    "str_replace",
+    "rename",
+  ]);
+
+  fs.undoEdit("/new.jsx");
+
+  expect(fs.exists("/new.jsx")).toBe(false);
+  expect(fs.readFile("/old.jsx")).toBe("b");
+  expect(fs.getHistory("/old.jsx")).toHaveLength(2);
+});
+
+test("undoEdit restores a deleted directory", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/src/a.js", "a");
+  fs.createFile("/src/nested/b.js", "b");
+  fs.deleteFile("/src");
+
+  expect(fs.undoEdit("/src")).toBe("Restored /src");
+  expect(fs.readFile("/src/a.js")).toBe("a");
+  expect(fs.readFile("/src/nested/b.js")).toBe("b");
+});
+
+test("undoEdit returns an error when there is no history", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/test.js", "content");
+
+  expect(fs.undoEdit("/test.js")).toBe(
+    "Error: No edit history found for /test.js"
+  );
+});
+
+test("undoEdit refuses to revert over later manual edits", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "const a = 1;");
+  fs.replaceInFile("/App.jsx", "1", "2");
+  fs.updateFile("/App.jsx", "const a = 5;");
+
+  expect(fs.undoEdit("/App.jsx")).toBe(
+    "Error: /App.jsx has changed since the last edit and cannot be undone"
+  );
+  expect(fs.readFile("/App.jsx")).toBe("const a = 5;");
+  expect(fs.getHistory("/App.jsx")).toHaveLength(2);
+});
+
+test("undoEdit keeps the entry when the undo fails", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/old.jsx", "a");
+  fs.rename("/old.jsx", "/new.jsx");
+  fs.createFileWithParents("/old.jsx", "other");
+
+  expect(fs.undoEdit("/new.jsx")).toBe(
+    "Error: Cannot move /new.jsx back to /old.jsx"
+  );
+  expect(fs.getHistory("/new.jsx").map((e) => e.command)).toEqual([
+    "create",
+    "rename",
+  ]);
+
+  fs.deleteFile("/new.jsx");
+  fs.createFile("/new.jsx", "again");
+
+  expect(fs.undoEdit("/new.jsx")).toBe(
+    "Error: Cannot restore /new.jsx, the path is in use"
+  );
+  expect(fs.getHistory("/new.jsx").map((e) => e.command)).toEqual([
+    "create",
+    "rename",
+    "delete",
+  ]);
+});
+
+test("replacing the tree keeps history for unchanged paths", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "const a = 1;");
+  fs.replaceInFile("/App.jsx", "1", "2");
+  fs.createFileWithParents("/Card.jsx", "card");
+  fs.createFileWithParents("/Old.jsx", "old");
+
+  const data = fs.serialize();
+  data["/Card.jsx"] = { ...data["/Card.jsx"], content: "changed" };
+  delete data["/Old.jsx"];
+  fs.deserializeFromNodes(data);
+
+  expect(fs.getHistory("/App.jsx")).toHaveLength(2);
+  expect(fs.getHistory("/Card.jsx")).toEqual([]);
+  expect(fs.getHistory("/Old.jsx")).toEqual([]);
+
+  fs.undoEdit("/App.jsx");
+  expect(fs.readFile("/App.jsx")).toBe("const a = 1;");
+});
+
+test("history is bounded per file", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/counter.js", "0");
+  for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) {
+    fs.replaceInFile("/counter.js", String(i), String(i + 1));
+  }
+
+  const history = fs.getHistory("/counter.js");
+  expect(history).toHaveLength(MAX_HISTORY_ENTRIES);
+  expect(history[history.length - 1].previousContent).toBe(
+    String(MAX_HISTORY_ENTRIES + 4)
+  );
+});
+
+test("history survives serialization", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFileWithParents("/App.jsx", "old");
+  fs.replaceInFile("/App.jsx", "old", "new");
+
+  const restored = new VirtualFileSystem();
+  restored.deserializeFromNodes(fs.serialize());
+  restored.deserializeHistory(
+    JSON.parse(JSON.stringify(fs.serializeHistory()))
+  );
+
+  restored.undoEdit("/App.jsx");
+  expect(restored.readFile("/App.jsx")).toBe("old");
+});
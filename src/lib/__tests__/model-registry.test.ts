@@ -0,0 +1,186 @@
+import { test, expect, describe, vi, afterEach } from "vitest";
+import fs from "fs";
+import {
+  createModelRegistry,
+  resolveModel,
+  getProviderApiKey,
+  supportsImages,
+  DEFAULT_ANTHROPIC_MODEL,
+  MOCK_MODEL,
+} from "../model-registry";
+
+vi.mock("fs", async () => {
+  const actual = await vi.importActual<typeof import("fs")>("fs");
+  return {
+    default: { ...actual, existsSync: vi.fn(), readFileSync: vi.fn() },
+  };
+});
+
+function mockConfigFile(config: unknown) {
+  vi.mocked(fs.existsSync).mockReturnValue(true);
+  vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(config));
+}
+
+afterEach(() => {
+  vi.mocked(fs.existsSync).mockReset();
+  vi.mocked(fs.readFileSync).mockReset();
+});
+
+describe("createModelRegistry", () => {
+  test("falls back to the mock provider when nothing is configured", () => {
+    const registry = createModelRegistry({});
+
+    expect(registry.models).toEqual([
+      { id: `mock/${MOCK_MODEL}`, label: `Mock · ${MOCK_MODEL}`, provider: "mock" },
+    ]);
+    expect(registry.defaultModel).toBe(`mock/${MOCK_MODEL}`);
+  });
+
+  test("adds Anthropic when an API key is set", () => {
+    const registry = createModelRegistry({ ANTHROPIC_API_KEY: "sk-test" });
+
+    expect(registry.models.map((model) => model.id)).toEqual([
+      `anthropic/${DEFAULT_ANTHROPIC_MODEL}`,
+    ]);
+  });
+
+  test("reads Anthropic models and the default from the environment", () => {
+    const registry = createModelRegistry({
+      ANTHROPIC_API_KEY: "sk-test",
+      ANTHROPIC_MODELS: "claude-haiku-4-5, claude-sonnet-4-5",
+      DEFAULT_MODEL: "anthropic/claude-sonnet-4-5",
+    });
+
+    expect(registry.models).toHaveLength(2);
+    expect(registry.defaultModel).toBe("anthropic/claude-sonnet-4-5");
+  });
+
+  test("supports a single OpenAI-compatible endpoint from the environment", () => {
+    const registry = createModelRegistry({
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPATIBLE_NAME: "ollama",
+      OPENAI_COMPATIBLE_MODELS: "llama3.1,qwen2.5-coder:7b",
+    });
+
+    expect(registry.models.map((model) => model.id)).toEqual([
+      "ollama/llama3.1",
+      "ollama/qwen2.5-coder:7b",
+    ]);
+    expect(registry.providers[0]).toMatchObject({
+      type: "openai-compatible",
+      baseURL: "http://localhost:11434/v1",
+    });
+  });
+
+  test("loads providers from the config file and skips invalid ones", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    mockConfigFile({
+      default: "llamacpp/local",
+      providers: [
+        {
+          id: "llamacpp",
+          name: "llama.cpp",
+          type: "openai-compatible",
+          baseURL: "http://localhost:8080/v1",
+          models: ["local"],
+        },
+        { id: "broken", type: "openai-compatible", models: ["x"] },
+      ],
+    });
+
+    const registry = createModelRegistry({});
+
+    expect(registry.models).toEqual([
+      { id: "llamacpp/local", label: "llama.cpp · local", provider: "llamacpp" },
+    ]);
+    expect(registry.defaultModel).toBe("llamacpp/local");
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  test("ignores a default that is not configured", () => {
+    const registry = createModelRegistry({
+      ANTHROPIC_API_KEY: "sk-test",
+      DEFAULT_MODEL: "openai/gpt-4o",
+    });
+
+    expect(registry.defaultModel).toBe(`anthropic/${DEFAULT_ANTHROPIC_MODEL}`);
+  });
+});
+
+describe("resolveModel", () => {
+  const registry = createModelRegistry({
+    OPENAI_COMPATIBLE_BASE_URL: "http://localhost:8000/v1",
+    OPENAI_COMPATIBLE_MODELS: "meta-llama/Llama-3.1-8B,mistral",
+  });
+
+  test("keeps slashes in model names", () => {
+    const resolved = resolveModel(
+      registry,
+      "openai-compatible/meta-llama/Llama-3.1-8B"
+    );
+
+    expect(resolved.provider.id).toBe("openai-compatible");
+    expect(resolved.modelName).toBe("meta-llama/Llama-3.1-8B");
+  });
+
+  test("falls back to the default for unknown or missing ids", () => {
+    expect(resolveModel(registry, "anthropic/claude").modelName).toBe(
+      "meta-llama/Llama-3.1-8B"
+    );
+    expect(resolveModel(registry, null).modelName).toBe(
+      "meta-llama/Llama-3.1-8B"
+    );
+  });
+});
+
+describe("supportsImages", () => {
+  test("assumes image input for Anthropic only", () => {
+    const registry = createModelRegistry({
+      ANTHROPIC_API_KEY: "sk-test",
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPATIBLE_NAME: "ollama",
+      OPENAI_COMPATIBLE_MODELS: "llama3.1",
+    });
+
+    expect(supportsImages(registry, `anthropic/${DEFAULT_ANTHROPIC_MODEL}`)).toBe(true);
+    expect(supportsImages(registry, "ollama/llama3.1")).toBe(false);
+  });
+
+  test("can be enabled for OpenAI-compatible models", () => {
+    mockConfigFile({
+      providers: [
+        {
+          id: "openai",
+          type: "openai-compatible",
+          baseURL: "https://api.openai.com/v1",
+          models: ["gpt-4o-mini"],
+          vision: true,
+        },
+      ],
+    });
+    expect(supportsImages(createModelRegistry({}), "openai/gpt-4o-mini")).toBe(true);
+
+    const registry = createModelRegistry({
+      OPENAI_COMPATIBLE_BASE_URL: "http://localhost:11434/v1",
+      OPENAI_COMPATIBLE_MODELS: "llava",
+      OPENAI_COMPATIBLE_VISION: "true",
+    });
+    expect(supportsImages(registry, "openai-compatible/llava")).toBe(true);
+  });
+});
+
+test("getProviderApiKey prefers the named env variable", () => {
+  const provider = {
+    id: "openai",
+    name: "OpenAI",
+    type: "openai-compatible" as const,
+    baseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    models: ["gpt-4o-mini"],
+  };
+
+  expect(getProviderApiKey(provider, { OPENAI_API_KEY: "sk-openai" })).toBe(
+    "sk-openai"
+  );
+});
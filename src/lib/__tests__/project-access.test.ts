@@ -0,0 +1,148 @@
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    projectMember: {
+      findUnique: vi.fn(),
+      upsert: vi.fn((args) => ({ op: "upsert", args })),
+    },
+    projectInvitation: {
+      findUnique: vi.fn(),
+      delete: vi.fn((args) => ({ op: "delete", args })),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+import {
+  acceptInvitation,
+  getProjectRole,
+  requireProjectRole,
+} from "../project-access";
+import { hasRole, isInvitableRole, isProjectRole } from "../project-roles";
+import { prisma } from "@/lib/prisma";
+
+const mockPrisma = prisma as any;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("hasRole", () => {
+  test("ranks owner above editor above viewer", () => {
+    expect(hasRole("owner", "editor")).toBe(true);
+    expect(hasRole("editor", "editor")).toBe(true);
+    expect(hasRole("editor", "owner")).toBe(false);
+    expect(hasRole("viewer", "editor")).toBe(false);
+    expect(hasRole("viewer", "viewer")).toBe(true);
+  });
+
+  test("only editor and viewer can be invited", () => {
+    expect(isInvitableRole("editor")).toBe(true);
+    expect(isInvitableRole("viewer")).toBe(true);
+    expect(isInvitableRole("owner")).toBe(false);
+    expect(isInvitableRole("admin")).toBe(false);
+  });
+
+  test("only accepts the roles themselves", () => {
+    expect(isProjectRole("owner")).toBe(true);
+    expect(isProjectRole("viewer")).toBe(true);
+    expect(isProjectRole("toString")).toBe(false);
+    expect(isProjectRole("constructor")).toBe(false);
+    expect(isProjectRole(1)).toBe(false);
+  });
+});
+
+describe("getProjectRole", () => {
+  test("returns the member's role", async () => {
+    mockPrisma.projectMember.findUnique.mockResolvedValue({ role: "editor" });
+
+    await expect(getProjectRole("p1", "u1")).resolves.toBe("editor");
+    expect(mockPrisma.projectMember.findUnique).toHaveBeenCalledWith({
+      where: { projectId_userId: { projectId: "p1", userId: "u1" } },
+    });
+  });
+
+  test("returns null for non-members and unknown roles", async () => {
+    mockPrisma.projectMember.findUnique.mockResolvedValueOnce(null);
+    await expect(getProjectRole("p1", "u1")).resolves.toBeNull();
+
+    mockPrisma.projectMember.findUnique.mockResolvedValueOnce({ role: "admin" });
+    await expect(getProjectRole("p1", "u1")).resolves.toBeNull();
+  });
+});
+
+describe("requireProjectRole", () => {
+  test("hides projects from non-members", async () => {
+    mockPrisma.projectMember.findUnique.mockResolvedValue(null);
+
+    await expect(requireProjectRole("p1", "u1", "viewer")).rejects.toThrow(
+      "Project not found"
+    );
+  });
+
+  test("rejects members without the required role", async () => {
+    mockPrisma.projectMember.findUnique.mockResolvedValue({ role: "viewer" });
+
+    await expect(requireProjectRole("p1", "u1", "editor")).rejects.toThrow(
+      "Forbidden"
+    );
+  });
+
+  test("returns the role when it is sufficient", async () => {
+    mockPrisma.projectMember.findUnique.mockResolvedValue({ role: "owner" });
+
+    await expect(requireProjectRole("p1", "u1", "editor")).resolves.toBe(
+      "owner"
+    );
+  });
+});
+
+describe("acceptInvitation", () => {
+  const invitation = {
+    id: "i1",
+    projectId: "p1",
+    email: "dev@example.com",
+    role: "editor",
+  };
+
+  test("turns the invitation into a membership and deletes it", async () => {
+    mockPrisma.projectInvitation.findUnique.mockResolvedValue(invitation);
+
+    await expect(
+      acceptInvitation("token-1", "u1", "Dev@Example.com")
+    ).resolves.toBe("p1");
+
+    expect(mockPrisma.projectInvitation.findUnique).toHaveBeenCalledWith({
+      where: { token: "token-1" },
+    });
+    const operations = mockPrisma.$transaction.mock.calls[0][0];
+    expect(operations).toHaveLength(2);
+    expect(operations[0].args.create).toEqual({
+      projectId: "p1",
+      userId: "u1",
+      role: "editor",
+    });
+    expect(operations[1]).toEqual({ op: "delete", args: { where: { id: "i1" } } });
+  });
+
+  test("rejects unknown tokens", async () => {
+    mockPrisma.projectInvitation.findUnique.mockResolvedValue(null);
+
+    await expect(
+      acceptInvitation("guess", "u1", "dev@example.com")
+    ).rejects.toThrow("Invitation not found");
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  test("rejects accounts with another email", async () => {
+    mockPrisma.projectInvitation.findUnique.mockResolvedValue(invitation);
+
+    await expect(
+      acceptInvitation("token-1", "u2", "someone@example.com")
+    ).rejects.toThrow("different email address");
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
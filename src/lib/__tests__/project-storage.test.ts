@@ -0,0 +1,206 @@
+import { describe, test, expect, vi, beforeEach } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    projectFile: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    message: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import {
+  hashContent,
+  loadProjectFiles,
+  loadProjectMessages,
+  saveProjectFiles,
+  saveProjectMessages,
+  toFileRows,
+  toMessageRows,
+} from "../project-storage";
+import { prisma } from "@/lib/prisma";
+
+const mockPrisma = prisma as any;
+
+const data = {
+  "/": { type: "directory" as const, name: "", path: "/" },
+  "/App.jsx": {
+    type: "file" as const,
+    name: "App.jsx",
+    path: "/App.jsx",
+    content: "export default () => null;",
+  },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("toFileRows", () => {
+  test("hashes type and content", () => {
+    const rows = toFileRows(data);
+
+    expect(rows).toEqual([
+      { path: "/", type: "directory", content: null, hash: hashContent("directory", "") },
+      {
+        path: "/App.jsx",
+        type: "file",
+        content: "export default () => null;",
+        hash: hashContent("file", "export default () => null;"),
+      },
+    ]);
+  });
+
+  test("gives an empty file and a directory different hashes", () => {
+    const [directory] = toFileRows({ "/a": { type: "directory", name: "a", path: "/a" } });
+    const [file] = toFileRows({ "/a": { type: "file", name: "a", path: "/a", content: "" } });
+
+    expect(directory.hash).not.toBe(file.hash);
+  });
+});
+
+describe("toMessageRows", () => {
+  test("numbers messages in order", () => {
+    const rows = toMessageRows([
+      { id: "1", role: "user", content: "Make a button" },
+      { id: "2", role: "assistant", content: "Done" },
+    ]);
+
+    expect(rows.map((row) => [row.position, row.role])).toEqual([
+      [0, "user"],
+      [1, "assistant"],
+    ]);
+    expect(JSON.parse(rows[1].content)).toEqual({ id: "2", role: "assistant", content: "Done" });
+  });
+});
+
+describe("loadProjectFiles", () => {
+  test("rebuilds the serialized file system", async () => {
+    mockPrisma.projectFile.findMany.mockResolvedValue([
+      { path: "/", type: "directory", content: null },
+      { path: "/components/Button.jsx", type: "file", content: "button" },
+    ]);
+
+    expect(await loadProjectFiles("project-1")).toEqual({
+      "/": { type: "directory", name: "", path: "/" },
+      "/components/Button.jsx": {
+        type: "file",
+        name: "Button.jsx",
+        path: "/components/Button.jsx",
+        content: "button",
+      },
+    });
+  });
+});
+
+describe("loadProjectMessages", () => {
+  test("parses messages in position order", async () => {
+    mockPrisma.message.findMany.mockResolvedValue([
+      { content: JSON.stringify({ id: "1", role: "user", content: "hi" }) },
+    ]);
+
+    expect(await loadProjectMessages("project-1")).toEqual([
+      { id: "1", role: "user", content: "hi" },
+    ]);
+    expect(mockPrisma.message.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { position: "asc" } })
+    );
+  });
+});
+
+describe("saveProjectFiles", () => {
+  test("writes only changed files and deletes removed ones", async () => {
+    const [root, app] = toFileRows(data);
+    mockPrisma.projectFile.findMany.mockResolvedValue([
+      { path: "/", hash: root.hash },
+      { path: "/App.jsx", hash: "stale" },
+      { path: "/Old.jsx", hash: "old" },
+    ]);
+
+    await saveProjectFiles("project-1", data);
+
+    expect(mockPrisma.projectFile.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.projectFile.upsert).toHaveBeenCalledWith({
+      where: { projectId_path: { projectId: "project-1", path: "/App.jsx" } },
+      create: { projectId: "project-1", ...app },
+      update: { type: "file", content: app.content, hash: app.hash },
+    });
+    expect(mockPrisma.projectFile.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: "project-1", path: { in: ["/Old.jsx"] } },
+    });
+  });
+
+  test("rewrites migrated rows that have no hash yet", async () => {
+    mockPrisma.projectFile.findMany.mockResolvedValue([
+      { path: "/", hash: null },
+      { path: "/App.jsx", hash: null },
+    ]);
+
+    await saveProjectFiles("project-1", data);
+
+    expect(mockPrisma.projectFile.upsert).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.projectFile.deleteMany).not.toHaveBeenCalled();
+  });
+
+  test("uses the given transaction client", async () => {
+    const tx = {
+      projectFile: {
+        findMany: vi.fn().mockResolvedValue([]),
+        upsert: vi.fn(),
+        deleteMany: vi.fn(),
+      },
+      message: {},
+    };
+
+    await saveProjectFiles("project-1", data, tx as any);
+
+    expect(tx.projectFile.upsert).toHaveBeenCalledTimes(2);
+    expect(mockPrisma.projectFile.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("saveProjectMessages", () => {
+  const messages = [
+    { id: "1", role: "user", content: "Make a button" },
+    { id: "2", role: "assistant", content: "Done" },
+  ];
+
+  test("appends only new messages", async () => {
+    const [first] = toMessageRows(messages);
+    mockPrisma.message.findMany.mockResolvedValue([
+      { position: 0, hash: first.hash },
+    ]);
+
+    await saveProjectMessages("project-1", messages);
+
+    expect(mockPrisma.message.upsert).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.message.upsert.mock.calls[0][0].where).toEqual({
+      projectId_position: { projectId: "project-1", position: 1 },
+    });
+    expect(mockPrisma.message.deleteMany).not.toHaveBeenCalled();
+  });
+
+  test("drops messages past the end of a shorter history", async () => {
+    const rows = toMessageRows(messages);
+    mockPrisma.message.findMany.mockResolvedValue([
+      { position: 0, hash: rows[0].hash },
+      { position: 1, hash: rows[1].hash },
+      { position: 2, hash: "extra" },
+    ]);
+
+    await saveProjectMessages("project-1", messages);
+
+    expect(mockPrisma.message.upsert).not.toHaveBeenCalled();
+    expect(mockPrisma.message.deleteMany).toHaveBeenCalledWith({
+      where: { projectId: "project-1", position: { gte: 2 } },
+    });
+  });
+});
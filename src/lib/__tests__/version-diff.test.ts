@@ -0,0 +1,70 @@
+import { test, expect } from "vitest";
+import { diffSnapshots, diffLines } from "@/lib/version-diff";
+import type { FileNode } from "@/lib/file-system";
+
+function snapshot(files: Record<string, string>): Record<string, FileNode> {
+  const result: Record<string, FileNode> = {
+    "/": { type: "directory", name: "/", path: "/" },
+  };
+  for (const [path, content] of Object.entries(files)) {
+    result[path] = {
+      type: "file",
+      name: path.split("/").pop()!,
+      path,
+      content,
+    };
+  }
+  return result;
+}
+
+test("diffSnapshots reports added, removed and modified files", () => {
+  const before = snapshot({
+    "/App.jsx": "old",
+    "/components/Removed.jsx": "gone",
+    "/same.js": "same",
+  });
+  const after = snapshot({
+    "/App.jsx": "new",
+    "/components/Added.jsx": "added",
+    "/same.js": "same",
+  });
+
+  expect(diffSnapshots(before, after)).toEqual([
+    { path: "/App.jsx", status: "modified", before: "old", after: "new" },
+    { path: "/components/Added.jsx", status: "added", after: "added" },
+    { path: "/components/Removed.jsx", status: "removed", before: "gone" },
+  ]);
+});
+
+test("diffSnapshots ignores directories", () => {
+  const before = snapshot({});
+  const after = {
+    ...snapshot({}),
+    "/components": { type: "directory" as const, name: "components", path: "/components" },
+  };
+
+  expect(diffSnapshots(before, after)).toEqual([]);
+});
+
+test("diffSnapshots returns nothing for identical snapshots", () => {
+  const files = snapshot({ "/App.jsx": "content" });
+
+  expect(diffSnapshots(files, files)).toEqual([]);
+});
+
+test("diffLines marks changed lines", () => {
+  expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+    { type: "unchanged", text: "a" },
+    { type: "removed", text: "b" },
+    { type: "added", text: "x" },
+    { type: "unchanged", text: "c" },
+  ]);
+});
+
+test("diffLines handles empty inputs", () => {
+  expect(diffLines("", "a\nb")).toEqual([
+    { type: "added", text: "a" },
+    { type: "added", text: "b" },
+  ]);
+  expect(diffLines("a", "")).toEqual([{ type: "removed", text: "a" }]);
+});
@@ -0,0 +1,114 @@
+import { test, expect } from "vitest";
+import {
+  RGBAImage,
+  diffImages,
+  formatChangePercentage,
+} from "@/lib/visual-diff";
+
+function solidImage(
+  width: number,
+  height: number,
+  color: [number, number, number, number] = [255, 255, 255, 255]
+): RGBAImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set(color, i * 4);
+  }
+  return { width, height, data };
+}
+
+function paint(
+  image: RGBAImage,
+  x: number,
+  y: number,
+  color: [number, number, number, number]
+) {
+  image.data.set(color, (y * image.width + x) * 4);
+}
+
+test("diffImages reports no change for identical images", () => {
+  const diff = diffImages(solidImage(8, 8), solidImage(8, 8));
+
+  expect(diff.changedPixels).toBe(0);
+  expect(diff.changedPercentage).toBe(0);
+  expect(diff.regions.every((region) => region.changedPercentage === 0)).toBe(
+    true
+  );
+});
+
+test("diffImages counts changed pixels per region", () => {
+  const after = solidImage(8, 8);
+  paint(after, 0, 0, [0, 0, 0, 255]);
+  paint(after, 7, 7, [0, 0, 0, 255]);
+  paint(after, 6, 7, [0, 0, 0, 255]);
+
+  const diff = diffImages(solidImage(8, 8), after, { columns: 2, rows: 2 });
+
+  expect(diff.changedPixels).toBe(3);
+  expect(diff.changedPercentage).toBeCloseTo((3 / 64) * 100);
+  expect(diff.regions).toEqual([
+    { x: 0, y: 0, width: 4, height: 4, changedPixels: 1, changedPercentage: 6.25 },
+    { x: 4, y: 0, width: 4, height: 4, changedPixels: 0, changedPercentage: 0 },
+    { x: 0, y: 4, width: 4, height: 4, changedPixels: 0, changedPercentage: 0 },
+    { x: 4, y: 4, width: 4, height: 4, changedPixels: 2, changedPercentage: 12.5 },
+  ]);
+});
+
+test("diffImages ignores changes below the threshold", () => {
+  const after = solidImage(4, 4, [250, 250, 250, 255]);
+
+  expect(diffImages(solidImage(4, 4), after).changedPixels).toBe(0);
+  expect(
+    diffImages(solidImage(4, 4), after, { threshold: 0 }).changedPixels
+  ).toBe(16);
+});
+
+test("diffImages compares transparent pixels as if on white", () => {
+  const before = solidImage(2, 2, [0, 0, 0, 0]);
+
+  expect(diffImages(before, solidImage(2, 2)).changedPixels).toBe(0);
+});
+
+test("diffImages counts pixels outside the smaller image as changed", () => {
+  const diff = diffImages(solidImage(4, 4), solidImage(4, 2));
+
+  expect(diff.width).toBe(4);
+  expect(diff.height).toBe(4);
+  expect(diff.changedPixels).toBe(8);
+  expect(diff.changedPercentage).toBe(50);
+});
+
+test("diffImages covers uneven grids without gaps", () => {
+  const diff = diffImages(solidImage(10, 5), solidImage(10, 5, [0, 0, 0, 255]), {
+    columns: 3,
+    rows: 2,
+  });
+
+  const area = diff.regions.reduce(
+    (sum, region) => sum + region.width * region.height,
+    0
+  );
+  expect(area).toBe(50);
+  expect(
+    diff.regions.reduce((sum, region) => sum + region.changedPixels, 0)
+  ).toBe(50);
+  expect(diff.regions.every((region) => region.changedPercentage === 100)).toBe(
+    true
+  );
+});
+
+test("diffImages marks changed pixels red in the overlay", () => {
+  const after = solidImage(2, 1);
+  paint(after, 1, 0, [0, 0, 255, 255]);
+
+  const { overlay } = diffImages(solidImage(2, 1), after);
+
+  expect(Array.from(overlay.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+  expect(Array.from(overlay.data.slice(4, 8))).toEqual([239, 68, 68, 255]);
+});
+
+test("formatChangePercentage keeps small changes visible", () => {
+  expect(formatChangePercentage(0)).toBe("0%");
+  expect(formatChangePercentage(0.01)).toBe("<0.1%");
+  expect(formatChangePercentage(12.345)).toBe("12.3%");
+});
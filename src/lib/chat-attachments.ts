@@ -0,0 +1,118 @@
+// Image types vision models accept, and the limits Anthropic puts on them
+export const ACCEPTED_IMAGE_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+export const MAX_ATTACHMENTS = 4;
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+// Same shape as the AI SDK's attachments; images are kept inline as data URLs
+export interface ImageAttachment {
+  name?: string;
+  contentType: string;
+  url: string;
+}
+
+const DATA_URL = /^data:([\w.+-]+\/[\w.+-]+);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+/** Returns why a file can't be attached, or null if it can. */
+export function checkImageFile(file: {
+  name: string;
+  type: string;
+  size: number;
+}): string | null {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.name} is not a PNG, JPEG, GIF or WebP image`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+}
+
+export function readImageAttachment(file: File): Promise<ImageAttachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        name: file.name,
+        contentType: file.type,
+        url: String(reader.result),
+      });
+    reader.onerror = () =>
+      reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Only inline images are passed on to the model. Anything else, in
+ * particular a remote URL the SDK would download on the server, is dropped.
+ */
+export function isImageAttachment(value: unknown): value is ImageAttachment {
+  if (!value || typeof value !== "object") return false;
+
+  const { contentType, url } = value as Partial<ImageAttachment>;
+  if (typeof contentType !== "string" || typeof url !== "string") return false;
+
+  const match = DATA_URL.exec(url);
+  return (
+    !!match &&
+    match[1] === contentType &&
+    ACCEPTED_IMAGE_TYPES.includes(contentType) &&
+    (match[2].length * 3) / 4 <= MAX_ATTACHMENT_BYTES
+  );
+}
+
+type ChatMessage = {
+  role: string;
+  content?: unknown;
+  parts?: unknown;
+  experimental_attachments?: unknown;
+};
+
+/** Keeps at most MAX_ATTACHMENTS valid image attachments per message. */
+export function sanitizeAttachments<T extends ChatMessage>(messages: T[]): T[] {
+  return messages.map((message) => {
+    if (message.experimental_attachments === undefined) return message;
+
+    const attachments = Array.isArray(message.experimental_attachments)
+      ? message.experimental_attachments
+          .filter(isImageAttachment)
+          .slice(0, MAX_ATTACHMENTS)
+      : [];
+    const { experimental_attachments: _, ...rest } = message;
+    return (
+      attachments.length > 0
+        ? { ...rest, experimental_attachments: attachments }
+        : rest
+    ) as T;
+  });
+}
+
+/**
+ * For models without image input: replaces attachments with a note, so the
+ * model knows the user shared something it can't see.
+ */
+export function withoutAttachments<T extends ChatMessage>(messages: T[]): T[] {
+  return messages.map((message) => {
+    const attachments = message.experimental_attachments;
+    if (!Array.isArray(attachments) || attachments.length === 0) return message;
+
+    const { experimental_attachments: _, ...rest } = message;
+    const note = `[${attachments.length} image${attachments.length > 1 ? "s" : ""} attached, but this model can't view images]`;
+    return {
+      ...rest,
+      content:
+        typeof message.content === "string" && message.content
+          ? `${message.content}\n\n${note}`
+          : note,
+      // The SDK reads the text of messages with parts from the parts
+      ...(Array.isArray(message.parts) && {
+        parts: [...message.parts, { type: "text", text: note }],
+      }),
+    } as T;
+  });
+}
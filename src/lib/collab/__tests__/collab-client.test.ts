@@ -0,0 +1,155 @@
+import { test, expect, vi } from "vitest";
+import { VirtualFileSystem } from "@/lib/file-system";
+import { CollabHub } from "../hub";
+import { CollabClient } from "../collab-client";
+import { applyFileOperation } from "../operations";
+import type { CollabEvent } from "../protocol";
+
+const PROJECT_ID = "project-1";
+
+// Wires a client to the hub in-process; events queue up until delivered so
+// tests can interleave concurrent edits
+async function connect(hub: CollabHub, clientId: string) {
+  const fileSystem = new VirtualFileSystem();
+  const inbox: CollabEvent[] = [];
+  const onConflict = vi.fn();
+
+  const client = new CollabClient({
+    clientId,
+    submit: async (opId, baseSeq, op) =>
+      hub.submit(PROJECT_ID, clientId, opId, baseSeq, op),
+    applyRemote: (op) => applyFileOperation(fileSystem, op),
+    onConflict,
+  });
+
+  await hub.join(
+    PROJECT_ID,
+    { clientId, userId: clientId, name: clientId, selectedFile: null },
+    (event) => inbox.push(event),
+    async () => ({
+      "/App.jsx": { type: "file", name: "App.jsx", path: "/App.jsx", content: "v0" },
+    })
+  );
+
+  const deliver = async () => {
+    while (inbox.length > 0) {
+      client.handleEvent(inbox.shift()!);
+    }
+    // Let pending submits settle
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  // Local edits go to the file system first, like FileSystemProvider does
+  const edit = async (op: Parameters<typeof applyFileOperation>[1]) => {
+    applyFileOperation(fileSystem, op);
+    client.pushLocal(op);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  await deliver();
+  return { fileSystem, deliver, edit, onConflict };
+}
+
+function files(fileSystem: VirtualFileSystem) {
+  return Object.fromEntries(fileSystem.getAllFiles());
+}
+
+test("new sessions start from the room's state", async () => {
+  const hub = new CollabHub();
+  const alice = await connect(hub, "alice");
+
+  expect(files(alice.fileSystem)).toEqual({ "/App.jsx": "v0" });
+});
+
+test("broadcasts edits to other sessions", async () => {
+  const hub = new CollabHub();
+  const alice = await connect(hub, "alice");
+  const bob = await connect(hub, "bob");
+
+  await alice.edit({ type: "create", path: "/Button.jsx", content: "btn" });
+  await alice.edit({ type: "update", path: "/App.jsx", content: "v1" });
+  await alice.deliver();
+  await bob.deliver();
+
+  expect(files(bob.fileSystem)).toEqual({
+    "/App.jsx": "v1",
+    "/Button.jsx": "btn",
+  });
+  expect(files(alice.fileSystem)).toEqual(files(bob.fileSystem));
+});
+
+test("concurrent writes to one file converge on the last sequenced", async () => {
+  const hub = new CollabHub();
+  const alice = await connect(hub, "alice");
+  const bob = await connect(hub, "bob");
+
+  await alice.edit({ type: "update", path: "/App.jsx", content: "alice" });
+  await bob.edit({ type: "update", path: "/App.jsx", content: "bob" });
+  await alice.deliver();
+  await bob.deliver();
+
+  expect(alice.fileSystem.readFile("/App.jsx")).toBe("bob");
+  expect(bob.fileSystem.readFile("/App.jsx")).toBe("bob");
+});
+
+test("an edit follows a concurrent rename", async () => {
+  const hub = new CollabHub();
+  const alice = await connect(hub, "alice");
+  const bob = await connect(hub, "bob");
+
+  await alice.edit({ type: "rename", path: "/App.jsx", newPath: "/Main.jsx" });
+  await bob.edit({ type: "update", path: "/App.jsx", content: "bob" });
+  await alice.deliver();
+  await bob.deliver();
+
+  expect(files(alice.fileSystem)).toEqual({ "/Main.jsx": "bob" });
+  expect(files(bob.fileSystem)).toEqual({ "/Main.jsx": "bob" });
+});
+
+test("a conflicting edit is rejected and the session resyncs", async () => {
+  const hub = new CollabHub();
+  const alice = await connect(hub, "alice");
+  const bob = await connect(hub, "bob");
+
+  await alice.edit({ type: "rename", path: "/App.jsx", newPath: "/Main.jsx" });
+  await bob.edit({ type: "rename", path: "/App.jsx", newPath: "/Root.jsx" });
+  await alice.deliver();
+  await bob.deliver();
+
+  expect(bob.onConflict).toHaveBeenCalledWith({
+    type: "rename",
+    path: "/App.jsx",
+    newPath: "/Root.jsx",
+  });
+  expect(files(alice.fileSystem)).toEqual({ "/Main.jsx": "v0" });
+  expect(files(bob.fileSystem)).toEqual({ "/Main.jsx": "v0" });
+});
+
+test("reports presence to everyone in the room", async () => {
+  const hub = new CollabHub();
+  const events: CollabEvent[] = [];
+  const send = (event: CollabEvent) => events.push(event);
+
+  await hub.join(
+    PROJECT_ID,
+    { clientId: "alice", userId: "u1", name: "alice@example.com", selectedFile: null },
+    send,
+    async () => ({})
+  );
+  hub.updatePresence(PROJECT_ID, "alice", "/App.jsx");
+
+  expect(events.at(-1)).toEqual({
+    type: "presence",
+    peers: [
+      {
+        clientId: "alice",
+        userId: "u1",
+        name: "alice@example.com",
+        selectedFile: "/App.jsx",
+      },
+    ],
+  });
+
+  hub.leave(PROJECT_ID, "alice", send);
+  expect(hub.getPeer(PROJECT_ID, "alice")).toBeNull();
+});
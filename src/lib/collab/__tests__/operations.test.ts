@@ -0,0 +1,204 @@
+import { describe, test, expect } from "vitest";
+import { VirtualFileSystem } from "@/lib/file-system";
+import {
+  applyFileOperation,
+  isFileOperation,
+  transformOperation,
+  transformRemoteOperation,
+  undoOperations,
+} from "../operations";
+
+describe("transformOperation", () => {
+  test("follows a concurrent rename", () => {
+    expect(
+      transformOperation(
+        { type: "update", path: "/components/Button.jsx", content: "x" },
+        { type: "rename", path: "/components", newPath: "/ui" }
+      )
+    ).toEqual({ type: "update", path: "/ui/Button.jsx", content: "x" });
+  });
+
+  test("drops a rename of something already renamed", () => {
+    expect(
+      transformOperation(
+        { type: "rename", path: "/App.jsx", newPath: "/Main.jsx" },
+        { type: "rename", path: "/App.jsx", newPath: "/Root.jsx" }
+      )
+    ).toBeNull();
+  });
+
+  test("drops changes inside a deleted path", () => {
+    expect(
+      transformOperation(
+        { type: "update", path: "/App.jsx", content: "x" },
+        { type: "delete", path: "/App.jsx" }
+      )
+    ).toBeNull();
+    expect(
+      transformOperation(
+        { type: "create", path: "/components/Card.jsx", content: "" },
+        { type: "delete", path: "/components" }
+      )
+    ).toBeNull();
+  });
+
+  test("allows recreating a deleted file", () => {
+    const op = { type: "create" as const, path: "/App.jsx", content: "" };
+    expect(transformOperation(op, { type: "delete", path: "/App.jsx" })).toBe(op);
+  });
+
+  test("keeps both writes to the same file so the later one wins", () => {
+    const op = { type: "update" as const, path: "/App.jsx", content: "mine" };
+    expect(
+      transformOperation(op, { type: "update", path: "/App.jsx", content: "theirs" })
+    ).toBe(op);
+  });
+
+  test("drops everything but replaces after a replace", () => {
+    const replace = { type: "replace" as const, data: {} };
+    expect(
+      transformOperation({ type: "delete", path: "/App.jsx" }, replace)
+    ).toBeNull();
+    expect(
+      transformOperation(replace, { type: "delete", path: "/App.jsx" })
+    ).toBe(replace);
+  });
+});
+
+describe("transformRemoteOperation", () => {
+  test("skips a remote write the pending local write overrides", () => {
+    expect(
+      transformRemoteOperation(
+        { type: "update", path: "/App.jsx", content: "theirs" },
+        { type: "update", path: "/App.jsx", content: "mine" }
+      )
+    ).toBeNull();
+  });
+
+  test("moves a remote write along with a pending local rename", () => {
+    expect(
+      transformRemoteOperation(
+        { type: "update", path: "/App.jsx", content: "theirs" },
+        { type: "rename", path: "/App.jsx", newPath: "/Main.jsx" }
+      )
+    ).toEqual({ type: "update", path: "/Main.jsx", content: "theirs" });
+  });
+
+  test("skips remote changes to a locally deleted path", () => {
+    expect(
+      transformRemoteOperation(
+        { type: "update", path: "/lib/a.js", content: "" },
+        { type: "delete", path: "/lib" }
+      )
+    ).toBeNull();
+  });
+
+  test("leaves unrelated operations alone", () => {
+    const remote = { type: "delete" as const, path: "/b.js" };
+    expect(
+      transformRemoteOperation(remote, { type: "delete", path: "/a.js" })
+    ).toBe(remote);
+  });
+});
+
+describe("applyFileOperation", () => {
+  test("applies each kind of operation", () => {
+    const fs = new VirtualFileSystem();
+
+    expect(
+      applyFileOperation(fs, { type: "create", path: "/a.js", content: "1" })
+    ).toBe(true);
+    // Creating an existing file overwrites it
+    expect(
+      applyFileOperation(fs, { type: "create", path: "/a.js", content: "2" })
+    ).toBe(true);
+    expect(fs.readFile("/a.js")).toBe("2");
+
+    expect(
+      applyFileOperation(fs, { type: "rename", path: "/a.js", newPath: "/b.js" })
+    ).toBe(true);
+    expect(
+      applyFileOperation(fs, { type: "update", path: "/b.js", content: "3" })
+    ).toBe(true);
+    expect(fs.readFile("/b.js")).toBe("3");
+
+    expect(applyFileOperation(fs, { type: "delete", path: "/b.js" })).toBe(true);
+    expect(fs.exists("/b.js")).toBe(false);
+  });
+
+  test("reports operations that do not fit", () => {
+    const fs = new VirtualFileSystem();
+    fs.createFile("/a.js", "");
+    fs.createFile("/b.js", "");
+
+    expect(
+      applyFileOperation(fs, { type: "rename", path: "/a.js", newPath: "/b.js" })
+    ).toBe(false);
+    expect(applyFileOperation(fs, { type: "delete", path: "/c.js" })).toBe(false);
+  });
+
+  test("leaves remote changes out of the local history", () => {
+    const fs = new VirtualFileSystem();
+    fs.createFileWithParents("/a.js", "1");
+    fs.createFileWithParents("/b.js", "2");
+
+    applyFileOperation(fs, { type: "rename", path: "/a.js", newPath: "/c.js" });
+    applyFileOperation(fs, { type: "delete", path: "/b.js" });
+
+    // Local edits follow the file and are dropped with it
+    expect(fs.getHistory("/c.js").map((e) => e.command)).toEqual(["create"]);
+    expect(fs.getHistory("/b.js")).toEqual([]);
+  });
+});
+
+describe("isFileOperation", () => {
+  test("accepts well-formed operations", () => {
+    const fs = new VirtualFileSystem();
+    fs.createFile("/a.js", "1");
+
+    expect(isFileOperation({ type: "create", path: "/a.js", content: "" })).toBe(true);
+    expect(isFileOperation({ type: "rename", path: "/a.js", newPath: "/b.js" })).toBe(true);
+    expect(isFileOperation({ type: "delete", path: "/a.js" })).toBe(true);
+    expect(isFileOperation({ type: "replace", data: fs.serialize() })).toBe(true);
+  });
+
+  test("rejects operations of the wrong shape", () => {
+    expect(isFileOperation(null)).toBe(false);
+    expect(isFileOperation({ type: "update", content: "1" })).toBe(false);
+    expect(isFileOperation({ type: "update", path: "/a.js", content: 1 })).toBe(false);
+    expect(isFileOperation({ type: "rename", path: "/a.js" })).toBe(false);
+    expect(isFileOperation({ type: "chmod", path: "/a.js" })).toBe(false);
+    expect(isFileOperation({ type: "replace", data: [] })).toBe(false);
+    expect(
+      isFileOperation({ type: "replace", data: { "/a.js": { type: "link" } } })
+    ).toBe(false);
+  });
+});
+
+describe("undoOperations", () => {
+  test("replays each kind of undo", () => {
+    const fs = new VirtualFileSystem();
+    fs.createFileWithParents("/a.js", "1");
+    fs.replaceInFile("/a.js", "1", "2");
+    fs.rename("/a.js", "/b.js");
+    fs.createFileWithParents("/src/c.js", "c");
+    fs.deleteFile("/src");
+
+    const undo = (path: string) => {
+      const entry = fs.getHistory(path).pop()!;
+      fs.undoEdit(path);
+      return undoOperations(fs, entry);
+    };
+
+    expect(undo("/src")).toEqual([
+      { type: "create", path: "/src/c.js", content: "c" },
+    ]);
+    expect(undo("/b.js")).toEqual([
+      { type: "rename", path: "/b.js", newPath: "/a.js" },
+    ]);
+    expect(undo("/a.js")).toEqual([
+      { type: "update", path: "/a.js", content: "1" },
+    ]);
+    expect(undo("/a.js")).toEqual([{ type: "delete", path: "/a.js" }]);
+  });
+});
@@ -0,0 +1,144 @@
+import type { FileNode } from "@/lib/file-system";
+import {
+  FileOperation,
+  transformOperation,
+  transformRemoteOperation,
+} from "@/lib/collab/operations";
+import type { CollabEvent, SubmitResult } from "@/lib/collab/protocol";
+
+interface PendingOperation {
+  opId: string;
+  op: FileOperation;
+  // Accepted by the server but not echoed back on the stream yet
+  accepted: boolean;
+}
+
+export interface CollabClientOptions {
+  clientId: string;
+  submit: (opId: string, baseSeq: number, op: FileOperation) => Promise<SubmitResult>;
+  // Applies an operation from another session without broadcasting it again
+  applyRemote: (op: FileOperation) => boolean;
+  onConflict?: (op: FileOperation) => void;
+}
+
+/**
+ * Client half of the sync channel. Local operations are applied right away
+ * and sent one at a time; until the server echoes them back they are kept
+ * pending, and remote operations are transformed past them before applying.
+ */
+export class CollabClient {
+  private seq = -1;
+  private pending: PendingOperation[] = [];
+  private inFlight: PendingOperation | null = null;
+  private nextOpId = 0;
+  // Tells responses to an earlier send apart after a resync resent the op
+  private sendCount = 0;
+
+  constructor(private options: CollabClientOptions) {}
+
+  pushLocal(op: FileOperation): void {
+    // Typing produces an update per keystroke; only the latest unsent one matters
+    const last = this.pending[this.pending.length - 1];
+    if (
+      last &&
+      last !== this.inFlight &&
+      !last.accepted &&
+      last.op.type === "update" &&
+      op.type === "update" &&
+      last.op.path === op.path
+    ) {
+      last.op = op;
+      return;
+    }
+
+    this.pending.push({
+      opId: `${this.options.clientId}:${this.nextOpId++}`,
+      op,
+      accepted: false,
+    });
+    this.flush();
+  }
+
+  handleEvent(event: CollabEvent): void {
+    switch (event.type) {
+      case "snapshot":
+        this.resync(event.seq, event.data);
+        break;
+
+      case "op": {
+        if (event.seq <= this.seq) return;
+        this.seq = event.seq;
+
+        if (event.clientId === this.options.clientId) {
+          this.pending = this.pending.filter((item) => item.opId !== event.opId);
+          return;
+        }
+
+        let remote: FileOperation | null = event.op;
+        for (const item of this.pending) {
+          const local = item.op;
+          // Conflicting local operations stay as they are; the server
+          // rejects them and the resync that follows settles the state
+          item.op = transformOperation(local, remote) ?? local;
+          remote = transformRemoteOperation(remote, local);
+          if (!remote) break;
+        }
+        if (remote) {
+          this.options.applyRemote(remote);
+        }
+        break;
+      }
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.inFlight || this.seq < 0) return;
+
+    const next = this.pending.find((item) => !item.accepted);
+    if (!next) return;
+
+    this.inFlight = next;
+    const attempt = ++this.sendCount;
+    let result: SubmitResult;
+    try {
+      result = await this.options.submit(next.opId, this.seq, next.op);
+    } catch (error) {
+      // Left pending; it is retried with the next change or after a reconnect
+      console.error("Failed to send file operation:", error);
+      if (attempt === this.sendCount) this.inFlight = null;
+      return;
+    }
+
+    // A resync in the meantime already dealt with this operation
+    if (attempt !== this.sendCount || this.inFlight !== next) return;
+    this.inFlight = null;
+
+    if (result.status === "rejected") {
+      this.pending = this.pending.filter((item) => item !== next);
+      this.options.onConflict?.(next.op);
+      this.resync(result.seq, result.data);
+      return;
+    }
+
+    next.accepted = true;
+    this.flush();
+  }
+
+  /**
+   * Adopts the server's state, then replays local operations it has not seen.
+   * Replays that no longer fit are dropped.
+   */
+  private resync(seq: number, data: Record<string, FileNode>): void {
+    this.seq = seq;
+    this.inFlight = null;
+    this.options.applyRemote({ type: "replace", data });
+
+    this.pending = this.pending.filter((item) =>
+      this.options.applyRemote(item.op)
+    );
+    for (const item of this.pending) {
+      item.accepted = false;
+    }
+    this.flush();
+  }
+}
@@ -0,0 +1,188 @@
+import { VirtualFileSystem, FileNode } from "@/lib/file-system";
+import {
+  FileOperation,
+  SequencedOperation,
+  applyFileOperation,
+  transformOperation,
+} from "@/lib/collab/operations";
+import type { CollabEvent, Peer, SubmitResult } from "@/lib/collab/protocol";
+
+// Operations kept for transforming late submissions; older clients resync
+const MAX_LOG_ENTRIES = 500;
+
+interface RoomClient {
+  send: (event: CollabEvent) => void;
+  peer: Peer;
+}
+
+interface Room {
+  fileSystem: VirtualFileSystem;
+  seq: number;
+  log: SequencedOperation[];
+  clients: Map<string, RoomClient>;
+}
+
+/**
+ * Sequences file operations for every open project. Each project room holds
+ * the authoritative file system for as long as someone has it open; the
+ * database copy is only read when the first session joins.
+ */
+export class CollabHub {
+  private rooms = new Map<string, Room>();
+  private loading = new Map<string, Promise<Room>>();
+
+  async join(
+    projectId: string,
+    peer: Peer,
+    send: (event: CollabEvent) => void,
+    loadData: () => Promise<Record<string, FileNode>>
+  ): Promise<void> {
+    const room = await this.getRoom(projectId, loadData);
+    room.clients.set(peer.clientId, { send, peer });
+
+    send({
+      type: "snapshot",
+      seq: room.seq,
+      data: room.fileSystem.serialize(),
+    });
+    this.broadcastPresence(room);
+  }
+
+  // `send` identifies the connection, so a stale stream closing after a
+  // reconnect does not remove the new one
+  leave(
+    projectId: string,
+    clientId: string,
+    send: (event: CollabEvent) => void
+  ): void {
+    const room = this.rooms.get(projectId);
+    if (!room || room.clients.get(clientId)?.send !== send) return;
+
+    room.clients.delete(clientId);
+
+    if (room.clients.size === 0) {
+      this.rooms.delete(projectId);
+    } else {
+      this.broadcastPresence(room);
+    }
+  }
+
+  getPeer(projectId: string, clientId: string): Peer | null {
+    return this.rooms.get(projectId)?.clients.get(clientId)?.peer ?? null;
+  }
+
+  submit(
+    projectId: string,
+    clientId: string,
+    opId: string,
+    baseSeq: number,
+    op: FileOperation
+  ): SubmitResult {
+    const room = this.rooms.get(projectId);
+    if (!room) {
+      throw new Error("Not connected");
+    }
+
+    const transformed = this.transform(room, clientId, baseSeq, op);
+    if (!transformed || !applyFileOperation(room.fileSystem, transformed)) {
+      return {
+        status: "rejected",
+        seq: room.seq,
+        data: room.fileSystem.serialize(),
+      };
+    }
+
+    const entry: SequencedOperation = {
+      seq: ++room.seq,
+      clientId,
+      opId,
+      op: transformed,
+    };
+    room.log.push(entry);
+    if (room.log.length > MAX_LOG_ENTRIES) {
+      room.log.shift();
+    }
+
+    for (const client of Array.from(room.clients.values())) {
+      client.send({ type: "op", ...entry });
+    }
+    return { status: "accepted", seq: entry.seq };
+  }
+
+  updatePresence(
+    projectId: string,
+    clientId: string,
+    selectedFile: string | null
+  ): void {
+    const room = this.rooms.get(projectId);
+    const client = room?.clients.get(clientId);
+    if (!room || !client) return;
+
+    client.peer = { ...client.peer, selectedFile };
+    this.broadcastPresence(room);
+  }
+
+  private async getRoom(
+    projectId: string,
+    loadData: () => Promise<Record<string, FileNode>>
+  ): Promise<Room> {
+    const existing = this.rooms.get(projectId);
+    if (existing) return existing;
+
+    // Sessions joining while the project loads share the same room
+    let pending = this.loading.get(projectId);
+    if (!pending) {
+      pending = loadData()
+        .then((data) => {
+          const fileSystem = new VirtualFileSystem();
+          fileSystem.deserializeFromNodes(data);
+          const room: Room = {
+            fileSystem,
+            seq: 0,
+            log: [],
+            clients: new Map(),
+          };
+          this.rooms.set(projectId, room);
+          return room;
+        })
+        .finally(() => this.loading.delete(projectId));
+      this.loading.set(projectId, pending);
+    }
+    return pending;
+  }
+
+  // Runs the operation past everything other sessions did since baseSeq
+  private transform(
+    room: Room,
+    clientId: string,
+    baseSeq: number,
+    op: FileOperation
+  ): FileOperation | null {
+    const oldestSeq = room.log[0]?.seq ?? room.seq + 1;
+    if (baseSeq < oldestSeq - 1) return null;
+
+    let transformed: FileOperation | null = op;
+    for (const entry of room.log) {
+      if (entry.seq <= baseSeq || entry.clientId === clientId) continue;
+      transformed = transformOperation(transformed, entry.op);
+      if (!transformed) return null;
+    }
+    return transformed;
+  }
+
+  private broadcastPresence(room: Room): void {
+    const peers = Array.from(room.clients.values(), (client) => client.peer);
+    for (const client of Array.from(room.clients.values())) {
+      client.send({ type: "presence", peers });
+    }
+  }
+}
+
+// Survives hot reloads in development, like the Prisma client
+const globalForCollab = globalThis as unknown as {
+  collabHub: CollabHub | undefined;
+};
+
+export const collabHub = globalForCollab.collabHub ?? new CollabHub();
+
+if (process.env.NODE_ENV !== "production") globalForCollab.collabHub = collabHub;
@@ -0,0 +1,193 @@
+import type {
+  FileHistoryEntry,
+  FileNode,
+  VirtualFileSystem,
+} from "@/lib/file-system";
+
+/**
+ * A change to the virtual file system that can be replayed in another
+ * browser session. Updates carry the whole file, so concurrent edits of one
+ * file resolve to whichever the server sequenced last.
+ */
+export type FileOperation =
+  | { type: "create"; path: string; content: string }
+  | { type: "update"; path: string; content: string }
+  | { type: "rename"; path: string; newPath: string }
+  | { type: "delete"; path: string }
+  // Whole-tree changes such as restoring a version or resetting
+  | { type: "replace"; data: Record<string, FileNode> };
+
+export interface SequencedOperation {
+  seq: number;
+  clientId: string;
+  opId: string;
+  op: FileOperation;
+}
+
+function isFileNode(value: unknown): value is FileNode {
+  if (!value || typeof value !== "object") return false;
+
+  const { type, path, content } = value as Partial<FileNode>;
+  return (
+    (type === "file" || type === "directory") &&
+    typeof path === "string" &&
+    (content === undefined || typeof content === "string")
+  );
+}
+
+/**
+ * Checks an operation received from a client before it is applied and
+ * broadcast to the other sessions.
+ */
+export function isFileOperation(value: unknown): value is FileOperation {
+  if (!value || typeof value !== "object") return false;
+
+  const op = value as Record<string, unknown>;
+  switch (op.type) {
+    case "create":
+    case "update":
+      return typeof op.path === "string" && typeof op.content === "string";
+    case "rename":
+      return typeof op.path === "string" && typeof op.newPath === "string";
+    case "delete":
+      return typeof op.path === "string";
+    case "replace":
+      return (
+        !!op.data &&
+        typeof op.data === "object" &&
+        !Array.isArray(op.data) &&
+        Object.values(op.data).every(isFileNode)
+      );
+    default:
+      return false;
+  }
+}
+
+function isWithin(path: string, target: string): boolean {
+  return path === target || path.startsWith(target + "/");
+}
+
+function movePath(path: string, from: string, to: string): string {
+  return to + path.slice(from.length);
+}
+
+/**
+ * Rewrites `op` so it can run after `against`, an operation it was not aware
+ * of. Returns null when the two conflict and `op` has to be dropped.
+ */
+export function transformOperation(
+  op: FileOperation,
+  against: FileOperation
+): FileOperation | null {
+  if (op.type === "replace") return op;
+  if (against.type === "replace") return null;
+
+  if (against.type === "rename" && isWithin(op.path, against.path)) {
+    // Both sides moved the same file; the first rename wins
+    if (op.type === "rename") return null;
+    return { ...op, path: movePath(op.path, against.path, against.newPath) };
+  }
+
+  if (against.type === "delete" && isWithin(op.path, against.path)) {
+    // Editing, moving or recreating something inside a deleted folder
+    if (op.type !== "create" || op.path !== against.path) return null;
+  }
+
+  return op;
+}
+
+/**
+ * The mirror of transformOperation for the client: rewrites a `remote`
+ * operation the server ordered before a `local` one that is already applied
+ * here but not yet confirmed. Returns null when the local one supersedes it.
+ */
+export function transformRemoteOperation(
+  remote: FileOperation,
+  local: FileOperation
+): FileOperation | null {
+  if (remote.type === "replace") return remote;
+  if (local.type === "replace") return null;
+
+  if (local.type === "rename" && isWithin(remote.path, local.path)) {
+    // The server rejects our rename in this case and we resync then
+    if (remote.type === "rename") return remote;
+    return { ...remote, path: movePath(remote.path, local.path, local.newPath) };
+  }
+
+  if (local.type === "delete" && isWithin(remote.path, local.path)) {
+    return null;
+  }
+
+  // Our write to the same file lands after theirs
+  if (
+    (local.type === "create" || local.type === "update") &&
+    (remote.type === "create" || remote.type === "update") &&
+    remote.path === local.path
+  ) {
+    return null;
+  }
+
+  return remote;
+}
+
+/**
+ * Applies an operation to a file system. Returns false when it does not fit
+ * the current state, e.g. renaming onto an existing path.
+ */
+export function applyFileOperation(
+  fileSystem: VirtualFileSystem,
+  op: FileOperation
+): boolean {
+  switch (op.type) {
+    case "create":
+    case "update":
+      if (fileSystem.getNode(op.path)?.type === "file") {
+        return fileSystem.updateFile(op.path, op.content);
+      }
+      return fileSystem.createFile(op.path, op.content) !== null;
+
+    case "rename":
+      return fileSystem.rename(op.path, op.newPath, { recordHistory: false });
+
+    case "delete":
+      return fileSystem.deleteFile(op.path, { recordHistory: false });
+
+    case "replace":
+      fileSystem.deserializeFromNodes(op.data);
+      return true;
+  }
+}
+
+/**
+ * The operations that replay an undo of `entry` in another session, read
+ * after the undo has been applied to `fileSystem`.
+ */
+export function undoOperations(
+  fileSystem: VirtualFileSystem,
+  entry: FileHistoryEntry
+): FileOperation[] {
+  switch (entry.command) {
+    case "create":
+      return [{ type: "delete", path: entry.path }];
+
+    case "str_replace":
+    case "insert":
+      return [
+        {
+          type: "update",
+          path: entry.path,
+          content: fileSystem.readFile(entry.path) ?? "",
+        },
+      ];
+
+    case "rename":
+      return [
+        { type: "rename", path: entry.path, newPath: entry.previousPath! },
+      ];
+
+    case "delete":
+      return Object.entries(entry.deletedFiles || {}).map(
+        ([path, content]) => ({ type: "create", path, content })
+      );
+  }
+}
@@ -0,0 +1,53 @@
+import type { FileNode } from "@/lib/file-system";
+import type { FileOperation, SequencedOperation } from "@/lib/collab/operations";
+
+export interface Peer {
+  clientId: string;
+  userId: string;
+  name: string;
+  selectedFile: string | null;
+}
+
+// Server-sent events on /api/collab/[projectId]
+export type CollabEvent =
+  | { type: "snapshot"; seq: number; data: Record<string, FileNode> }
+  | ({ type: "op" } & SequencedOperation)
+  | { type: "presence"; peers: Peer[] };
+
+// Bodies POSTed to /api/collab/[projectId]
+export type CollabRequest =
+  | {
+      type: "op";
+      clientId: string;
+      opId: string;
+      baseSeq: number;
+      op: FileOperation;
+    }
+  | { type: "presence"; clientId: string; selectedFile: string | null };
+
+// Response to an operation; a rejection carries the state to resync to
+export type SubmitResult =
+  | { status: "accepted"; seq: number }
+  | { status: "rejected"; seq: number; data: Record<string, FileNode> };
+
+const PEER_COLORS = [
+  "bg-rose-500",
+  "bg-amber-500",
+  "bg-emerald-500",
+  "bg-sky-500",
+  "bg-violet-500",
+  "bg-fuchsia-500",
+];
+
+// Stable per session, so a collaborator keeps their color across files
+export function getPeerColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+export function getPeerInitial(peer: Peer): string {
+  return (peer.name.trim()[0] || "?").toUpperCase();
+}
@@ -0,0 +1,232 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import {
+  AutosaveProvider,
+  useAutosave,
+  getSnapshotKey,
+  AUTOSAVE_DELAY_MS,
+} from "../autosave-context";
+import { FileSystemProvider, useFileSystem } from "../file-system-context";
+import { useChat } from "../chat-context";
+import { saveProjectData } from "@/actions/save-project-data";
+
+vi.mock("../chat-context", () => ({
+  useChat: vi.fn(),
+}));
+
+vi.mock("@/actions/save-project-data", () => ({
+  saveProjectData: vi.fn(),
+}));
+
+const initialData = {
+  "/": { type: "directory", name: "", path: "/" },
+  "/App.jsx": {
+    type: "file",
+    name: "App.jsx",
+    path: "/App.jsx",
+    content: "export default () => <div>v1</div>;",
+  },
+};
+const initialUpdatedAt = new Date("2026-10-01T00:00:00Z");
+
+function renderAutosave(enabled = true) {
+  return renderHook(
+    () => ({ autosave: useAutosave(), files: useFileSystem() }),
+    {
+      wrapper: ({ children }) => (
+        <FileSystemProvider initialData={initialData}>
+          <AutosaveProvider
+            projectId="project-1"
+            initialUpdatedAt={initialUpdatedAt}
+            enabled={enabled}
+          >
+            {children}
+          </AutosaveProvider>
+        </FileSystemProvider>
+      ),
+    }
+  );
+}
+
+async function flushSave() {
+  await act(async () => {
+    await vi.advanceTimersByTimeAsync(AUTOSAVE_DELAY_MS);
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers();
+  (useChat as any).mockReturnValue({ status: "ready" });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+describe("getSnapshotKey", () => {
+  test("ignores the order files were added in", () => {
+    const a = { "/a.js": { type: "file", content: "a" }, "/b.js": { type: "file", content: "b" } };
+    const b = { "/b.js": { type: "file", content: "b" }, "/a.js": { type: "file", content: "a" } };
+    expect(getSnapshotKey(a as any)).toBe(getSnapshotKey(b as any));
+  });
+
+  test("differs when content differs", () => {
+    const a = { "/a.js": { type: "file", content: "a" } };
+    const b = { "/a.js": { type: "file", content: "b" } };
+    expect(getSnapshotKey(a as any)).not.toBe(getSnapshotKey(b as any));
+  });
+});
+
+describe("AutosaveProvider", () => {
+  test("starts out saved", () => {
+    const { result } = renderAutosave();
+    expect(result.current.autosave.status).toBe("saved");
+  });
+
+  test("saves edits after a pause", async () => {
+    const savedAt = new Date("2026-10-02T00:00:00Z");
+    (saveProjectData as any).mockResolvedValue({ status: "saved", updatedAt: savedAt });
+    const { result } = renderAutosave();
+
+    act(() => {
+      result.current.files.updateFile("/App.jsx", "export default () => <div>v2</div>;");
+    });
+    expect(result.current.autosave.status).toBe("dirty");
+    expect(saveProjectData).not.toHaveBeenCalled();
+
+    await flushSave();
+
+    expect(saveProjectData).toHaveBeenCalledTimes(1);
+    const [projectId, data, base] = (saveProjectData as any).mock.calls[0];
+    expect(projectId).toBe("project-1");
+    expect(data["/App.jsx"].content).toContain("v2");
+    expect(base).toEqual(initialUpdatedAt);
+    expect(result.current.autosave.status).toBe("saved");
+    expect(result.current.autosave.lastSavedAt).toEqual(savedAt);
+  });
+
+  test("uses the last saved timestamp as the next base", async () => {
+    const savedAt = new Date("2026-10-02T00:00:00Z");
+    (saveProjectData as any).mockResolvedValue({ status: "saved", updatedAt: savedAt });
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    await flushSave();
+    act(() => result.current.files.updateFile("/App.jsx", "v3"));
+    await flushSave();
+
+    expect((saveProjectData as any).mock.calls[1][2]).toEqual(savedAt);
+  });
+
+  test("does not save while the model is generating", async () => {
+    (useChat as any).mockReturnValue({ status: "streaming" });
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    await flushSave();
+
+    expect(saveProjectData).not.toHaveBeenCalled();
+  });
+
+  test("does nothing when disabled", async () => {
+    const { result } = renderAutosave(false);
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    await flushSave();
+
+    expect(saveProjectData).not.toHaveBeenCalled();
+  });
+
+  test("reverts to the last saved files", () => {
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    act(() => result.current.autosave.revert());
+
+    expect(result.current.files.getFileContent("/App.jsx")).toContain("v1");
+    expect(result.current.autosave.status).toBe("saved");
+  });
+
+  test("reports a conflict when the project changed elsewhere", async () => {
+    const otherAt = new Date("2026-10-03T00:00:00Z");
+    const otherData = {
+      ...initialData,
+      "/App.jsx": { ...initialData["/App.jsx"], content: "theirs" },
+    };
+    (saveProjectData as any).mockResolvedValue({
+      status: "conflict",
+      updatedAt: otherAt,
+      data: otherData,
+    });
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "mine"));
+    await flushSave();
+
+    expect(result.current.autosave.status).toBe("conflict");
+
+    act(() => result.current.autosave.loadLatest());
+    expect(result.current.files.getFileContent("/App.jsx")).toBe("theirs");
+    expect(result.current.autosave.status).toBe("saved");
+  });
+
+  test("overwrites the stored version on request", async () => {
+    const otherAt = new Date("2026-10-03T00:00:00Z");
+    (saveProjectData as any).mockResolvedValueOnce({
+      status: "conflict",
+      updatedAt: otherAt,
+      data: {
+        ...initialData,
+        "/App.jsx": { ...initialData["/App.jsx"], content: "theirs" },
+      },
+    });
+    (saveProjectData as any).mockResolvedValueOnce({
+      status: "saved",
+      updatedAt: new Date("2026-10-04T00:00:00Z"),
+    });
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "mine"));
+    await flushSave();
+    await act(() => result.current.autosave.overwrite());
+
+    expect((saveProjectData as any).mock.calls[1][2]).toEqual(otherAt);
+    expect(result.current.files.getFileContent("/App.jsx")).toBe("mine");
+    expect(result.current.autosave.status).toBe("saved");
+  });
+
+  test("retries silently when only the timestamp moved", async () => {
+    const chatAt = new Date("2026-10-03T00:00:00Z");
+    (saveProjectData as any).mockResolvedValueOnce({
+      status: "conflict",
+      updatedAt: chatAt,
+      data: initialData,
+    });
+    (saveProjectData as any).mockResolvedValueOnce({
+      status: "saved",
+      updatedAt: new Date("2026-10-04T00:00:00Z"),
+    });
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    await flushSave();
+
+    expect(saveProjectData).toHaveBeenCalledTimes(2);
+    expect((saveProjectData as any).mock.calls[1][2]).toEqual(chatAt);
+    expect(result.current.autosave.status).toBe("saved");
+  });
+
+  test("shows an error when saving fails", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    (saveProjectData as any).mockRejectedValue(new Error("Network down"));
+    const { result } = renderAutosave();
+
+    act(() => result.current.files.updateFile("/App.jsx", "v2"));
+    await flushSave();
+
+    expect(result.current.autosave.status).toBe("error");
+    consoleError.mockRestore();
+  });
+});
@@ -1,9 +1,14 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
 import { render, screen, waitFor, act, cleanup } from "@testing-library/react";
-import { ChatProvider, useChat } from "../chat-context";
+import {
+  ChatProvider,
+  useChat,
+  MAX_AUTO_FIX_ATTEMPTS,
+} from "../chat-context";
 import { useFileSystem } from "../file-system-context";
 import { useChat as useAIChat } from "@ai-sdk/react";
 import * as anonTracker from "@/lib/anon-work-tracker";
+import { updateProjectModel } from "@/actions/update-project-model";
 
 // Mock dependencies
 vi.mock("../file-system-context", () => ({
@@ -18,6 +23,10 @@ vi.mock("@/lib/anon-work-tracker", () => ({
   setHasAnonWork: vi.fn(),
 }));
 
+vi.mock("@/actions/update-project-model", () => ({
+  updateProjectModel: vi.fn(() => Promise.resolve()),
+}));
+
 // Helper component to access chat context
 function TestComponent() {
   const chat = useChat();
@@ -33,6 +42,61 @@ function TestComponent() {
         <button type="submit">Submit</button>
       </form>
       <div data-testid="status">{chat.status}</div>
+      <button onClick={() => chat.setAutoFix(true)}>Enable auto-fix</button>
+      <button
+        onClick={() =>
+          chat.setPreviewErrors([
+            { kind: "runtime", message: "TypeError: items is undefined" },
+          ])
+        }
+      >
+        Report error
+      </button>
+      <div data-testid="attempts">{chat.autoFixAttempts}</div>
+      <div data-testid="model">{chat.model ?? "default"}</div>
+      <button onClick={() => chat.setModel("ollama/llama3.1")}>
+        Use Ollama
+      </button>
+      <button
+        onClick={() =>
+          chat.setSelectedElement({
+            source: { path: "/App.jsx", line: 2, column: 10 },
+            tagName: "button",
+          })
+        }
+      >
+        Pick element
+      </button>
+      <button
+        onClick={() =>
+          chat.setAttachments([
+            { name: "a.png", contentType: "image/png", url: "data:image/png;base64,YQ==" },
+          ])
+        }
+      >
+        Attach image
+      </button>
+      <div data-testid="attachments">{chat.attachments.length}</div>
+      <button
+        onClick={() =>
+          chat.setA11yIssues([
+            {
+              rule: "image-alt",
+              impact: "critical",
+              message: "Image has no alt text",
+              tagName: "img",
+              html: '<img src="/logo.png">',
+              source: { path: "/App.jsx", line: 4, column: 7 },
+            },
+          ])
+        }
+      >
+        Report a11y issue
+      </button>
+      <button onClick={chat.requestA11yFix}>Fix a11y issues</button>
+      <div data-testid="selected">
+        {chat.selectedElement ? chat.selectedElement.tagName : "none"}
+      </div>
     </div>
   );
 }
@@ -40,6 +104,7 @@ function TestComponent() {
 describe("ChatContext", () => {
   const mockFileSystem = {
     serialize: vi.fn(() => ({ "/test.js": { type: "file", content: "test" } })),
+    serializeHistory: vi.fn(() => ({})),
   };
 
   const mockHandleToolCall = vi.fn();
@@ -101,7 +166,9 @@ describe("ChatContext", () => {
       initialMessages,
       body: {
         files: mockFileSystem.serialize(),
+        history: mockFileSystem.serializeHistory(),
         projectId: "test-project",
+        model: null,
       },
       onToolCall: expect.any(Function),
     });
@@ -196,4 +263,334 @@ describe("ChatContext", () => {
 
     expect(mockHandleToolCall).toHaveBeenCalledWith(toolCall);
   });
+
+  test("sends the project's saved model with each request", () => {
+    render(
+      <ChatProvider projectId="test-project" initialModel="anthropic/claude-haiku-4-5">
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    expect(screen.getByTestId("model").textContent).toBe(
+      "anthropic/claude-haiku-4-5"
+    );
+    expect((useAIChat as any).mock.calls[0][0].body.model).toBe(
+      "anthropic/claude-haiku-4-5"
+    );
+  });
+
+  test("saves a newly picked model on the project", async () => {
+    render(
+      <ChatProvider projectId="test-project">
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    await act(async () => {
+      screen.getByText("Use Ollama").click();
+    });
+
+    expect(screen.getByTestId("model").textContent).toBe("ollama/llama3.1");
+    expect(updateProjectModel).toHaveBeenCalledWith(
+      "test-project",
+      "ollama/llama3.1"
+    );
+  });
+
+  test("keeps the picked model locally without a project", async () => {
+    render(
+      <ChatProvider>
+        <TestComponent />
+      </ChatProvider>
+    );
+
+    await act(async () => {
+      screen.getByText("Use Ollama").click();
+    });
+
+    expect(screen.getByTestId("model").textContent).toBe("ollama/llama3.1");
+    expect(updateProjectModel).not.toHaveBeenCalled();
+  });
+
+  describe("auto-fix", () => {
+    const mockAppend = vi.fn();
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      localStorage.clear();
+      (useAIChat as any).mockReturnValue({
+        ...mockUseAIChat,
+        status: "ready",
+        append: mockAppend,
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const renderAndSubmit = async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByTestId("form").dispatchEvent(
+          new Event("submit", { bubbles: true, cancelable: true })
+        );
+      });
+    };
+
+    test("sends preview errors to the model when enabled", async () => {
+      await renderAndSubmit();
+
+      await act(async () => {
+        screen.getByText("Enable auto-fix").click();
+        screen.getByText("Report error").click();
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(mockAppend).toHaveBeenCalledTimes(1);
+      expect(mockAppend.mock.calls[0][0].role).toBe("user");
+      expect(mockAppend.mock.calls[0][0].content).toContain(
+        "[runtime]: TypeError: items is undefined"
+      );
+      expect(screen.getByTestId("attempts").textContent).toBe("1");
+      expect(localStorage.getItem("uigen_auto_fix")).toBe("true");
+    });
+
+    test("does nothing while auto-fix is off", async () => {
+      await renderAndSubmit();
+
+      await act(async () => {
+        screen.getByText("Report error").click();
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(mockAppend).not.toHaveBeenCalled();
+    });
+
+    test("ignores errors before the user has sent a message", async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Enable auto-fix").click();
+        screen.getByText("Report error").click();
+      });
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(2000);
+      });
+
+      expect(mockAppend).not.toHaveBeenCalled();
+    });
+
+    test("stops after the maximum number of attempts", async () => {
+      await renderAndSubmit();
+
+      await act(async () => {
+        screen.getByText("Enable auto-fix").click();
+        screen.getByText("Report error").click();
+      });
+      for (let i = 0; i < MAX_AUTO_FIX_ATTEMPTS + 2; i++) {
+        await act(async () => {
+          await vi.advanceTimersByTimeAsync(2000);
+        });
+      }
+
+      expect(mockAppend).toHaveBeenCalledTimes(MAX_AUTO_FIX_ATTEMPTS);
+      expect(screen.getByTestId("attempts").textContent).toBe(
+        String(MAX_AUTO_FIX_ATTEMPTS)
+      );
+    });
+  });
+
+  describe("selected element", () => {
+    const mockAppend = vi.fn();
+    const mockSetInput = vi.fn();
+
+    const submit = async () => {
+      await act(async () => {
+        screen.getByTestId("form").dispatchEvent(
+          new Event("submit", { bubbles: true, cancelable: true })
+        );
+      });
+    };
+
+    beforeEach(() => {
+      (useFileSystem as any).mockReturnValue({
+        fileSystem: {
+          ...mockFileSystem,
+          readFile: vi.fn(() =>
+            "export default function App() {\n  return <button>Save</button>;\n}"
+          ),
+        },
+        handleToolCall: mockHandleToolCall,
+      });
+      (useAIChat as any).mockReturnValue({
+        ...mockUseAIChat,
+        input: "Make it red",
+        append: mockAppend,
+        setInput: mockSetInput,
+      });
+    });
+
+    test("sends the picked element with the next message", async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Pick element").click();
+      });
+      expect(screen.getByTestId("selected").textContent).toBe("button");
+
+      await submit();
+
+      expect(mockUseAIChat.handleSubmit).not.toHaveBeenCalled();
+      expect(mockAppend).toHaveBeenCalledTimes(1);
+      const { role, content } = mockAppend.mock.calls[0][0];
+      expect(role).toBe("user");
+      expect(content).toContain("Source: /App.jsx:2:10");
+      expect(content).toContain("Code: return <button>Save</button>;");
+      expect(content.endsWith("Make it red")).toBe(true);
+      expect(mockSetInput).toHaveBeenCalledWith("");
+      expect(screen.getByTestId("selected").textContent).toBe("none");
+    });
+
+    test("sends attachments along with the picked element", async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Pick element").click();
+        screen.getByText("Attach image").click();
+      });
+      await submit();
+
+      expect(mockAppend.mock.calls[0][1]).toEqual({
+        experimental_attachments: [
+          { name: "a.png", contentType: "image/png", url: "data:image/png;base64,YQ==" },
+        ],
+      });
+      expect(screen.getByTestId("attachments").textContent).toBe("0");
+    });
+
+    test("submits normally without a picked element", async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await submit();
+
+      expect(mockUseAIChat.handleSubmit).toHaveBeenCalledTimes(1);
+      expect(mockAppend).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("attachments", () => {
+    test("sends attachments with the next message", async () => {
+      (useAIChat as any).mockReturnValue({ ...mockUseAIChat, input: "Build this" });
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Attach image").click();
+      });
+      expect(screen.getByTestId("attachments").textContent).toBe("1");
+
+      await act(async () => {
+        screen.getByTestId("form").dispatchEvent(
+          new Event("submit", { bubbles: true, cancelable: true })
+        );
+      });
+
+      expect(mockUseAIChat.handleSubmit).toHaveBeenCalledWith(expect.anything(), {
+        experimental_attachments: [
+          { name: "a.png", contentType: "image/png", url: "data:image/png;base64,YQ==" },
+        ],
+      });
+      expect(screen.getByTestId("attachments").textContent).toBe("0");
+    });
+
+    test("keeps attachments when the input is empty", async () => {
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Attach image").click();
+      });
+      await act(async () => {
+        screen.getByTestId("form").dispatchEvent(
+          new Event("submit", { bubbles: true, cancelable: true })
+        );
+      });
+
+      expect(screen.getByTestId("attachments").textContent).toBe("1");
+    });
+  });
+
+  describe("accessibility fixes", () => {
+    test("asks the model to fix the reported issues", async () => {
+      const mockAppend = vi.fn();
+      (useAIChat as any).mockReturnValue({ ...mockUseAIChat, append: mockAppend });
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Report a11y issue").click();
+      });
+      await act(async () => {
+        screen.getByText("Fix a11y issues").click();
+      });
+
+      expect(mockAppend).toHaveBeenCalledTimes(1);
+      const { role, content } = mockAppend.mock.calls[0][0];
+      expect(role).toBe("user");
+      expect(content).toContain(
+        '[critical] image-alt /App.jsx:4:7 <img src="/logo.png">: Image has no alt text'
+      );
+    });
+
+    test("does nothing without issues", async () => {
+      const mockAppend = vi.fn();
+      (useAIChat as any).mockReturnValue({ ...mockUseAIChat, append: mockAppend });
+      render(
+        <ChatProvider>
+          <TestComponent />
+        </ChatProvider>
+      );
+
+      await act(async () => {
+        screen.getByText("Fix a11y issues").click();
+      });
+
+      expect(mockAppend).not.toHaveBeenCalled();
+    });
+  });
 });
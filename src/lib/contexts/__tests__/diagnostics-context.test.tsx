@@ -0,0 +1,138 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, act, cleanup } from "@testing-library/react";
+import { DiagnosticsProvider, useDiagnostics } from "../diagnostics-context";
+import { useFileSystem } from "../file-system-context";
+
+vi.mock("../file-system-context", () => ({
+  useFileSystem: vi.fn(),
+}));
+
+const diagnostic = {
+  path: "/App.tsx",
+  line: 1,
+  column: 7,
+  endLine: 1,
+  endColumn: 12,
+  message: "Type 'string' is not assignable to type 'number'.",
+  code: 2322,
+  severity: "error" as const,
+};
+
+function TestComponent() {
+  const { diagnostics, getFileDiagnostics, revealDiagnostic } =
+    useDiagnostics();
+  return (
+    <div>
+      <div data-testid="count">{diagnostics.length}</div>
+      <div data-testid="app-count">
+        {getFileDiagnostics("/App.tsx").length}
+      </div>
+      <button onClick={() => revealDiagnostic(diagnostic)}>Reveal</button>
+    </div>
+  );
+}
+
+describe("DiagnosticsContext", () => {
+  const mockSetSelectedFile = vi.fn();
+  const mockFetch = vi.fn();
+  let files: Map<string, string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", mockFetch);
+
+    files = new Map([["/App.tsx", "const a: number = 'one';"]]);
+    (useFileSystem as any).mockReturnValue({
+      getAllFiles: () => files,
+      refreshTrigger: 0,
+      setSelectedFile: mockSetSelectedFile,
+    });
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ diagnostics: [diagnostic] }),
+    });
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  test("type-checks the files after a pause in edits", async () => {
+    render(
+      <DiagnosticsProvider>
+        <TestComponent />
+      </DiagnosticsProvider>
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "/api/diagnostics",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({
+          files: { "/App.tsx": "const a: number = 'one';" },
+        }),
+      })
+    );
+    expect(screen.getByTestId("count").textContent).toBe("1");
+    expect(screen.getByTestId("app-count").textContent).toBe("1");
+  });
+
+  test("skips the check when there are no TypeScript files", async () => {
+    files = new Map([["/App.jsx", "export default () => null;"]]);
+
+    render(
+      <DiagnosticsProvider>
+        <TestComponent />
+      </DiagnosticsProvider>
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(screen.getByTestId("count").textContent).toBe("0");
+  });
+
+  test("shows no diagnostics for projects too large to check", async () => {
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetch.mockResolvedValue({ ok: false, status: 413 });
+
+    render(
+      <DiagnosticsProvider>
+        <TestComponent />
+      </DiagnosticsProvider>
+    );
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+
+    expect(screen.getByTestId("count").textContent).toBe("0");
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  test("revealing a diagnostic selects its file", async () => {
+    render(
+      <DiagnosticsProvider>
+        <TestComponent />
+      </DiagnosticsProvider>
+    );
+
+    await act(async () => {
+      screen.getByText("Reveal").click();
+    });
+
+    expect(mockSetSelectedFile).toHaveBeenCalledWith("/App.tsx");
+  });
+});
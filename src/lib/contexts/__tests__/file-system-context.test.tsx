@@ -19,6 +19,9 @@ const mockFileSystem = {
   replaceInFile: vi.fn(),
   insertInFile: vi.fn(),
   getNode: vi.fn(),
+  getHistory: vi.fn(() => []),
+  undoEdit: vi.fn(),
+  exists: vi.fn(() => true),
   serialize: vi.fn(() => ({})),
 };
 
@@ -505,4 +508,109 @@ test("handles null file content when updating file", () => {
   });
 
   expect(mockFileSystem.updateFile).not.toHaveBeenCalled();
-});
\ No newline at end of file
+});
+test("handles str_replace_editor undo_edit command", () => {
+  mockFileSystem.undoEdit.mockReturnValue("Reverted last edit to /test.js");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  act(() => {
+    result.current.handleToolCall({
+      toolName: "str_replace_editor",
+      args: { command: "undo_edit", path: "/test.js" },
+    });
+  });
+
+  expect(mockFileSystem.undoEdit).toHaveBeenCalledWith("/test.js");
+  expect(result.current.refreshTrigger).toBe(initialTrigger + 1);
+});
+
+test("undoEdit follows a file back after undoing a rename", () => {
+  mockFileSystem.getHistory.mockReturnValue([
+    { command: "rename", path: "/new.js", previousPath: "/old.js", timestamp: 0 },
+  ] as any);
+  mockFileSystem.undoEdit.mockReturnValue("Renamed /new.js back to /old.js");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  act(() => {
+    result.current.setSelectedFile("/new.js");
+  });
+
+  let success = false;
+  act(() => {
+    success = result.current.undoEdit("/new.js");
+  });
+
+  expect(success).toBe(true);
+  expect(result.current.selectedFile).toBe("/old.js");
+});
+
+test("undoEdit does not refresh when there is nothing to undo", () => {
+  mockFileSystem.undoEdit.mockReturnValue("Error: No edit history found for /test.js");
+
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const initialTrigger = result.current.refreshTrigger;
+
+  let success = true;
+  act(() => {
+    success = result.current.undoEdit("/test.js");
+  });
+
+  expect(success).toBe(false);
+  expect(result.current.refreshTrigger).toBe(initialTrigger);
+});
+
+test("emits operations for local changes but not for remote ones", () => {
+  const { result } = renderHook(() => useFileSystem(), {
+    wrapper: ({ children }) => <FileSystemProvider>{children}</FileSystemProvider>,
+  });
+
+  const listener = vi.fn();
+  act(() => {
+    result.current.subscribeToOperations(listener);
+  });
+
+  mockFileSystem.rename.mockReturnValue(true);
+  act(() => {
+    result.current.updateFile("/App.jsx", "next");
+    result.current.renameFile("/App.jsx", "/Main.jsx");
+  });
+
+  expect(listener).toHaveBeenCalledWith({
+    type: "update",
+    path: "/App.jsx",
+    content: "next",
+  });
+  expect(listener).toHaveBeenCalledWith({
+    type: "rename",
+    path: "/App.jsx",
+    newPath: "/Main.jsx",
+  });
+
+  listener.mockClear();
+  mockFileSystem.getNode.mockReturnValue({ type: "file" });
+  mockFileSystem.updateFile.mockReturnValue(true);
+
+  let applied = false;
+  act(() => {
+    applied = result.current.applyRemoteOperation({
+      type: "update",
+      path: "/Main.jsx",
+      content: "remote",
+    });
+  });
+
+  expect(applied).toBe(true);
+  expect(mockFileSystem.updateFile).toHaveBeenCalledWith("/Main.jsx", "remote");
+  expect(listener).not.toHaveBeenCalled();
+});
@@ -0,0 +1,224 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+} from "react";
+import type { FileNode } from "@/lib/file-system";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { useChat } from "@/lib/contexts/chat-context";
+import { saveProjectData } from "@/actions/save-project-data";
+
+// Wait for a pause in typing before saving
+export const AUTOSAVE_DELAY_MS = 2000;
+
+export type SaveStatus = "saved" | "dirty" | "saving" | "conflict" | "error";
+
+interface SavedState {
+  updatedAt: Date;
+  data: Record<string, FileNode>;
+  key: string;
+}
+
+interface AutosaveContextType {
+  status: SaveStatus;
+  lastSavedAt: Date | null;
+  save: () => Promise<void>;
+  revert: () => void;
+  // Conflict resolution: keep the stored version or replace it with ours
+  loadLatest: () => void;
+  overwrite: () => Promise<void>;
+}
+
+const AutosaveContext = createContext<AutosaveContextType | undefined>(
+  undefined
+);
+
+// Compares file trees regardless of the order files were created in
+export function getSnapshotKey(data: Record<string, FileNode>): string {
+  return JSON.stringify(
+    Object.keys(data)
+      .sort()
+      .map((path) => [path, data[path].type, data[path].content ?? null])
+  );
+}
+
+function toSavedState(
+  updatedAt: Date,
+  data: Record<string, FileNode>
+): SavedState {
+  return { updatedAt: new Date(updatedAt), data, key: getSnapshotKey(data) };
+}
+
+export function AutosaveProvider({
+  projectId,
+  initialUpdatedAt,
+  enabled = true,
+  children,
+}: {
+  projectId?: string;
+  initialUpdatedAt?: Date;
+  enabled?: boolean;
+  children: React.ReactNode;
+}) {
+  const { fileSystem, refreshTrigger, replaceFiles } = useFileSystem();
+  const { status: chatStatus } = useChat();
+  const [status, setStatus] = useState<SaveStatus>("saved");
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<SavedState | null>(null);
+
+  // What the server is known to hold; edits are measured against it
+  const savedRef = useRef<SavedState>(
+    toSavedState(initialUpdatedAt ?? new Date(0), fileSystem.serialize())
+  );
+  const isSavingRef = useRef(false);
+  // Set when a save is requested while another one is running
+  const saveAgainRef = useRef(false);
+
+  const isActive = enabled && !!projectId;
+  const isGenerating = chatStatus === "submitted" || chatStatus === "streaming";
+
+  const writeSnapshot = useCallback(
+    async (baseUpdatedAt: Date) => {
+      const data = fileSystem.serialize();
+      const key = getSnapshotKey(data);
+
+      let result = await saveProjectData(projectId!, data, baseUpdatedAt);
+      if (result.status === "conflict") {
+        const serverKey = getSnapshotKey(result.data);
+        if (serverKey === key) {
+          // Someone already stored exactly these files
+          return { status: "saved" as const, state: toSavedState(result.updatedAt, data) };
+        }
+        if (serverKey === savedRef.current.key) {
+          // Only metadata changed since our last save, e.g. a chat turn
+          result = await saveProjectData(projectId!, data, result.updatedAt);
+        }
+      }
+
+      if (result.status === "conflict") {
+        return {
+          status: "conflict" as const,
+          state: toSavedState(result.updatedAt, result.data),
+        };
+      }
+      return { status: "saved" as const, state: toSavedState(result.updatedAt, data) };
+    },
+    [fileSystem, projectId]
+  );
+
+  const runSave = useCallback(
+    async function runSave(baseUpdatedAt: Date): Promise<void> {
+      if (!isActive) return;
+      if (isSavingRef.current) {
+        saveAgainRef.current = true;
+        return;
+      }
+
+      isSavingRef.current = true;
+      let saved = false;
+      setStatus("saving");
+      try {
+        const result = await writeSnapshot(baseUpdatedAt);
+        if (result.status === "conflict") {
+          setConflict(result.state);
+          setStatus("conflict");
+          return;
+        }
+
+        saved = true;
+        savedRef.current = result.state;
+        setConflict(null);
+        setLastSavedAt(result.state.updatedAt);
+        setStatus(
+          getSnapshotKey(fileSystem.serialize()) === result.state.key
+            ? "saved"
+            : "dirty"
+        );
+      } catch (error) {
+        console.error("Failed to save project:", error);
+        setStatus("error");
+      } finally {
+        isSavingRef.current = false;
+      }
+
+      if (saveAgainRef.current) {
+        saveAgainRef.current = false;
+        if (saved) {
+          await runSave(savedRef.current.updatedAt);
+        }
+      }
+    },
+    [isActive, fileSystem, writeSnapshot]
+  );
+
+  const save = useCallback(
+    () => runSave(savedRef.current.updatedAt),
+    [runSave]
+  );
+
+  const overwrite = useCallback(async () => {
+    if (conflict) {
+      await runSave(conflict.updatedAt);
+    }
+  }, [conflict, runSave]);
+
+  const loadLatest = useCallback(() => {
+    if (!conflict) return;
+
+    savedRef.current = conflict;
+    replaceFiles(conflict.data);
+    setConflict(null);
+    setStatus("saved");
+  }, [conflict, replaceFiles]);
+
+  const revert = useCallback(() => {
+    replaceFiles(savedRef.current.data);
+    setStatus("saved");
+  }, [replaceFiles]);
+
+  // A finished chat turn is saved by the chat route, so what we have now is
+  // what the server holds; only its updatedAt is unknown until the next save
+  const wasGeneratingRef = useRef(isGenerating);
+  useEffect(() => {
+    if (wasGeneratingRef.current && !isGenerating && isActive) {
+      const data = fileSystem.serialize();
+      savedRef.current = { ...savedRef.current, data, key: getSnapshotKey(data) };
+    }
+    wasGeneratingRef.current = isGenerating;
+  }, [isGenerating, isActive, fileSystem]);
+
+  // Schedules a save after every change that differs from the saved state
+  useEffect(() => {
+    if (!isActive || isGenerating || conflict) return;
+
+    if (getSnapshotKey(fileSystem.serialize()) === savedRef.current.key) {
+      setStatus((current) => (current === "saving" ? current : "saved"));
+      return;
+    }
+
+    setStatus((current) => (current === "saving" ? current : "dirty"));
+    const timeout = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [refreshTrigger, isActive, isGenerating, conflict, fileSystem, save]);
+
+  return (
+    <AutosaveContext.Provider
+      value={{ status, lastSavedAt, save, revert, loadLatest, overwrite }}
+    >
+      {children}
+    </AutosaveContext.Provider>
+  );
+}
+
+export function useAutosave() {
+  const context = useContext(AutosaveContext);
+  if (!context) {
+    throw new Error("useAutosave must be used within an AutosaveProvider");
+  }
+  return context;
+}
@@ -5,15 +5,33 @@ import {
   useContext,
   ReactNode,
   useEffect,
+  useState,
+  useRef,
+  useCallback,
 } from "react";
 import { useChat as useAIChat } from "@ai-sdk/react";
 import { Message } from "ai";
 import { useFileSystem } from "./file-system-context";
 import { setHasAnonWork } from "@/lib/anon-work-tracker";
+import { PreviewError, formatRepairRequest } from "@/lib/preview/preview-errors";
+import { updateProjectModel } from "@/actions/update-project-model";
+import { PickedElement, formatElementRequest } from "@/lib/preview/element-picker";
+import type { ImageAttachment } from "@/lib/chat-attachments";
+import { A11yIssue, formatA11yFixRequest } from "@/lib/preview/a11y-audit";
+
+// Repair requests sent in a row before auto-fix gives up until the user
+// sends a message of their own
+export const MAX_AUTO_FIX_ATTEMPTS = 3;
+
+// Let a fresh render report all of its errors before asking for a fix
+const AUTO_FIX_DELAY_MS = 1500;
+
+const AUTO_FIX_STORAGE_KEY = "uigen_auto_fix";
 
 interface ChatContextProps {
   projectId?: string;
   initialMessages?: Message[];
+  initialModel?: string | null;
 }
 
 interface ChatContextType {
@@ -22,6 +40,24 @@ interface ChatContextType {
   handleInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
   status: string;
+  autoFix: boolean;
+  setAutoFix: (enabled: boolean) => void;
+  autoFixAttempts: number;
+  previewErrors: PreviewError[];
+  setPreviewErrors: (errors: PreviewError[]) => void;
+  // "<provider>/<model>" id; null means the server's default model
+  model: string | null;
+  setModel: (model: string) => void;
+  // Element picked in the preview, sent along with the next message
+  selectedElement: PickedElement | null;
+  setSelectedElement: (element: PickedElement | null) => void;
+  // Images attached to the next message
+  attachments: ImageAttachment[];
+  setAttachments: (attachments: ImageAttachment[]) => void;
+  // Findings of the preview's accessibility audit
+  a11yIssues: A11yIssue[];
+  setA11yIssues: (issues: A11yIssue[]) => void;
+  requestA11yFix: () => void;
 }
 
 const ChatContext = createContext<ChatContextType | undefined>(undefined);
@@ -30,8 +66,10 @@ export function ChatProvider({
   children,
   projectId,
   initialMessages = [],
+  initialModel = null,
 }: ChatContextProps & { children: ReactNode }) {
   const { fileSystem, handleToolCall } = useFileSystem();
+  const [model, setModelState] = useState<string | null>(initialModel);
 
   const {
     messages,
@@ -39,18 +77,124 @@ export function ChatProvider({
     handleInputChange,
     handleSubmit,
     status,
+    append,
+    setInput,
   } = useAIChat({
     api: "/api/chat",
     initialMessages,
     body: {
       files: fileSystem.serialize(),
+      history: fileSystem.serializeHistory(),
       projectId,
+      model,
     },
     onToolCall: ({ toolCall }) => {
       handleToolCall(toolCall);
     },
   });
 
+  const [autoFix, setAutoFixState] = useState(false);
+  const [autoFixAttempts, setAutoFixAttempts] = useState(0);
+  const [previewErrors, setPreviewErrors] = useState<PreviewError[]>([]);
+  const [selectedElement, setSelectedElement] = useState<PickedElement | null>(
+    null
+  );
+  const [attachments, setAttachments] = useState<ImageAttachment[]>([]);
+  const [a11yIssues, setA11yIssues] = useState<A11yIssue[]>([]);
+  // Only repair errors caused by this session's turns, not a project that
+  // was already broken when it was opened
+  const hasSubmittedRef = useRef(false);
+
+  useEffect(() => {
+    setAutoFixState(localStorage.getItem(AUTO_FIX_STORAGE_KEY) === "true");
+  }, []);
+
+  const setAutoFix = useCallback((enabled: boolean) => {
+    setAutoFixState(enabled);
+    localStorage.setItem(AUTO_FIX_STORAGE_KEY, String(enabled));
+  }, []);
+
+  const setModel = useCallback(
+    (nextModel: string) => {
+      setModelState(nextModel);
+      if (projectId) {
+        updateProjectModel(projectId, nextModel).catch((error) =>
+          console.error("Failed to save project model:", error)
+        );
+      }
+    },
+    [projectId]
+  );
+
+  const submitMessage = useCallback(
+    (e: React.FormEvent<HTMLFormElement>) => {
+      hasSubmittedRef.current = true;
+      setAutoFixAttempts(0);
+      const options =
+        attachments.length > 0
+          ? { experimental_attachments: attachments }
+          : undefined;
+
+      if (!selectedElement) {
+        handleSubmit(e, options);
+        // An empty input isn't sent, so keep the attachments for the retry
+        if (input) setAttachments([]);
+        return;
+      }
+
+      e.preventDefault();
+      if (!input.trim()) return;
+      const { path, line } = selectedElement.source;
+      const sourceLine = fileSystem.readFile(path)?.split("\n")[line - 1];
+      append(
+        {
+          role: "user",
+          content: formatElementRequest(selectedElement, input, sourceLine),
+        },
+        options
+      );
+      setInput("");
+      setSelectedElement(null);
+      setAttachments([]);
+    },
+    [
+      handleSubmit,
+      attachments,
+      selectedElement,
+      input,
+      fileSystem,
+      append,
+      setInput,
+    ]
+  );
+
+  const requestA11yFix = useCallback(() => {
+    if (a11yIssues.length === 0) return;
+    hasSubmittedRef.current = true;
+    setAutoFixAttempts(0);
+    append({ role: "user", content: formatA11yFixRequest(a11yIssues) });
+  }, [a11yIssues, append]);
+
+  // Once the assistant is done, send whatever errors the preview reported
+  useEffect(() => {
+    if (
+      !autoFix ||
+      !hasSubmittedRef.current ||
+      status !== "ready" ||
+      previewErrors.length === 0 ||
+      autoFixAttempts >= MAX_AUTO_FIX_ATTEMPTS
+    ) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      setAutoFixAttempts((attempts) => attempts + 1);
+      append({ role: "user", content: formatRepairRequest(previewErrors) });
+    }, AUTO_FIX_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [autoFix, status, previewErrors, autoFixAttempts, append]);
+
   // Track anonymous work
   useEffect(() => {
     if (!projectId && messages.length > 0) {
@@ -64,8 +208,22 @@ export function ChatProvider({
         messages,
         input,
         handleInputChange,
-        handleSubmit,
+        handleSubmit: submitMessage,
         status,
+        autoFix,
+        setAutoFix,
+        autoFixAttempts,
+        previewErrors,
+        setPreviewErrors,
+        model,
+        setModel,
+        selectedElement,
+        setSelectedElement,
+        attachments,
+        setAttachments,
+        a11yIssues,
+        setA11yIssues,
+        requestA11yFix,
       }}
     >
       {children}
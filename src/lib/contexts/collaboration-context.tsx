@@ -0,0 +1,123 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect } from "react";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+import { CollabClient } from "@/lib/collab/collab-client";
+import type {
+  CollabEvent,
+  CollabRequest,
+  Peer,
+  SubmitResult,
+} from "@/lib/collab/protocol";
+
+interface CollaborationContextType {
+  // Other sessions on the same project, this one excluded
+  peers: Peer[];
+  isConnected: boolean;
+}
+
+const CollaborationContext = createContext<
+  CollaborationContextType | undefined
+>(undefined);
+
+async function postCollab(
+  projectId: string,
+  request: CollabRequest
+): Promise<Response> {
+  const response = await fetch(`/api/collab/${projectId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    throw new Error(`Sync request failed with status ${response.status}`);
+  }
+  return response;
+}
+
+export function CollaborationProvider({
+  projectId,
+  children,
+}: {
+  projectId?: string;
+  children: React.ReactNode;
+}) {
+  const { subscribeToOperations, applyRemoteOperation, selectedFile } =
+    useFileSystem();
+  const [clientId] = useState(() => crypto.randomUUID());
+  const [peers, setPeers] = useState<Peer[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!projectId) return;
+
+    const client = new CollabClient({
+      clientId,
+      submit: async (opId, baseSeq, op) => {
+        const response = await postCollab(projectId, {
+          type: "op",
+          clientId,
+          opId,
+          baseSeq,
+          op,
+        });
+        return (await response.json()) as SubmitResult;
+      },
+      applyRemote: applyRemoteOperation,
+      onConflict: (op) => {
+        console.warn("File change conflicted with another session:", op);
+      },
+    });
+
+    const unsubscribe = subscribeToOperations((op) => client.pushLocal(op));
+
+    const source = new EventSource(
+      `/api/collab/${projectId}?clientId=${encodeURIComponent(clientId)}`
+    );
+    source.onmessage = (message) => {
+      const event: CollabEvent = JSON.parse(message.data);
+      if (event.type === "presence") {
+        setPeers(event.peers.filter((peer) => peer.clientId !== clientId));
+        return;
+      }
+
+      client.handleEvent(event);
+      if (event.type === "snapshot") {
+        setIsConnected(true);
+      }
+    };
+    source.onerror = () => setIsConnected(false);
+
+    return () => {
+      unsubscribe();
+      source.close();
+      setIsConnected(false);
+      setPeers([]);
+    };
+  }, [projectId, clientId, subscribeToOperations, applyRemoteOperation]);
+
+  // The server forgets presence on disconnect, so it is resent on reconnect
+  useEffect(() => {
+    if (!projectId || !isConnected) return;
+
+    postCollab(projectId, { type: "presence", clientId, selectedFile }).catch(
+      console.error
+    );
+  }, [projectId, clientId, isConnected, selectedFile]);
+
+  return (
+    <CollaborationContext.Provider value={{ peers, isConnected }}>
+      {children}
+    </CollaborationContext.Provider>
+  );
+}
+
+export function useCollaboration() {
+  const context = useContext(CollaborationContext);
+  if (!context) {
+    throw new Error(
+      "useCollaboration must be used within a CollaborationProvider"
+    );
+  }
+  return context;
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+} from "react";
+import type { Diagnostic } from "@/lib/diagnostics/type-checker";
+import { useFileSystem } from "@/lib/contexts/file-system-context";
+
+// Wait for a pause in edits before asking the server to type-check again
+const CHECK_DELAY_MS = 800;
+
+const TYPE_CHECKED_FILES = /\.tsx?$/;
+
+interface DiagnosticsContextType {
+  diagnostics: Diagnostic[];
+  isChecking: boolean;
+  getFileDiagnostics: (path: string) => Diagnostic[];
+  activeDiagnostic: Diagnostic | null;
+  revealDiagnostic: (diagnostic: Diagnostic) => void;
+}
+
+const DiagnosticsContext = createContext<DiagnosticsContextType | undefined>(
+  undefined
+);
+
+export function DiagnosticsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const { getAllFiles, refreshTrigger, setSelectedFile } = useFileSystem();
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+  const [activeDiagnostic, setActiveDiagnostic] = useState<Diagnostic | null>(
+    null
+  );
+
+  useEffect(() => {
+    const files = getAllFiles();
+    const hasTypeScript = Array.from(files.keys()).some((path) =>
+      TYPE_CHECKED_FILES.test(path)
+    );
+
+    if (!hasTypeScript) {
+      setDiagnostics([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsChecking(true);
+      try {
+        const response = await fetch("/api/diagnostics", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ files: Object.fromEntries(files) }),
+          signal: controller.signal,
+        });
+        // Projects past the server's size limit show no diagnostics rather
+        // than an error on every edit
+        if (response.status === 413) {
+          setDiagnostics([]);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Type check failed with status ${response.status}`);
+        }
+
+        const result: { diagnostics: Diagnostic[] } = await response.json();
+        setDiagnostics(result.diagnostics);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to type-check files:", error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsChecking(false);
+        }
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [refreshTrigger, getAllFiles]);
+
+  const getFileDiagnostics = useCallback(
+    (path: string) => {
+      return diagnostics.filter((diagnostic) => diagnostic.path === path);
+    },
+    [diagnostics]
+  );
+
+  const revealDiagnostic = useCallback(
+    (diagnostic: Diagnostic) => {
+      setSelectedFile(diagnostic.path);
+      setActiveDiagnostic(diagnostic);
+    },
+    [setSelectedFile]
+  );
+
+  return (
+    <DiagnosticsContext.Provider
+      value={{
+        diagnostics,
+        isChecking,
+        getFileDiagnostics,
+        activeDiagnostic,
+        revealDiagnostic,
+      }}
+    >
+      {children}
+    </DiagnosticsContext.Provider>
+  );
+}
+
+export function useDiagnostics() {
+  const context = useContext(DiagnosticsContext);
+  if (!context) {
+    throw new Error("useDiagnostics must be used within a DiagnosticsProvider");
+  }
+  return context;
+}
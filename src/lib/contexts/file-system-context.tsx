@@ -6,8 +6,23 @@ import React, {
   useState,
   useCallback,
   useEffect,
+  useRef,
 } from "react";
-import { VirtualFileSystem, FileNode } from "@/lib/file-system";
+import {
+  VirtualFileSystem,
+  FileNode,
+  FileHistoryEntry,
+} from "@/lib/file-system";
+import {
+  ImportEntry,
+  ImportResult,
+  importIntoFileSystem,
+} from "@/lib/import/project-import";
+import {
+  FileOperation,
+  applyFileOperation,
+  undoOperations,
+} from "@/lib/collab/operations";
 
 interface ToolCall {
   toolName: string;
@@ -24,11 +39,19 @@ interface FileSystemContextType {
   renameFile: (oldPath: string, newPath: string) => boolean;
   getFileContent: (path: string) => string | null;
   getAllFiles: () => Map<string, string>;
+  getFileHistory: (path: string) => FileHistoryEntry[];
+  undoEdit: (path: string) => boolean;
   refreshTrigger: number;
   handleToolCall: (toolCall: ToolCall) => void;
+  replaceFiles: (data: Record<string, FileNode>) => void;
+  importFiles: (entries: ImportEntry[]) => ImportResult;
   reset: () => void;
+  subscribeToOperations: (listener: OperationListener) => () => void;
+  applyRemoteOperation: (op: FileOperation) => boolean;
 }
 
+type OperationListener = (op: FileOperation) => void;
+
 const FileSystemContext = createContext<FileSystemContextType | undefined>(
   undefined
 );
@@ -51,11 +74,23 @@ export function FileSystemProvider({
   });
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const operationListeners = useRef(new Set<OperationListener>());
 
   const triggerRefresh = useCallback(() => {
     setRefreshTrigger((prev) => prev + 1);
   }, []);
 
+  // Tells sync listeners about local changes so other sessions can replay them
+  const emitOperation = useCallback((op: FileOperation) => {
+    for (const listener of Array.from(operationListeners.current)) {
+      listener(op);
+    }
+  }, []);
+
+  const emitSnapshot = useCallback(() => {
+    emitOperation({ type: "replace", data: fileSystem.serialize() });
+  }, [fileSystem, emitOperation]);
+
   useEffect(() => {
     if (!selectedFile) {
       const files = fileSystem.getAllFiles();
@@ -82,34 +117,38 @@ export function FileSystemProvider({
   const createFile = useCallback(
     (path: string, content: string = "") => {
       fileSystem.createFile(path, content);
+      emitOperation({ type: "create", path, content });
       triggerRefresh();
     },
-    [fileSystem, triggerRefresh]
+    [fileSystem, emitOperation, triggerRefresh]
   );
 
   const updateFile = useCallback(
     (path: string, content: string) => {
       fileSystem.updateFile(path, content);
+      emitOperation({ type: "update", path, content });
       triggerRefresh();
     },
-    [fileSystem, triggerRefresh]
+    [fileSystem, emitOperation, triggerRefresh]
   );
 
   const deleteFile = useCallback(
     (path: string) => {
       fileSystem.deleteFile(path);
+      emitOperation({ type: "delete", path });
       if (selectedFile === path) {
         setSelectedFile(null);
       }
       triggerRefresh();
     },
-    [fileSystem, selectedFile, triggerRefresh]
+    [fileSystem, selectedFile, emitOperation, triggerRefresh]
   );
 
   const renameFile = useCallback(
     (oldPath: string, newPath: string): boolean => {
       const success = fileSystem.rename(oldPath, newPath);
       if (success) {
+        emitOperation({ type: "rename", path: oldPath, newPath });
         // Update selected file if it was renamed
         if (selectedFile === oldPath) {
           setSelectedFile(newPath);
@@ -122,7 +161,7 @@ export function FileSystemProvider({
       }
       return success;
     },
-    [fileSystem, selectedFile, triggerRefresh]
+    [fileSystem, selectedFile, emitOperation, triggerRefresh]
   );
 
   const getFileContent = useCallback(
@@ -136,11 +175,101 @@ export function FileSystemProvider({
     return fileSystem.getAllFiles();
   }, [fileSystem]);
 
+  const getFileHistory = useCallback(
+    (path: string) => {
+      return fileSystem.getHistory(path);
+    },
+    [fileSystem]
+  );
+
+  const undoEdit = useCallback(
+    (path: string): boolean => {
+      const lastEntry = fileSystem.getHistory(path).pop();
+      const result = fileSystem.undoEdit(path);
+      if (result.startsWith("Error:")) {
+        return false;
+      }
+
+      // Follow the file back to where it came from if a rename was undone
+      if (
+        selectedFile === path &&
+        lastEntry?.command === "rename" &&
+        lastEntry.previousPath
+      ) {
+        setSelectedFile(lastEntry.previousPath);
+      } else if (selectedFile && !fileSystem.exists(selectedFile)) {
+        setSelectedFile(null);
+      }
+      if (lastEntry) {
+        undoOperations(fileSystem, lastEntry).forEach(emitOperation);
+      }
+      triggerRefresh();
+      return true;
+    },
+    [fileSystem, selectedFile, emitOperation, triggerRefresh]
+  );
+
+  const replaceFiles = useCallback(
+    (data: Record<string, FileNode>) => {
+      fileSystem.deserializeFromNodes(data);
+      emitSnapshot();
+      setSelectedFile(null);
+      triggerRefresh();
+    },
+    [fileSystem, emitSnapshot, triggerRefresh]
+  );
+
+  const importFiles = useCallback(
+    (entries: ImportEntry[]): ImportResult => {
+      const result = importIntoFileSystem(fileSystem, entries);
+      for (const path of result.imported) {
+        emitOperation({
+          type: "create",
+          path,
+          content: fileSystem.readFile(path) ?? "",
+        });
+      }
+      if (result.imported.length > 0) {
+        triggerRefresh();
+      }
+      return result;
+    },
+    [fileSystem, emitOperation, triggerRefresh]
+  );
+
   const reset = useCallback(() => {
     fileSystem.reset();
+    emitSnapshot();
     setSelectedFile(null);
     triggerRefresh();
-  }, [fileSystem, triggerRefresh]);
+  }, [fileSystem, emitSnapshot, triggerRefresh]);
+
+  const subscribeToOperations = useCallback((listener: OperationListener) => {
+    operationListeners.current.add(listener);
+    return () => {
+      operationListeners.current.delete(listener);
+    };
+  }, []);
+
+  // Applies a change made in another session without emitting it again
+  const applyRemoteOperation = useCallback(
+    (op: FileOperation): boolean => {
+      const applied = applyFileOperation(fileSystem, op);
+      if (!applied) return false;
+
+      setSelectedFile((current) => {
+        if (!current) return current;
+        if (op.type === "rename" && current === op.path) return op.newPath;
+        if (op.type === "rename" && current.startsWith(op.path + "/")) {
+          return op.newPath + current.substring(op.path.length);
+        }
+        return fileSystem.exists(current) ? current : null;
+      });
+      triggerRefresh();
+      return true;
+    },
+    [fileSystem, triggerRefresh]
+  );
 
   const handleToolCall = useCallback(
     (toolCall: ToolCall) => {
@@ -183,6 +312,12 @@ export function FileSystemProvider({
               }
             }
             break;
+
+          case "undo_edit":
+            if (path) {
+              undoEdit(path);
+            }
+            break;
         }
       }
 
@@ -208,7 +343,7 @@ export function FileSystemProvider({
         }
       }
     },
-    [fileSystem, createFile, updateFile, deleteFile, renameFile]
+    [fileSystem, createFile, updateFile, deleteFile, renameFile, undoEdit]
   );
 
   return (
@@ -223,9 +358,15 @@ export function FileSystemProvider({
         renameFile,
         getFileContent,
         getAllFiles,
+        getFileHistory,
+        undoEdit,
         refreshTrigger,
         handleToolCall,
+        replaceFiles,
+        importFiles,
         reset,
+        subscribeToOperations,
+        applyRemoteOperation,
       }}
     >
       {children}
@@ -0,0 +1,143 @@
+import { test, expect, describe } from "vitest";
+import { checkTypes, formatDiagnostics, getSourceSize } from "../type-checker";
+
+describe("checkTypes", () => {
+  test("returns no diagnostics for projects without TypeScript files", () => {
+    const files = new Map([["/App.jsx", "export default () => <div />;"]]);
+
+    expect(checkTypes(files)).toEqual([]);
+  });
+
+  test("reports type errors with 1-based positions", () => {
+    const files = new Map([
+      ["/App.tsx", "const count: number = 'one';\nexport default count;\n"],
+    ]);
+
+    const [diagnostic, ...rest] = checkTypes(files);
+
+    expect(rest).toHaveLength(0);
+    expect(diagnostic).toMatchObject({
+      path: "/App.tsx",
+      line: 1,
+      column: 7,
+      code: 2322,
+      severity: "error",
+    });
+    expect(diagnostic.message).toContain("not assignable to type 'number'");
+  });
+
+  test("reports syntax errors", () => {
+    const files = new Map([["/App.tsx", "export default function App( {\n"]]);
+
+    const diagnostics = checkTypes(files);
+
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0].path).toBe("/App.tsx");
+  });
+
+  test("resolves @/ imports and checks props across files", () => {
+    const files = new Map([
+      [
+        "/components/Badge.tsx",
+        "export function Badge({ label }: { label: string }) {\n  return <span>{label}</span>;\n}\n",
+      ],
+      [
+        "/App.tsx",
+        "import { Badge } from '@/components/Badge';\nexport default function App() {\n  return <Badge label={42} />;\n}\n",
+      ],
+    ]);
+
+    const diagnostics = checkTypes(files);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ path: "/App.tsx", line: 3 });
+  });
+
+  test("ignores unresolved packages and stylesheets but not local files", () => {
+    const files = new Map([
+      [
+        "/App.tsx",
+        [
+          "import { motion } from 'framer-motion';",
+          "import styles from './App.module.css';",
+          "import { Missing } from '@/components/Missing';",
+          "export default function App() {",
+          "  return <motion.div className={styles.root}><Missing /></motion.div>;",
+          "}",
+        ].join("\n"),
+      ],
+    ]);
+
+    const diagnostics = checkTypes(files);
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ line: 3, code: 2307 });
+  });
+
+  test("only reads virtual files and bundled type declarations", () => {
+    const files = new Map([
+      [
+        "/App.tsx",
+        [
+          "import { useState } from 'react';",
+          "import { checkTypes } from '../src/lib/diagnostics/type-checker';",
+          "import pkg from '../package.json';",
+          "export default function App() {",
+          "  const [count] = useState(0);",
+          "  return <div>{count}{String(checkTypes)}{pkg.name}</div>;",
+          "}",
+        ].join("\n"),
+      ],
+    ]);
+
+    const diagnostics = checkTypes(files);
+
+    expect(diagnostics.map((d) => [d.line, d.code])).toEqual([
+      [2, 2307],
+      [3, 2307],
+    ]);
+  });
+
+  test("does not report stale results for changed content", () => {
+    const broken = new Map([["/App.tsx", "export const a: string = 1;\n"]]);
+    const fixed = new Map([["/App.tsx", "export const a: string = '1';\n"]]);
+
+    expect(checkTypes(broken)).toHaveLength(1);
+    expect(checkTypes(fixed)).toHaveLength(0);
+  });
+});
+
+describe("getSourceSize", () => {
+  test("counts scripts only", () => {
+    const files = new Map([
+      ["/App.jsx", "12345"],
+      ["/types.ts", "123"],
+      ["/index.css", "1234567890"],
+    ]);
+
+    expect(getSourceSize(files)).toBe(8);
+  });
+});
+
+describe("formatDiagnostics", () => {
+  test("formats one diagnostic per line", () => {
+    const output = formatDiagnostics([
+      {
+        path: "/App.tsx",
+        line: 2,
+        column: 5,
+        endLine: 2,
+        endColumn: 9,
+        message: "Cannot find name 'foo'.",
+        code: 2304,
+        severity: "error",
+      },
+    ]);
+
+    expect(output).toBe("/App.tsx:2:5 - error TS2304: Cannot find name 'foo'.");
+  });
+
+  test("reports a clean result", () => {
+    expect(formatDiagnostics([])).toBe("No type errors found.");
+  });
+});
@@ -0,0 +1,230 @@
+import { createHash } from "crypto";
+import path from "path";
+import ts from "typescript";
+
+export interface Diagnostic {
+  path: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+  code: number;
+  severity: "error" | "warning";
+}
+
+// Virtual files are mounted under the app directory so imports like "react"
+// resolve against the app's own node_modules/@types
+const VIRTUAL_ROOT = path.join(process.cwd(), ".uigen-virtual");
+
+const TYPE_CHECKED_FILES = /\.tsx?$/;
+
+// Scripts take part in module resolution, so all of them count towards the
+// limit; checking runs on the request's thread for anyone, signed in or not
+const SOURCE_FILES = /\.(jsx?|tsx?)$/;
+export const MAX_CHECKED_SOURCE_SIZE = 1_000_000;
+
+// "Cannot find module" and "Could not find a declaration file" for packages
+// and stylesheets; the preview loads those from a CDN, not from node_modules
+const IGNORED_MODULE_ERRORS = new Set([2307, 7016]);
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  lib: ["lib.es2020.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+  types: [],
+  strict: true,
+  allowJs: true,
+  checkJs: false,
+  esModuleInterop: true,
+  resolveJsonModule: true,
+  skipLibCheck: true,
+  noEmit: true,
+  baseUrl: VIRTUAL_ROOT,
+  paths: { "@/*": ["./*"] },
+};
+
+// The only real files the checker reads: TypeScript's lib files, and the
+// app's @types packages plus csstype, which React's types import. Anything
+// else a project imports, like "../../.env", doesn't exist as far as the
+// checker knows
+const TYPE_ROOTS = [
+  path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS)),
+  path.join(process.cwd(), "node_modules", "@types"),
+  path.join(process.cwd(), "node_modules", "csstype"),
+];
+
+const TYPE_FILES = /(\.d\.ts|\/package\.json)$/;
+
+function isInTypeRoot(fileName: string): boolean {
+  const resolved = path.resolve(fileName);
+  return TYPE_ROOTS.some((root) => resolved.startsWith(root + path.sep));
+}
+
+function isTypeFile(fileName: string): boolean {
+  return TYPE_FILES.test(fileName) && isInTypeRoot(fileName);
+}
+
+// Directories module resolution walks through on its way to a type root
+function isTypeDirectory(directory: string): boolean {
+  const resolved = path.resolve(directory);
+  return (
+    isInTypeRoot(resolved) ||
+    TYPE_ROOTS.some(
+      (root) => root === resolved || root.startsWith(resolved + path.sep)
+    )
+  );
+}
+
+// Shared across requests so lib.dom.d.ts and React's types are parsed once
+const documentRegistry = ts.createDocumentRegistry();
+
+function toFileName(virtualPath: string): string {
+  return VIRTUAL_ROOT + virtualPath;
+}
+
+function toVirtualPath(fileName: string): string {
+  return fileName.slice(VIRTUAL_ROOT.length);
+}
+
+function isIgnored(diagnostic: ts.Diagnostic): boolean {
+  if (!IGNORED_MODULE_ERRORS.has(diagnostic.code) || !diagnostic.file) {
+    return false;
+  }
+
+  const specifier = diagnostic.file.text
+    .slice(diagnostic.start, (diagnostic.start ?? 0) + (diagnostic.length ?? 0))
+    .replace(/^['"]|['"]$/g, "");
+
+  const isLocal =
+    specifier.startsWith(".") ||
+    specifier.startsWith("/") ||
+    specifier.startsWith("@/");
+  return !isLocal || specifier.endsWith(".css");
+}
+
+function toDiagnostic(
+  diagnostic: ts.Diagnostic,
+  file: ts.SourceFile
+): Diagnostic {
+  const start = diagnostic.start ?? 0;
+  const from = file.getLineAndCharacterOfPosition(start);
+  const to = file.getLineAndCharacterOfPosition(
+    start + (diagnostic.length ?? 0)
+  );
+
+  return {
+    path: toVirtualPath(file.fileName),
+    line: from.line + 1,
+    column: from.character + 1,
+    endLine: to.line + 1,
+    endColumn: to.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"),
+    code: diagnostic.code,
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error ? "error" : "warning",
+  };
+}
+
+export function getSourceSize(files: Map<string, string>): number {
+  let size = 0;
+  for (const [file, content] of files) {
+    if (SOURCE_FILES.test(file)) size += content.length;
+  }
+  return size;
+}
+
+/**
+ * Type-checks the .ts/.tsx files of a virtual file system with a throwaway
+ * language service. JavaScript files take part in module resolution but are
+ * not checked themselves.
+ */
+export function checkTypes(files: Map<string, string>): Diagnostic[] {
+  const checked = Array.from(files.keys())
+    .filter((file) => TYPE_CHECKED_FILES.test(file) && !file.endsWith(".d.ts"))
+    .sort();
+  if (checked.length === 0) return [];
+
+  const virtualFiles = new Map(
+    Array.from(files, ([file, content]) => [toFileName(file), content])
+  );
+
+  const readFile = (fileName: string) =>
+    virtualFiles.get(fileName) ??
+    (isTypeFile(fileName) ? ts.sys.readFile(fileName) : undefined);
+  const fileExists = (fileName: string) =>
+    virtualFiles.has(fileName) ||
+    (isTypeFile(fileName) && ts.sys.fileExists(fileName));
+  const directoryExists = (directory: string) =>
+    Array.from(virtualFiles.keys()).some((file) =>
+      file.startsWith(directory + "/")
+    ) ||
+    (isTypeDirectory(directory) && ts.sys.directoryExists(directory));
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => checked.map(toFileName),
+    // Virtual files are keyed by content so the shared registry never serves
+    // a stale copy from an earlier request
+    getScriptVersion: (fileName) => {
+      const content = virtualFiles.get(fileName);
+      return content === undefined
+        ? "lib"
+        : createHash("sha1").update(content).digest("hex");
+    },
+    getScriptSnapshot: (fileName) => {
+      const content = readFile(fileName);
+      return content === undefined
+        ? undefined
+        : ts.ScriptSnapshot.fromString(content);
+    },
+    getCurrentDirectory: () => VIRTUAL_ROOT,
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    readFile,
+    fileExists,
+    directoryExists,
+    getDirectories: (directory) =>
+      isTypeDirectory(directory) ? ts.sys.getDirectories(directory) : [],
+    readDirectory: () => [],
+  };
+
+  const service = ts.createLanguageService(host, documentRegistry);
+  const diagnostics: Diagnostic[] = [];
+
+  try {
+    for (const file of checked) {
+      const fileName = toFileName(file);
+      const sourceFile = service.getProgram()?.getSourceFile(fileName);
+      if (!sourceFile) continue;
+
+      for (const diagnostic of [
+        ...service.getSyntacticDiagnostics(fileName),
+        ...service.getSemanticDiagnostics(fileName),
+      ]) {
+        if (!isIgnored(diagnostic)) {
+          diagnostics.push(toDiagnostic(diagnostic, sourceFile));
+        }
+      }
+    }
+  } finally {
+    // Releases this request's virtual files from the shared registry
+    service.dispose();
+  }
+
+  return diagnostics;
+}
+
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  if (diagnostics.length === 0) {
+    return "No type errors found.";
+  }
+
+  return diagnostics
+    .map(
+      (d) =>
+        `${d.path}:${d.line}:${d.column} - ${d.severity} TS${d.code}: ${d.message}`
+    )
+    .join("\n");
+}
@@ -0,0 +1,140 @@
+import { test, expect } from "vitest";
+import {
+  buildViteProject,
+  collectPackageImports,
+  getPackageName,
+  rewriteImports,
+  slugifyProjectName,
+} from "@/lib/export/vite-project";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+function serialize(files: Record<string, string>) {
+  const fs = new VirtualFileSystem();
+  for (const [path, content] of Object.entries(files)) {
+    fs.createFile(path, content);
+  }
+  return fs.serialize();
+}
+
+test("slugifyProjectName produces a valid package name", () => {
+  expect(slugifyProjectName("New Design #123")).toBe("new-design-123");
+  expect(slugifyProjectName("!!!")).toBe("uigen-project");
+});
+
+test("getPackageName strips subpaths", () => {
+  expect(getPackageName("date-fns/format")).toBe("date-fns");
+  expect(getPackageName("@radix-ui/react-dialog/dist")).toBe(
+    "@radix-ui/react-dialog"
+  );
+});
+
+test("rewriteImports points root-absolute imports at the alias", () => {
+  const code = `import Card from "/components/Card";
+import { x } from '@/lib/x';
+import "./styles.css";
+const Lazy = import("/components/Lazy");`;
+
+  expect(rewriteImports(code)).toBe(`import Card from "@/components/Card";
+import { x } from '@/lib/x';
+import "./styles.css";
+const Lazy = import("@/components/Lazy");`);
+});
+
+test("collectPackageImports finds third-party packages only", () => {
+  const code = `import React from "react";
+import { motion } from "framer-motion";
+import { format } from "date-fns/format";
+import Card from "@/components/Card";
+import local from "./local";
+export { Dialog } from "@radix-ui/react-dialog";`;
+
+  expect(Array.from(collectPackageImports(code)).sort()).toEqual([
+    "@radix-ui/react-dialog",
+    "date-fns",
+    "framer-motion",
+    "react",
+  ]);
+});
+
+test("buildViteProject moves virtual files under src", () => {
+  const output = buildViteProject(
+    serialize({
+      "/App.jsx": `import Card from "/components/Card";\nexport default () => <Card />;`,
+      "/components/Card.jsx": "export default () => <div />;",
+    }),
+    "My Card"
+  );
+
+  expect(output["src/App.jsx"]).toContain('from "@/components/Card"');
+  expect(output["src/components/Card.jsx"]).toBeDefined();
+  expect(output["src/main.jsx"]).toContain('import App from "@/App";');
+  expect(output["index.html"]).toContain('src="/src/main.jsx"');
+  expect(output["vite.config.js"]).toContain('"@": fileURLToPath');
+  expect(output["src/index.css"]).toBe('@import "tailwindcss";\n');
+});
+
+test("buildViteProject keeps a main.jsx of the project's own", () => {
+  const output = buildViteProject(
+    serialize({
+      "/App.jsx": "export default () => null;",
+      "/main.jsx": "export const main = true;",
+      "/main-1.jsx": "export const other = true;",
+    }),
+    "Main"
+  );
+
+  expect(output["src/main.jsx"]).toBe("export const main = true;");
+  expect(output["src/main-1.jsx"]).toBe("export const other = true;");
+  expect(output["src/main-2.jsx"]).toContain('import App from "@/App";');
+  expect(output["index.html"]).toContain('src="/src/main-2.jsx"');
+});
+
+test("buildViteProject declares detected dependencies", () => {
+  const output = buildViteProject(
+    serialize({
+      "/App.jsx": `import { motion } from "framer-motion";\nexport default () => <motion.div />;`,
+    }),
+    "Motion"
+  );
+
+  const pkg = JSON.parse(output["package.json"]);
+  expect(pkg.name).toBe("motion");
+  expect(pkg.scripts.dev).toBe("vite");
+  expect(pkg.dependencies).toEqual({
+    "framer-motion": "latest",
+    react: "^19.0.0",
+    "react-dom": "^19.0.0",
+  });
+  expect(pkg.devDependencies.tailwindcss).toBeDefined();
+});
+
+test("buildViteProject keeps an existing index.css after the Tailwind import", () => {
+  const output = buildViteProject(
+    serialize({
+      "/App.jsx": "export default () => null;",
+      "/index.css": "body { margin: 0; }",
+    }),
+    "Styles"
+  );
+
+  expect(output["src/index.css"]).toBe(
+    '@import "tailwindcss";\n\nbody { margin: 0; }'
+  );
+});
+
+test("buildViteProject uses versions from the virtual package.json", () => {
+  const output = buildViteProject(
+    serialize({
+      "/App.jsx": `import { format } from "date-fns";\nexport default () => format(new Date(), "P");`,
+      "/package.json": JSON.stringify({
+        dependencies: { "date-fns": "^3.6.0" },
+      }),
+    }),
+    "Dates"
+  );
+
+  expect(output["src/package.json"]).toBeUndefined();
+  expect(JSON.parse(output["package.json"]).dependencies["date-fns"]).toBe(
+    "^3.6.0"
+  );
+});
@@ -0,0 +1,220 @@
+import type { FileNode } from "@/lib/file-system";
+import {
+  isPackageImport,
+  parsePackageSpecifier,
+  readPackageDependencies,
+} from "@/lib/transform/dependency-resolver";
+
+// Entry points in the order PreviewFrame looks for them
+const ENTRY_POINTS = [
+  "/App.jsx",
+  "/App.tsx",
+  "/index.jsx",
+  "/index.tsx",
+  "/src/App.jsx",
+  "/src/App.tsx",
+];
+
+// Packages every exported project already depends on
+const BASE_DEPENDENCIES: Record<string, string> = {
+  react: "^19.0.0",
+  "react-dom": "^19.0.0",
+};
+
+const DEV_DEPENDENCIES: Record<string, string> = {
+  "@tailwindcss/vite": "^4.0.0",
+  "@vitejs/plugin-react": "^4.5.0",
+  tailwindcss: "^4.0.0",
+  vite: "^6.0.0",
+};
+
+const SCRIPT_EXTENSIONS = /\.(jsx?|tsx?)$/;
+
+const IMPORT_SPECIFIER_REGEX =
+  /(\bimport\s+(?:[^'"]*?\s+from\s+)?|\bexport\s+[^'"]*?\s+from\s+|\bimport\s*\(\s*)(['"])([^'"]+)\2/g;
+
+export function slugifyProjectName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "uigen-project";
+}
+
+// Resolves "@scope/pkg/sub" to "@scope/pkg" and "pkg/sub" to "pkg"
+export function getPackageName(specifier: string): string {
+  return parsePackageSpecifier(specifier).name;
+}
+
+// Root-absolute imports only resolve in the virtual FS, so point them at the alias
+export function rewriteImports(code: string): string {
+  return code.replace(
+    IMPORT_SPECIFIER_REGEX,
+    (match, prefix: string, quote: string, specifier: string) =>
+      specifier.startsWith("/")
+        ? `${prefix}${quote}@${specifier}${quote}`
+        : match
+  );
+}
+
+export function collectPackageImports(code: string): Set<string> {
+  const packages = new Set<string>();
+
+  for (const match of code.matchAll(IMPORT_SPECIFIER_REGEX)) {
+    const specifier = match[3];
+    if (isPackageImport(specifier) && !specifier.endsWith(".css")) {
+      packages.add(getPackageName(specifier));
+    }
+  }
+
+  return packages;
+}
+
+function findEntryPoint(paths: string[]): string | null {
+  return (
+    ENTRY_POINTS.find((entry) => paths.includes(entry)) ||
+    paths.find((path) => path.endsWith(".jsx") || path.endsWith(".tsx")) ||
+    null
+  );
+}
+
+// Appends -1, -2, ... before the extension until the path is unused
+function findFreePath(output: Record<string, string>, path: string): string {
+  let candidate = path;
+  for (let i = 1; candidate in output; i++) {
+    candidate = path.replace(/(\.[^./]+)$/, `-${i}$1`);
+  }
+  return candidate;
+}
+
+/**
+ * Turns a serialized VirtualFileSystem into the files of a standalone
+ * Vite + React + Tailwind project. The virtual root becomes `src/`, which
+ * is also where the `@/` alias points.
+ */
+export function buildViteProject(
+  files: Record<string, FileNode>,
+  name: string
+): Record<string, string> {
+  const output: Record<string, string> = {};
+  const sourcePaths: string[] = [];
+
+  // Versions pinned in the virtual /package.json win over detected imports
+  const declared = readPackageDependencies(
+    new Map(
+      Object.values(files)
+        .filter((node) => node.type === "file")
+        .map((node) => [node.path, node.content || ""])
+    )
+  );
+  const dependencies: Record<string, string> = {
+    ...BASE_DEPENDENCIES,
+    ...declared,
+  };
+
+  for (const node of Object.values(files)) {
+    if (node.type !== "file" || node.path === "/package.json") continue;
+
+    let content = node.content || "";
+    if (SCRIPT_EXTENSIONS.test(node.path)) {
+      content = rewriteImports(content);
+      for (const pkg of collectPackageImports(content)) {
+        dependencies[pkg] ??= "latest";
+      }
+    }
+
+    output[`src${node.path}`] = content;
+    sourcePaths.push(node.path);
+  }
+
+  const entryPoint = findEntryPoint(sourcePaths);
+  const entryImport = entryPoint
+    ? `@${entryPoint.replace(SCRIPT_EXTENSIONS, "")}`
+    : null;
+
+  // The project may have a main.jsx of its own
+  const mainPath = findFreePath(output, "src/main.jsx");
+  output[mainPath] = `import React from "react";
+import ReactDOM from "react-dom/client";
+import "./index.css";
+${entryImport ? `import App from "${entryImport}";` : ""}
+
+ReactDOM.createRoot(document.getElementById("root")).render(
+  <React.StrictMode>
+    ${entryImport ? "<App />" : "<p>No component found</p>"}
+  </React.StrictMode>
+);
+`;
+
+  // Keep any stylesheet the model wrote, but make sure Tailwind is loaded first
+  const existingCss = output["src/index.css"];
+  output["src/index.css"] = existingCss
+    ? `@import "tailwindcss";\n\n${existingCss}`
+    : `@import "tailwindcss";\n`;
+
+  output["index.html"] = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${name.replace(/</g, "&lt;")}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/${mainPath}"></script>
+  </body>
+</html>
+`;
+
+  output["vite.config.js"] = `import { fileURLToPath, URL } from "node:url";
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+import tailwindcss from "@tailwindcss/vite";
+
+export default defineConfig({
+  plugins: [react(), tailwindcss()],
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+});
+`;
+
+  output["jsconfig.json"] =
+    JSON.stringify(
+      {
+        compilerOptions: {
+          baseUrl: ".",
+          jsx: "react-jsx",
+          paths: { "@/*": ["./src/*"] },
+        },
+        include: ["src"],
+      },
+      null,
+      2
+    ) + "\n";
+
+  output["package.json"] =
+    JSON.stringify(
+      {
+        name: slugifyProjectName(name),
+        private: true,
+        version: "0.0.0",
+        type: "module",
+        scripts: {
+          dev: "vite",
+          build: "vite build",
+          preview: "vite preview",
+        },
+        dependencies: Object.fromEntries(
+          Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))
+        ),
+        devDependencies: DEV_DEPENDENCIES,
+      },
+      null,
+      2
+    ) + "\n";
+
+  return output;
+}
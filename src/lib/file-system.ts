@@ -6,9 +6,40 @@ export interface FileNode {
   children?: Map<string, FileNode>;
 }
 
+export type FileHistoryCommand =
+  | "create"
+  | "str_replace"
+  | "insert"
+  | "rename"
+  | "delete";
+
+export interface FileHistoryEntry {
+  command: FileHistoryCommand;
+  path: string;
+  // Path the node had before a rename
+  previousPath?: string;
+  // File content before a str_replace or insert
+  previousContent?: string;
+  // File content a create, str_replace or insert left behind, so an undo can
+  // tell whether the file was edited by hand since
+  content?: string;
+  // Every file removed by a delete, keyed by path, so it can be restored
+  deletedFiles?: Record<string, string>;
+  timestamp: number;
+}
+
+// Maximum number of undoable changes kept for a single path
+export const MAX_HISTORY_ENTRIES = 20;
+
+export interface ChangeOptions {
+  // Off for changes replayed from another session, which are not ours to undo
+  recordHistory?: boolean;
+}
+
 export class VirtualFileSystem {
   private files: Map<string, FileNode> = new Map();
   private root: FileNode;
+  private history: Map<string, FileHistoryEntry[]> = new Map();
 
   constructor() {
     this.root = {
@@ -142,8 +173,27 @@ export class VirtualFileSystem {
     return true;
   }
 
-  deleteFile(path: string): boolean {
+  deleteFile(
+    path: string,
+    { recordHistory = true }: ChangeOptions = {}
+  ): boolean {
     const normalized = this.normalizePath(path);
+    const deletedFiles = this.collectFiles(normalized);
+
+    if (!this.removeNode(normalized)) {
+      return false;
+    }
+
+    if (recordHistory) {
+      this.recordHistory({ command: "delete", path: normalized, deletedFiles });
+    } else {
+      // Edits to files deleted elsewhere can no longer be undone here
+      this.dropHistory(normalized);
+    }
+    return true;
+  }
+
+  private removeNode(normalized: string): boolean {
     const file = this.files.get(normalized);
 
     if (!file || normalized === "/") {
@@ -158,7 +208,7 @@ export class VirtualFileSystem {
     // If it's a directory, remove all children recursively
     if (file.type === "directory" && file.children) {
       for (const [_, child] of file.children) {
-        this.deleteFile(child.path);
+        this.removeNode(child.path);
       }
     }
 
@@ -168,10 +218,47 @@ export class VirtualFileSystem {
     return true;
   }
 
-  rename(oldPath: string, newPath: string): boolean {
+  private collectFiles(normalized: string): Record<string, string> {
+    const result: Record<string, string> = {};
+
+    for (const [path, node] of this.files) {
+      if (
+        node.type === "file" &&
+        (path === normalized || path.startsWith(normalized + "/"))
+      ) {
+        result[path] = node.content || "";
+      }
+    }
+
+    return result;
+  }
+
+  rename(
+    oldPath: string,
+    newPath: string,
+    { recordHistory = true }: ChangeOptions = {}
+  ): boolean {
     const normalizedOld = this.normalizePath(oldPath);
     const normalizedNew = this.normalizePath(newPath);
 
+    if (!this.moveNode(normalizedOld, normalizedNew)) {
+      return false;
+    }
+
+    this.moveHistory(normalizedOld, normalizedNew);
+    if (!recordHistory) {
+      return true;
+    }
+
+    this.recordHistory({
+      command: "rename",
+      path: normalizedNew,
+      previousPath: normalizedOld,
+    });
+    return true;
+  }
+
+  private moveNode(normalizedOld: string, normalizedNew: string): boolean {
     // Can't rename root
     if (normalizedOld === "/" || normalizedNew === "/") {
       return false;
@@ -317,6 +404,7 @@ export class VirtualFileSystem {
     this.files.clear();
     this.root.children?.clear();
     this.files.set("/", this.root);
+    this.history.clear();
 
     // Sort paths to ensure parent directories are created first
     const paths = Object.keys(data).sort();
@@ -339,6 +427,8 @@ export class VirtualFileSystem {
   }
 
   deserializeFromNodes(data: Record<string, FileNode>): void {
+    const previousState = this.describePaths();
+
     // Clear existing files except root
     this.files.clear();
     this.root.children?.clear();
@@ -369,6 +459,15 @@ export class VirtualFileSystem {
         this.createDirectory(path);
       }
     }
+
+    // Undo history survives for paths the new tree leaves as they were, so a
+    // resync or restore only drops the steps it actually invalidated
+    const currentState = this.describePaths();
+    for (const path of Array.from(this.history.keys())) {
+      if (previousState.get(path) !== currentState.get(path)) {
+        this.history.delete(path);
+      }
+    }
   }
 
   // Text editor command implementations
@@ -437,6 +536,11 @@ export class VirtualFileSystem {
 
     // Create the file
     this.createFile(path, content);
+    this.recordHistory({
+      command: "create",
+      path: this.normalizePath(path),
+      content,
+    });
     return `File created: ${path}`;
   }
 
@@ -467,6 +571,12 @@ export class VirtualFileSystem {
     // Replace all occurrences
     const updatedContent = content.split(oldStr).join(newStr || "");
     this.updateFile(path, updatedContent);
+    this.recordHistory({
+      command: "str_replace",
+      path: this.normalizePath(path),
+      previousContent: content,
+      content: updatedContent,
+    });
 
     return `Replaced ${occurrences} occurrence(s) of the string in ${path}`;
   }
@@ -497,12 +607,165 @@ export class VirtualFileSystem {
     lines.splice(insertLine, 0, text || "");
     const updatedContent = lines.join("\n");
     this.updateFile(path, updatedContent);
+    this.recordHistory({
+      command: "insert",
+      path: this.normalizePath(path),
+      previousContent: content,
+      content: updatedContent,
+    });
 
     return `Text inserted at line ${insertLine} in ${path}`;
   }
 
+  undoEdit(path: string): string {
+    const normalized = this.normalizePath(path);
+    const entries = this.history.get(normalized) || [];
+    const entry = entries[entries.length - 1];
+
+    if (!entry) {
+      return `Error: No edit history found for ${path}`;
+    }
+
+    // Entries stay in the history until their undo succeeds
+    const result = this.applyUndo(path, normalized, entry);
+    if (!result.startsWith("Error:")) {
+      // An undone rename has taken its history back to the previous path
+      this.dropLastHistoryEntry(
+        entry.command === "rename" ? entry.previousPath! : normalized
+      );
+    }
+    return result;
+  }
+
+  private applyUndo(
+    path: string,
+    normalized: string,
+    entry: FileHistoryEntry
+  ): string {
+    const current = this.readFile(normalized);
+    if (
+      entry.content !== undefined &&
+      current !== null &&
+      current !== entry.content
+    ) {
+      return `Error: ${path} has changed since the last edit and cannot be undone`;
+    }
+
+    switch (entry.command) {
+      case "create":
+        if (!this.removeNode(normalized)) {
+          return `Error: File not found: ${path}`;
+        }
+        return `Undid creation of ${path}`;
+
+      case "str_replace":
+      case "insert":
+        if (!this.updateFile(normalized, entry.previousContent ?? "")) {
+          return `Error: File not found: ${path}`;
+        }
+        return `Reverted last edit to ${path}`;
+
+      case "rename":
+        if (!entry.previousPath || !this.moveNode(normalized, entry.previousPath)) {
+          return `Error: Cannot move ${path} back to ${entry.previousPath}`;
+        }
+        this.moveHistory(normalized, entry.previousPath);
+        return `Renamed ${path} back to ${entry.previousPath}`;
+
+      case "delete":
+        if (this.exists(normalized)) {
+          return `Error: Cannot restore ${path}, the path is in use`;
+        }
+        for (const [filePath, content] of Object.entries(
+          entry.deletedFiles || {}
+        )) {
+          this.createFile(filePath, content);
+        }
+        if (!this.exists(normalized)) {
+          // Deleted directories without files still need to come back
+          let currentPath = "";
+          for (const part of normalized.split("/").filter(Boolean)) {
+            currentPath += "/" + part;
+            if (!this.exists(currentPath)) {
+              this.createDirectory(currentPath);
+            }
+          }
+        }
+        return `Restored ${path}`;
+    }
+  }
+
+  getHistory(path: string): FileHistoryEntry[] {
+    return [...(this.history.get(this.normalizePath(path)) || [])];
+  }
+
+  serializeHistory(): Record<string, FileHistoryEntry[]> {
+    return Object.fromEntries(this.history);
+  }
+
+  deserializeHistory(data: Record<string, FileHistoryEntry[]>): void {
+    this.history.clear();
+
+    for (const [path, entries] of Object.entries(data || {})) {
+      if (Array.isArray(entries) && entries.length > 0) {
+        this.history.set(path, entries.slice(-MAX_HISTORY_ENTRIES));
+      }
+    }
+  }
+
+  private recordHistory(entry: Omit<FileHistoryEntry, "timestamp">): void {
+    const entries = this.history.get(entry.path) || [];
+    entries.push({ ...entry, timestamp: Date.now() });
+
+    // Drop the oldest entries once the per-path limit is reached
+    this.history.set(entry.path, entries.slice(-MAX_HISTORY_ENTRIES));
+  }
+
+  private dropLastHistoryEntry(path: string): void {
+    const entries = this.history.get(path);
+    entries?.pop();
+
+    if (entries?.length === 0) {
+      this.history.delete(path);
+    }
+  }
+
+  // What is at each path, so two trees can be compared path by path
+  private describePaths(): Map<string, string> {
+    const state = new Map<string, string>();
+    for (const [path, node] of this.files) {
+      state.set(
+        path,
+        node.type === "file" ? `file:${node.content || ""}` : "directory"
+      );
+    }
+    return state;
+  }
+
+  private dropHistory(path: string): void {
+    for (const historyPath of Array.from(this.history.keys())) {
+      if (historyPath === path || historyPath.startsWith(path + "/")) {
+        this.history.delete(historyPath);
+      }
+    }
+  }
+
+  private moveHistory(fromPath: string, toPath: string): void {
+    for (const [path, entries] of Array.from(this.history)) {
+      if (path === fromPath || path.startsWith(fromPath + "/")) {
+        const movedPath = toPath + path.substring(fromPath.length);
+        this.history.delete(path);
+        this.history.set(
+          movedPath,
+          entries.map((entry) => ({ ...entry, path: movedPath }))
+        );
+      }
+    }
+  }
+
   reset(): void {
     // Clear all files and reset to initial state
+    this.history.clear();
     this.files.clear();
     this.root = {
       type: "directory",
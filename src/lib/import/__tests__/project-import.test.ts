@@ -0,0 +1,112 @@
+import { test, expect } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import {
+  getSkipReason,
+  importIntoFileSystem,
+  isBinaryContent,
+  stripCommonRoot,
+  unzipEntries,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_FILES,
+  MAX_UNZIPPED_SIZE,
+} from "@/lib/import/project-import";
+import { VirtualFileSystem } from "@/lib/file-system";
+
+function entry(path: string, content: string) {
+  return { path, bytes: strToU8(content) };
+}
+
+test("getSkipReason ignores node_modules, lockfiles and binaries", () => {
+  expect(getSkipReason("/node_modules/react/index.js")).toBe(
+    "ignored directory"
+  );
+  expect(getSkipReason("/app/.git/config")).toBe("ignored directory");
+  expect(getSkipReason("/package-lock.json")).toBe("ignored file");
+  expect(getSkipReason("/public/logo.png")).toBe("binary file");
+  expect(getSkipReason("/src/App.jsx")).toBeNull();
+});
+
+test("isBinaryContent detects NUL bytes", () => {
+  expect(isBinaryContent(new Uint8Array([72, 105, 0, 33]))).toBe(true);
+  expect(isBinaryContent(strToU8("plain text"))).toBe(false);
+});
+
+test("stripCommonRoot removes a shared wrapper folder", () => {
+  expect(stripCommonRoot(["my-app/App.jsx", "my-app/components/Card.jsx"]))
+    .toEqual(["/App.jsx", "/components/Card.jsx"]);
+  expect(stripCommonRoot(["App.jsx", "components/Card.jsx"])).toEqual([
+    "/App.jsx",
+    "/components/Card.jsx",
+  ]);
+});
+
+test("importIntoFileSystem creates files with parents", () => {
+  const fs = new VirtualFileSystem();
+
+  const result = importIntoFileSystem(fs, [
+    entry("project/App.jsx", "export default () => null;"),
+    entry("project/components/Card.jsx", "card"),
+  ]);
+
+  expect(result.imported).toEqual(["/App.jsx", "/components/Card.jsx"]);
+  expect(result.skipped).toEqual([]);
+  expect(fs.readFile("/components/Card.jsx")).toBe("card");
+});
+
+test("importIntoFileSystem skips ignored, binary, large and existing files", () => {
+  const fs = new VirtualFileSystem();
+  fs.createFile("/App.jsx", "existing");
+
+  const result = importIntoFileSystem(fs, [
+    entry("App.jsx", "new"),
+    entry("node_modules/react/index.js", "react"),
+    { path: "data.txt", bytes: new Uint8Array([1, 0, 2]) },
+    { path: "big.js", bytes: new Uint8Array(MAX_IMPORT_FILE_SIZE + 1).fill(97) },
+  ]);
+
+  expect(result.imported).toEqual([]);
+  expect(result.skipped).toEqual([
+    { path: "/App.jsx", reason: "already exists" },
+    { path: "/node_modules/react/index.js", reason: "ignored directory" },
+    { path: "/data.txt", reason: "binary file" },
+    { path: "/big.js", reason: "file too large" },
+  ]);
+  expect(fs.readFile("/App.jsx")).toBe("existing");
+});
+
+test("importIntoFileSystem caps the number of files", () => {
+  const fs = new VirtualFileSystem();
+  const entries = Array.from({ length: MAX_IMPORT_FILES + 2 }, (_, i) =>
+    entry(`file${i}.js`, "x")
+  );
+
+  const result = importIntoFileSystem(fs, entries);
+
+  expect(result.imported).toHaveLength(MAX_IMPORT_FILES);
+  expect(result.skipped[0].reason).toBe("too many files");
+});
+
+test("unzipEntries extracts text files and filters ignored entries", () => {
+  const zip = zipSync({
+    "app/App.jsx": strToU8("app"),
+    "app/node_modules/pkg/index.js": strToU8("pkg"),
+    "app/logo.png": strToU8("png"),
+  });
+
+  const entries = unzipEntries(zip);
+
+  expect(entries.map((e) => e.path)).toEqual(["app/App.jsx"]);
+  expect(new TextDecoder().decode(entries[0].bytes)).toBe("app");
+});
+
+test("unzipEntries stops once the archive unzips past the byte budget", () => {
+  const content = strToU8("a".repeat(MAX_IMPORT_FILE_SIZE));
+  const files: Record<string, Uint8Array> = {};
+  for (let i = 0; i * MAX_IMPORT_FILE_SIZE <= MAX_UNZIPPED_SIZE; i++) {
+    files[`file${i}.txt`] = content;
+  }
+
+  expect(() => unzipEntries(zipSync(files))).toThrow(
+    "Archive is too large once unzipped"
+  );
+});
@@ -0,0 +1,201 @@
+import { Unzip, UnzipInflate } from "fflate";
+import type { VirtualFileSystem } from "@/lib/file-system";
+
+export const MAX_IMPORT_FILE_SIZE = 512 * 1024;
+export const MAX_IMPORT_TOTAL_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_FILES = 500;
+// Bytes a zip may decompress to in total, oversized entries included, before
+// unzipping stops; zip headers can understate sizes, so the bytes are counted
+// as they come out
+export const MAX_UNZIPPED_SIZE = 4 * MAX_IMPORT_TOTAL_SIZE;
+
+// Directories that are never worth importing into the virtual FS
+const IGNORED_DIRECTORIES = new Set([
+  "node_modules",
+  ".git",
+  ".next",
+  "dist",
+  "build",
+  "coverage",
+  ".turbo",
+  ".vercel",
+]);
+
+const IGNORED_FILES = new Set([
+  ".DS_Store",
+  "Thumbs.db",
+  "package-lock.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+]);
+
+const BINARY_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "webp", "ico", "bmp", "avif",
+  "woff", "woff2", "ttf", "otf", "eot",
+  "mp3", "mp4", "wav", "webm", "mov",
+  "pdf", "zip", "gz", "tar", "7z",
+  "exe", "dll", "so", "dylib", "wasm", "bin",
+]);
+
+export interface ImportEntry {
+  path: string;
+  bytes: Uint8Array;
+}
+
+export interface ImportResult {
+  imported: string[];
+  skipped: Array<{ path: string; reason: string }>;
+}
+
+function getExtension(path: string): string {
+  const name = path.split("/").pop() || "";
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+export function getSkipReason(path: string): string | null {
+  const parts = path.split("/").filter(Boolean);
+
+  if (parts.some((part) => IGNORED_DIRECTORIES.has(part))) {
+    return "ignored directory";
+  }
+  if (IGNORED_FILES.has(parts[parts.length - 1])) {
+    return "ignored file";
+  }
+  if (BINARY_EXTENSIONS.has(getExtension(path))) {
+    return "binary file";
+  }
+  return null;
+}
+
+// Text files never contain NUL bytes, so one in the first 8KB means binary
+export function isBinaryContent(bytes: Uint8Array): boolean {
+  const length = Math.min(bytes.length, 8000);
+  for (let i = 0; i < length; i++) {
+    if (bytes[i] === 0) return true;
+  }
+  return false;
+}
+
+// Drops a top-level folder shared by every entry, e.g. "my-app/" in a zip
+export function stripCommonRoot(paths: string[]): string[] {
+  const split = paths.map((path) => path.split("/").filter(Boolean));
+  const first = split[0]?.[0];
+
+  const shared =
+    first !== undefined &&
+    split.every((parts) => parts.length > 1 && parts[0] === first);
+
+  return split.map(
+    (parts) => "/" + (shared ? parts.slice(1) : parts).join("/")
+  );
+}
+
+function concatChunks(chunks: Uint8Array[], size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+export function unzipEntries(zip: Uint8Array): ImportEntry[] {
+  const entries: ImportEntry[] = [];
+  let unzippedSize = 0;
+
+  const unzip = new Unzip((file) => {
+    // Skip oversized and ignored entries before they are decompressed
+    if (
+      file.name.endsWith("/") ||
+      (file.originalSize ?? 0) > MAX_IMPORT_FILE_SIZE ||
+      getSkipReason(file.name) !== null
+    ) {
+      return;
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    file.ondata = (error, chunk, final) => {
+      if (error) throw error;
+
+      unzippedSize += chunk.length;
+      if (unzippedSize > MAX_UNZIPPED_SIZE) {
+        throw new Error("Archive is too large once unzipped");
+      }
+      size += chunk.length;
+      // Entries that turn out larger than declared are dropped
+      if (size <= MAX_IMPORT_FILE_SIZE) chunks.push(chunk);
+
+      if (final && size <= MAX_IMPORT_FILE_SIZE) {
+        entries.push({ path: file.name, bytes: concatChunks(chunks, size) });
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  unzip.push(zip, true);
+
+  return entries;
+}
+
+export async function readImportEntries(files: File[]): Promise<ImportEntry[]> {
+  const entries: ImportEntry[] = [];
+
+  for (const file of files) {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+
+    if (file.name.toLowerCase().endsWith(".zip")) {
+      entries.push(...unzipEntries(bytes));
+    } else {
+      entries.push({ path: file.webkitRelativePath || file.name, bytes });
+    }
+  }
+
+  return entries;
+}
+
+export function importIntoFileSystem(
+  fileSystem: VirtualFileSystem,
+  entries: ImportEntry[]
+): ImportResult {
+  const result: ImportResult = { imported: [], skipped: [] };
+  const paths = stripCommonRoot(entries.map((entry) => entry.path));
+  const decoder = new TextDecoder();
+  let totalSize = 0;
+
+  entries.forEach((entry, index) => {
+    const path = paths[index];
+    const skip = (reason: string) => result.skipped.push({ path, reason });
+
+    const skipReason = getSkipReason(path);
+    if (skipReason) return skip(skipReason);
+
+    if (entry.bytes.length > MAX_IMPORT_FILE_SIZE) {
+      return skip("file too large");
+    }
+    if (isBinaryContent(entry.bytes)) {
+      return skip("binary file");
+    }
+    if (result.imported.length >= MAX_IMPORT_FILES) {
+      return skip("too many files");
+    }
+    if (totalSize + entry.bytes.length > MAX_IMPORT_TOTAL_SIZE) {
+      return skip("import size limit reached");
+    }
+
+    const message = fileSystem.createFileWithParents(
+      path,
+      decoder.decode(entry.bytes)
+    );
+    if (message.startsWith("Error:")) {
+      return skip("already exists");
+    }
+
+    totalSize += entry.bytes.length;
+    result.imported.push(path);
+  });
+
+  return result;
+}
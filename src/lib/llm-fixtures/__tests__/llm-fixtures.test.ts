@@ -0,0 +1,319 @@
+import { test, expect, describe, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type {
+  LanguageModelV1,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import {
+  extractUserPrompt,
+  findFixture,
+  getFixtureFileName,
+  getStepIndex,
+  loadFixtures,
+  saveFixtureStep,
+  toRecordedParts,
+} from "../fixture-store";
+import { FixtureLanguageModel } from "../fixture-model";
+import { RecordingLanguageModel } from "../recording-model";
+
+const finish = (finishReason: "stop" | "tool-calls"): LanguageModelV1StreamPart => ({
+  type: "finish",
+  finishReason,
+  usage: { promptTokens: 10, completionTokens: 5 },
+});
+
+const userTurn = (text: string): LanguageModelV1Prompt => [
+  { role: "system", content: "You are helpful." },
+  { role: "user", content: [{ type: "text", text }] },
+];
+
+const afterOneToolCall = (text: string): LanguageModelV1Prompt => [
+  ...userTurn(text),
+  {
+    role: "assistant",
+    content: [
+      { type: "tool-call", toolCallId: "1", toolName: "str_replace_editor", args: {} },
+    ],
+  },
+  {
+    role: "tool",
+    content: [
+      { type: "tool-result", toolCallId: "1", toolName: "str_replace_editor", result: "ok" },
+    ],
+  },
+];
+
+async function readStream(stream: ReadableStream<LanguageModelV1StreamPart>) {
+  const parts: LanguageModelV1StreamPart[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return parts;
+    parts.push(value);
+  }
+}
+
+function streamOptions(prompt: LanguageModelV1Prompt) {
+  return {
+    inputFormat: "messages" as const,
+    mode: { type: "regular" as const },
+    prompt,
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "llm-fixtures-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fixture store", () => {
+  test("reads the prompt of the current turn", () => {
+    expect(extractUserPrompt(afterOneToolCall("Build a todo list"))).toBe(
+      "Build a todo list"
+    );
+  });
+
+  test("counts model calls since the user spoke", () => {
+    expect(getStepIndex(userTurn("hi"))).toBe(0);
+    expect(getStepIndex(afterOneToolCall("hi"))).toBe(1);
+  });
+
+  test("prefers exact prompts over patterns", () => {
+    const fixtures = [
+      { pattern: /todo/i, steps: [] },
+      { prompt: "Build a TODO list ", steps: [] },
+    ];
+
+    expect(findFixture(fixtures, "build a todo list")).toBe(fixtures[1]);
+    expect(findFixture(fixtures, "A todo app please")).toBe(fixtures[0]);
+    expect(findFixture(fixtures, "A pricing table")).toBeNull();
+  });
+
+  test("drops metadata and partial tool calls when recording", () => {
+    const parts = toRecordedParts([
+      { type: "response-metadata", id: "msg_1", timestamp: new Date() },
+      { type: "text-delta", textDelta: "Hi" },
+      {
+        type: "tool-call-delta",
+        toolCallType: "function",
+        toolCallId: "1",
+        toolName: "x",
+        argsTextDelta: "{",
+      },
+      {
+        type: "finish",
+        finishReason: "stop",
+        usage: { promptTokens: 1, completionTokens: 1 },
+        providerMetadata: { anthropic: {} },
+      },
+    ]);
+
+    expect(parts).toEqual([
+      { type: "text-delta", textDelta: "Hi" },
+      { type: "finish", finishReason: "stop", usage: { promptTokens: 1, completionTokens: 1 } },
+    ]);
+  });
+
+  test("saves steps into one fixture per prompt", () => {
+    saveFixtureStep(dir, "Make a card", 0, [finish("tool-calls")]);
+    saveFixtureStep(dir, "Make a card", 1, [finish("stop")]);
+
+    const [fixture, ...rest] = loadFixtures(dir);
+
+    expect(rest).toHaveLength(0);
+    expect(fixture.file).toBe(getFixtureFileName("Make a card"));
+    expect(fixture.prompt).toBe("Make a card");
+    expect(fixture.steps).toEqual([[finish("tool-calls")], [finish("stop")]]);
+  });
+
+  test("starts a fixture over when step 0 is recorded again", () => {
+    saveFixtureStep(dir, "Make a card", 0, [finish("tool-calls")]);
+    saveFixtureStep(dir, "Make a card", 1, [finish("stop")]);
+    saveFixtureStep(dir, "Make a card", 0, [finish("stop")]);
+
+    expect(loadFixtures(dir)[0].steps).toEqual([[finish("stop")]]);
+  });
+
+  test("skips invalid fixture files", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    fs.writeFileSync(path.join(dir, "broken.json"), "{");
+
+    expect(loadFixtures(dir)).toEqual([]);
+    warn.mockRestore();
+  });
+
+  test("compiles match patterns once and skips invalid ones", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    fs.writeFileSync(
+      path.join(dir, "a-broken.json"),
+      JSON.stringify({ match: "todo(", steps: [] })
+    );
+    fs.writeFileSync(
+      path.join(dir, "b-todo.json"),
+      JSON.stringify({ match: "todo", steps: [] })
+    );
+
+    const fixtures = loadFixtures(dir);
+
+    expect(fixtures.map((fixture) => fixture.file)).toEqual(["b-todo.json"]);
+    expect(findFixture(fixtures, "A TODO app")?.file).toBe("b-todo.json");
+    expect(warn).toHaveBeenCalledWith(
+      "Skipping invalid LLM fixture a-broken.json:",
+      expect.any(SyntaxError)
+    );
+    warn.mockRestore();
+  });
+});
+
+describe("FixtureLanguageModel", () => {
+  const fallback = {
+    doStream: vi.fn(),
+    doGenerate: vi.fn(),
+  } as unknown as LanguageModelV1;
+
+  beforeEach(() => {
+    fs.writeFileSync(
+      path.join(dir, "todo.json"),
+      JSON.stringify({
+        match: "todo",
+        steps: [
+          [
+            { type: "text-delta", textDelta: "Creating it." },
+            {
+              type: "tool-call",
+              toolCallType: "function",
+              toolCallId: "call_1",
+              toolName: "str_replace_editor",
+              args: '{"command":"create","path":"/App.jsx"}',
+            },
+            finish("tool-calls"),
+          ],
+          [{ type: "text-delta", textDelta: "Done." }, finish("stop")],
+        ],
+      })
+    );
+  });
+
+  test("replays the step matching the conversation", async () => {
+    const model = new FixtureLanguageModel("fixtures", dir, fallback);
+
+    const first = await model.doStream(streamOptions(userTurn("a todo list")));
+    const second = await model.doStream(
+      streamOptions(afterOneToolCall("a todo list"))
+    );
+
+    expect((await readStream(first.stream)).map((part) => part.type)).toEqual([
+      "text-delta",
+      "tool-call",
+      "finish",
+    ]);
+    expect(await readStream(second.stream)).toEqual([
+      { type: "text-delta", textDelta: "Done." },
+      finish("stop"),
+    ]);
+  });
+
+  test("finishes cleanly when called past the recorded steps", async () => {
+    const model = new FixtureLanguageModel("fixtures", dir, fallback);
+    const prompt: LanguageModelV1Prompt = [
+      ...afterOneToolCall("a todo list"),
+      { role: "assistant", content: [{ type: "text", text: "Done." }] },
+    ];
+
+    const { stream } = await model.doStream(streamOptions(prompt));
+
+    expect(await readStream(stream)).toEqual([
+      { type: "finish", finishReason: "stop", usage: { promptTokens: 0, completionTokens: 0 } },
+    ]);
+  });
+
+  test("aggregates a step for non-streaming calls", async () => {
+    const model = new FixtureLanguageModel("fixtures", dir, fallback);
+
+    const result = await model.doGenerate(streamOptions(userTurn("todo")));
+
+    expect(result.text).toBe("Creating it.");
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.finishReason).toBe("tool-calls");
+  });
+
+  test("uses the fallback model for unmatched prompts", async () => {
+    const model = new FixtureLanguageModel("fixtures", dir, fallback);
+    const options = streamOptions(userTurn("a pricing table"));
+
+    await model.doStream(options);
+
+    expect(fallback.doStream).toHaveBeenCalledWith(options);
+  });
+
+  test("ends the fallback's turn at its step limit", async () => {
+    const model = new FixtureLanguageModel("fixtures", dir, fallback, {
+      fallbackMaxSteps: 1,
+    });
+    vi.mocked(fallback.doStream).mockClear();
+
+    const { stream } = await model.doStream(
+      streamOptions(afterOneToolCall("a pricing table"))
+    );
+
+    expect(fallback.doStream).not.toHaveBeenCalled();
+    expect((await readStream(stream)).map((part) => part.type)).toEqual([
+      "finish",
+    ]);
+  });
+});
+
+describe("RecordingLanguageModel", () => {
+  test("passes parts through and records them as a fixture step", async () => {
+    const live: LanguageModelV1StreamPart[] = [
+      { type: "response-metadata", id: "msg_1" },
+      { type: "text-delta", textDelta: "Hello" },
+      finish("stop"),
+    ];
+    const inner = {
+      specificationVersion: "v1",
+      provider: "anthropic.messages",
+      modelId: "claude-haiku-4-5",
+      defaultObjectGenerationMode: "tool",
+      doGenerate: vi.fn(),
+      doStream: vi.fn(async () => ({
+        stream: new ReadableStream<LanguageModelV1StreamPart>({
+          start(controller) {
+            live.forEach((part) => controller.enqueue(part));
+            controller.close();
+          },
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      })),
+    } as unknown as LanguageModelV1;
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    const model = new RecordingLanguageModel(inner, dir);
+    const { stream } = await model.doStream(streamOptions(userTurn("Say hello")));
+
+    expect(model.provider).toBe("anthropic.messages");
+    expect(await readStream(stream)).toEqual(live);
+
+    const fixture = findFixture(loadFixtures(dir), "say hello");
+    expect(fixture?.steps).toEqual([
+      [{ type: "text-delta", textDelta: "Hello" }, finish("stop")],
+    ]);
+    log.mockRestore();
+  });
+});
+
+test("the bundled todo fixture replays a full generation", () => {
+  const fixtures = loadFixtures(path.join(process.cwd(), "fixtures/llm"));
+  const fixture = findFixture(fixtures, "Create a todo list app");
+
+  expect(fixture?.steps).toHaveLength(3);
+  expect(fixture?.steps[2].at(-1)).toMatchObject({ finishReason: "stop" });
+});
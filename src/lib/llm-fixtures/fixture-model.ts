@@ -0,0 +1,138 @@
+import type {
+  LanguageModelV1,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import {
+  extractUserPrompt,
+  findFixture,
+  getStepIndex,
+  loadFixtures,
+} from "./fixture-store";
+
+// Ends a turn cleanly when the model is called more often than was recorded
+const END_OF_FIXTURE: LanguageModelV1StreamPart[] = [
+  {
+    type: "finish",
+    finishReason: "stop",
+    usage: { promptTokens: 0, completionTokens: 0 },
+  },
+];
+
+export interface FixtureLanguageModelOptions {
+  // Pause between replayed parts so the UI streams like a real model
+  delayMs?: number;
+  // Model calls the fallback gets per turn; replays run to their own length
+  fallbackMaxSteps?: number;
+}
+
+/**
+ * Replays recorded stream parts for prompts that match a fixture and hands
+ * every other prompt to the fallback model.
+ */
+export class FixtureLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1" as const;
+  readonly provider = "fixture";
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode = "tool" as const;
+
+  constructor(
+    modelId: string,
+    private readonly fixturesDir: string,
+    private readonly fallback: LanguageModelV1,
+    private readonly options: FixtureLanguageModelOptions = {}
+  ) {
+    this.modelId = modelId;
+  }
+
+  private getParts(
+    prompt: Parameters<LanguageModelV1["doStream"]>[0]["prompt"]
+  ): LanguageModelV1StreamPart[] | null {
+    const fixture = findFixture(
+      loadFixtures(this.fixturesDir),
+      extractUserPrompt(prompt)
+    );
+    if (fixture) {
+      return fixture.steps[getStepIndex(prompt)] || END_OF_FIXTURE;
+    }
+
+    const { fallbackMaxSteps } = this.options;
+    if (
+      fallbackMaxSteps !== undefined &&
+      getStepIndex(prompt) >= fallbackMaxSteps
+    ) {
+      return END_OF_FIXTURE;
+    }
+    return null;
+  }
+
+  async doGenerate(
+    options: Parameters<LanguageModelV1["doGenerate"]>[0]
+  ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
+    const parts = this.getParts(options.prompt);
+    if (!parts) {
+      return this.fallback.doGenerate(options);
+    }
+
+    const text = parts
+      .map((part) => (part.type === "text-delta" ? part.textDelta : ""))
+      .join("");
+    const toolCalls = parts.flatMap((part) =>
+      part.type === "tool-call"
+        ? [
+            {
+              toolCallType: part.toolCallType,
+              toolCallId: part.toolCallId,
+              toolName: part.toolName,
+              args: part.args,
+            },
+          ]
+        : []
+    );
+    const finish = (parts.find((part) => part.type === "finish") ||
+      END_OF_FIXTURE[0]) as Extract<LanguageModelV1StreamPart, { type: "finish" }>;
+
+    return {
+      text,
+      toolCalls,
+      finishReason: finish.finishReason,
+      usage: finish.usage,
+      warnings: [],
+      rawCall: {
+        rawPrompt: options.prompt,
+        rawSettings: {},
+      },
+    };
+  }
+
+  async doStream(
+    options: Parameters<LanguageModelV1["doStream"]>[0]
+  ): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
+    const parts = this.getParts(options.prompt);
+    if (!parts) {
+      return this.fallback.doStream(options);
+    }
+
+    const delayMs = this.options.delayMs ?? 0;
+    const stream = new ReadableStream<LanguageModelV1StreamPart>({
+      async start(controller) {
+        for (const part of parts) {
+          if (delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
+          }
+          controller.enqueue(part);
+        }
+        controller.close();
+      },
+    });
+
+    return {
+      stream,
+      warnings: [],
+      rawCall: {
+        rawPrompt: options.prompt,
+        rawSettings: {},
+      },
+      rawResponse: { headers: {} },
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import type {
+  LanguageModelV1Message,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+
+export const DEFAULT_FIXTURES_DIR = "fixtures/llm";
+
+// Parts worth replaying; metadata and partial tool-call deltas are dropped
+const RECORDED_PART_TYPES = new Set<LanguageModelV1StreamPart["type"]>([
+  "text-delta",
+  "reasoning",
+  "tool-call",
+  "finish",
+  "error",
+]);
+
+/**
+ * One recorded generation. Each step is the stream of a single model call;
+ * a turn that runs two tools before answering has three steps.
+ */
+export interface LLMFixture {
+  // Matches the user prompt exactly, ignoring case and surrounding whitespace
+  prompt?: string;
+  // Case-insensitive regular expression tested against the user prompt
+  match?: string;
+  steps: LanguageModelV1StreamPart[][];
+}
+
+export interface LoadedFixture extends LLMFixture {
+  file: string;
+  // `match`, compiled once when the fixture is loaded
+  pattern?: RegExp;
+}
+
+export function getFixturesDir(
+  env: Record<string, string | undefined> = process.env
+): string {
+  return path.resolve(process.cwd(), env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+}
+
+// The prompt of the current turn is the last user message
+export function extractUserPrompt(messages: LanguageModelV1Message[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "user") {
+      return message.content
+        .filter((part) => part.type === "text")
+        .map((part) => (part as { text: string }).text)
+        .join(" ");
+    }
+  }
+  return "";
+}
+
+// Every tool round trip since the user spoke adds one assistant message
+export function getStepIndex(messages: LanguageModelV1Message[]): number {
+  let steps = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") break;
+    if (messages[i].role === "assistant") steps++;
+  }
+  return steps;
+}
+
+/**
+ * Loads every *.json fixture in a directory, sorted by file name so the
+ * first match is predictable. Unreadable files and fixtures with an invalid
+ * match pattern are skipped with a warning.
+ */
+export function loadFixtures(dir: string): LoadedFixture[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => {
+      try {
+        const fixture = JSON.parse(
+          fs.readFileSync(path.join(dir, file), "utf8")
+        ) as LLMFixture;
+        if (!Array.isArray(fixture.steps)) return [];
+
+        if (fixture.match === undefined) return [{ ...fixture, file }];
+        return [{ ...fixture, file, pattern: new RegExp(fixture.match, "i") }];
+      } catch (error) {
+        console.warn(`Skipping invalid LLM fixture ${file}:`, error);
+        return [];
+      }
+    });
+}
+
+export function findFixture<T extends Pick<LoadedFixture, "prompt" | "pattern">>(
+  fixtures: T[],
+  prompt: string
+): T | null {
+  const normalized = prompt.trim().toLowerCase();
+
+  return (
+    fixtures.find(
+      (fixture) => fixture.prompt?.trim().toLowerCase() === normalized
+    ) ||
+    fixtures.find((fixture) => fixture.pattern?.test(prompt)) ||
+    null
+  );
+}
+
+export function toRecordedParts(
+  parts: LanguageModelV1StreamPart[]
+): LanguageModelV1StreamPart[] {
+  return parts
+    .filter((part) => RECORDED_PART_TYPES.has(part.type))
+    .map((part) =>
+      part.type === "finish"
+        ? { type: "finish", finishReason: part.finishReason, usage: part.usage }
+        : part
+    );
+}
+
+export function getFixtureFileName(prompt: string): string {
+  const slug = prompt
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+  const hash = createHash("sha1").update(prompt).digest("hex").slice(0, 8);
+  return `${slug || "prompt"}-${hash}.json`;
+}
+
+/**
+ * Stores one step of a recorded generation. Step 0 starts the fixture over,
+ * later steps replace their slot and drop anything recorded after it.
+ */
+export function saveFixtureStep(
+  dir: string,
+  prompt: string,
+  stepIndex: number,
+  parts: LanguageModelV1StreamPart[]
+): string {
+  const file = path.join(dir, getFixtureFileName(prompt));
+
+  let fixture: LLMFixture = { prompt, steps: [] };
+  if (stepIndex > 0 && fs.existsSync(file)) {
+    fixture = JSON.parse(fs.readFileSync(file, "utf8"));
+  }
+
+  fixture.steps = fixture.steps.slice(0, stepIndex);
+  fixture.steps[stepIndex] = toRecordedParts(parts);
+
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + "\n");
+  return file;
+}
@@ -0,0 +1,60 @@
+import type {
+  LanguageModelV1,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import { extractUserPrompt, getStepIndex, saveFixtureStep } from "./fixture-store";
+
+/**
+ * Passes calls through to a real model and writes each streamed step to a
+ * fixture, so a live session can later be replayed offline.
+ */
+export class RecordingLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = "v1" as const;
+  readonly provider: string;
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode: LanguageModelV1["defaultObjectGenerationMode"];
+
+  constructor(
+    private readonly model: LanguageModelV1,
+    private readonly fixturesDir: string
+  ) {
+    this.provider = model.provider;
+    this.modelId = model.modelId;
+    this.defaultObjectGenerationMode = model.defaultObjectGenerationMode;
+  }
+
+  doGenerate(
+    options: Parameters<LanguageModelV1["doGenerate"]>[0]
+  ): ReturnType<LanguageModelV1["doGenerate"]> {
+    return this.model.doGenerate(options);
+  }
+
+  async doStream(
+    options: Parameters<LanguageModelV1["doStream"]>[0]
+  ): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
+    const result = await this.model.doStream(options);
+    const prompt = extractUserPrompt(options.prompt);
+    const stepIndex = getStepIndex(options.prompt);
+    const fixturesDir = this.fixturesDir;
+    const parts: LanguageModelV1StreamPart[] = [];
+
+    const stream = result.stream.pipeThrough(
+      new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+        transform(part, controller) {
+          parts.push(part);
+          controller.enqueue(part);
+        },
+        flush() {
+          try {
+            const file = saveFixtureStep(fixturesDir, prompt, stepIndex, parts);
+            console.log(`Recorded step ${stepIndex} to ${file}`);
+          } catch (error) {
+            console.error("Failed to record LLM fixture:", error);
+          }
+        },
+      })
+    );
+
+    return { ...result, stream };
+  }
+}
@@ -0,0 +1,212 @@
+import fs from "fs";
+import path from "path";
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-haiku-4-5";
+export const MOCK_MODEL = "mock-claude-sonnet-4-0";
+
+const DEFAULT_CONFIG_FILE = "llm-providers.json";
+
+export type ProviderType = "anthropic" | "openai-compatible" | "mock";
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  type: ProviderType;
+  baseURL?: string;
+  apiKey?: string;
+  // Name of the env variable holding the key, so it stays out of the config file
+  apiKeyEnv?: string;
+  models: string[];
+  // Whether the models accept image input; only assumed for Anthropic
+  vision?: boolean;
+}
+
+export interface ModelOption {
+  // "<provider id>/<model name>", e.g. "ollama/llama3.1"
+  id: string;
+  label: string;
+  provider: string;
+}
+
+export interface ModelRegistry {
+  providers: ProviderConfig[];
+  models: ModelOption[];
+  defaultModel: string;
+}
+
+export interface ResolvedModel {
+  provider: ProviderConfig;
+  modelName: string;
+}
+
+type Env = Record<string, string | undefined>;
+
+interface ConfigFile {
+  default?: string;
+  providers?: unknown[];
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function readConfigFile(env: Env): ConfigFile {
+  const configPath = path.resolve(
+    process.cwd(),
+    env.LLM_PROVIDERS_FILE || DEFAULT_CONFIG_FILE
+  );
+  if (!fs.existsSync(configPath)) return {};
+
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (error) {
+    console.error(`Failed to read ${configPath}:`, error);
+    return {};
+  }
+}
+
+function toProviderConfig(value: unknown): ProviderConfig | null {
+  if (!value || typeof value !== "object") return null;
+
+  const config = value as Partial<ProviderConfig>;
+  const models = Array.isArray(config.models)
+    ? config.models.filter((model): model is string => typeof model === "string")
+    : [];
+
+  if (
+    typeof config.id !== "string" ||
+    !config.id ||
+    config.id.includes("/") ||
+    (config.type !== "anthropic" && config.type !== "openai-compatible") ||
+    models.length === 0
+  ) {
+    return null;
+  }
+  if (config.type === "openai-compatible" && typeof config.baseURL !== "string") {
+    return null;
+  }
+
+  return {
+    id: config.id,
+    name: typeof config.name === "string" ? config.name : config.id,
+    type: config.type,
+    baseURL: config.baseURL,
+    apiKey: config.apiKey,
+    apiKeyEnv: config.apiKeyEnv,
+    models,
+    vision: config.type === "anthropic" || config.vision === true,
+  };
+}
+
+/**
+ * Builds the list of available models from the environment and the optional
+ * llm-providers.json file. When nothing is configured the mock provider is
+ * the only entry, which keeps the app usable without any API key.
+ */
+export function createModelRegistry(env: Env = process.env): ModelRegistry {
+  const providers: ProviderConfig[] = [];
+  const config = readConfigFile(env);
+
+  if (env.ANTHROPIC_API_KEY?.trim()) {
+    const models = splitList(env.ANTHROPIC_MODELS);
+    providers.push({
+      id: "anthropic",
+      name: "Anthropic",
+      type: "anthropic",
+      models: models.length > 0 ? models : [DEFAULT_ANTHROPIC_MODEL],
+      vision: true,
+    });
+  }
+
+  // Shorthand for a single endpoint such as a local Ollama or llama.cpp server
+  const compatibleModels = splitList(env.OPENAI_COMPATIBLE_MODELS);
+  if (env.OPENAI_COMPATIBLE_BASE_URL && compatibleModels.length > 0) {
+    providers.push({
+      id: env.OPENAI_COMPATIBLE_NAME || "openai-compatible",
+      name: env.OPENAI_COMPATIBLE_NAME || "OpenAI-compatible",
+      type: "openai-compatible",
+      baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+      models: compatibleModels,
+      vision: env.OPENAI_COMPATIBLE_VISION === "true",
+    });
+  }
+
+  for (const entry of config.providers || []) {
+    const provider = toProviderConfig(entry);
+    if (!provider) {
+      console.warn("Ignoring invalid provider in LLM config:", entry);
+      continue;
+    }
+    if (!providers.some((existing) => existing.id === provider.id)) {
+      providers.push(provider);
+    }
+  }
+
+  if (providers.length === 0) {
+    providers.push({
+      id: "mock",
+      name: "Mock",
+      type: "mock",
+      models: [MOCK_MODEL],
+      vision: true,
+    });
+  }
+
+  const models = providers.flatMap((provider) =>
+    provider.models.map((model) => ({
+      id: `${provider.id}/${model}`,
+      label: `${provider.name} · ${model}`,
+      provider: provider.id,
+    }))
+  );
+
+  const preferred = env.DEFAULT_MODEL || config.default;
+  const defaultModel =
+    preferred && models.some((model) => model.id === preferred)
+      ? preferred
+      : models[0].id;
+
+  return { providers, models, defaultModel };
+}
+
+/**
+ * Looks up a "<provider>/<model>" id, falling back to the registry default
+ * for missing or unknown ids (e.g. a project saved with a since-removed model).
+ */
+export function resolveModel(
+  registry: ModelRegistry,
+  modelId?: string | null
+): ResolvedModel {
+  const id =
+    modelId && registry.models.some((model) => model.id === modelId)
+      ? modelId
+      : registry.defaultModel;
+
+  // Model names may contain slashes themselves, e.g. "meta-llama/Llama-3"
+  const separator = id.indexOf("/");
+  const providerId = id.slice(0, separator);
+  const modelName = id.slice(separator + 1);
+
+  return {
+    provider: registry.providers.find((provider) => provider.id === providerId)!,
+    modelName,
+  };
+}
+
+export function supportsImages(
+  registry: ModelRegistry,
+  modelId?: string | null
+): boolean {
+  return resolveModel(registry, modelId).provider.vision === true;
+}
+
+export function getProviderApiKey(
+  provider: ProviderConfig,
+  env: Env = process.env
+): string | undefined {
+  return provider.apiKeyEnv ? env[provider.apiKeyEnv] : provider.apiKey;
+}
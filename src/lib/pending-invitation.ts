@@ -0,0 +1,16 @@
+// Remembers an invite link opened while signed out, so signing in or up
+// from it joins the project
+const STORAGE_KEY = "uigen_pending_invitation";
+
+export function setPendingInvitation(token: string) {
+  if (typeof window === "undefined") return;
+  sessionStorage.setItem(STORAGE_KEY, token);
+}
+
+export function takePendingInvitation(): string | null {
+  if (typeof window === "undefined") return null;
+
+  const token = sessionStorage.getItem(STORAGE_KEY);
+  sessionStorage.removeItem(STORAGE_KEY);
+  return token;
+}
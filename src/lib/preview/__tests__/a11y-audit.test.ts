@@ -0,0 +1,209 @@
+import { test, expect, vi, beforeAll, beforeEach } from "vitest";
+import {
+  A11Y_AUDIT_MESSAGE,
+  A11Y_AUDIT_SCRIPT,
+  A11yIssue,
+  formatA11yFixRequest,
+  mergeA11yIssues,
+  readA11yAuditMessage,
+} from "@/lib/preview/a11y-audit";
+
+type RawIssue = Omit<A11yIssue, "source"> & { source: string | null };
+
+declare global {
+  interface Window {
+    __runA11yAudit: (root: Element) => RawIssue[];
+  }
+}
+
+beforeAll(() => {
+  // jsdom has no canvas and logs each attempt to get one; colors the
+  // fixtures don't give as rgb() are then skipped, as in such a browser
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+  // Installs window.__runA11yAudit, as it would in the preview iframe
+  new Function(A11Y_AUDIT_SCRIPT)();
+});
+
+beforeEach(() => {
+  document.body.innerHTML = "";
+});
+
+function audit(html: string): RawIssue[] {
+  document.body.innerHTML = html;
+  return window.__runA11yAudit(document.body);
+}
+
+const issue = (overrides: Partial<A11yIssue> = {}): A11yIssue => ({
+  rule: "image-alt",
+  impact: "critical",
+  message: "Image has no alt text",
+  tagName: "img",
+  html: '<img src="/logo.png">',
+  source: { path: "/App.jsx", line: 4, column: 7 },
+  ...overrides,
+});
+
+test("audit finds images without alt text and their source", () => {
+  const issues = audit(
+    '<img src="/logo.png" data-source="/App.jsx:4:7"><img src="/a.png" alt=""><img src="/b.png" alt="Team">'
+  );
+
+  expect(issues).toEqual([
+    {
+      rule: "image-alt",
+      impact: "critical",
+      message: "Image has no alt text",
+      tagName: "img",
+      html: '<img src="/logo.png">',
+      source: "/App.jsx:4:7",
+    },
+  ]);
+});
+
+test("audit finds buttons and links without a name", () => {
+  const issues = audit(`
+    <button data-source="/App.jsx:2:3"><svg></svg></button>
+    <button aria-label="Close"><svg></svg></button>
+    <button><span aria-hidden="true">×</span></button>
+    <button>Save</button>
+    <a href="/home"><img src="/home.png" alt="Home"></a>
+    <a href="/profile" data-source="/Nav.jsx:5:9"></a>
+  `);
+
+  expect(issues.map((found) => [found.rule, found.source])).toEqual([
+    ["button-name", "/App.jsx:2:3"],
+    ["button-name", null],
+    ["link-name", "/Nav.jsx:5:9"],
+  ]);
+});
+
+test("audit finds form fields without a label", () => {
+  const issues = audit(`
+    <input type="email" data-source="/Form.jsx:3:5">
+    <label>Name <input type="text"></label>
+    <label for="age">Age</label><input id="age">
+    <input type="search" placeholder="Search">
+    <input type="hidden" name="token">
+    <input type="submit">
+    <textarea aria-label="Message"></textarea>
+    <select></select>
+  `);
+
+  expect(issues.map((found) => [found.rule, found.tagName])).toEqual([
+    ["label", "input"],
+    ["label", "select"],
+  ]);
+});
+
+test("audit reports empty headings", () => {
+  const issues = audit("<h2></h2><h3>Pricing</h3>");
+
+  expect(issues.map((found) => found.rule)).toEqual(["empty-heading"]);
+});
+
+test("audit checks text contrast against the background", () => {
+  const issues = audit(`
+    <div style="background-color: rgb(255, 255, 255)">
+      <p style="color: rgb(170, 170, 170)" data-source="/App.jsx:8:5">Faint</p>
+      <p style="color: rgb(17, 24, 39)">Readable</p>
+      <p style="color: rgb(140, 140, 140); font-size: 32px">Large</p>
+    </div>
+    <div style="background-color: rgb(0, 0, 0)">
+      <span style="color: rgb(40, 40, 40)">Dark on dark</span>
+    </div>
+  `);
+
+  expect(issues).toEqual([
+    expect.objectContaining({
+      rule: "color-contrast",
+      impact: "serious",
+      source: "/App.jsx:8:5",
+      message: "Text contrast is 2.32:1, below the 4.5:1 minimum",
+    }),
+    expect.objectContaining({
+      rule: "color-contrast",
+      tagName: "span",
+      message: expect.stringMatching(/^Text contrast is 1\.\d+:1/),
+    }),
+  ]);
+});
+
+test("audit skips hidden elements", () => {
+  const issues = audit(`
+    <div style="display: none"><img src="/a.png"></div>
+    <div hidden><button></button></div>
+    <div aria-hidden="true"><a href="/x"></a></div>
+  `);
+
+  expect(issues).toEqual([]);
+});
+
+test("audit shortens long opening tags", () => {
+  const [found] = audit(`<img src="/${"a".repeat(200)}.png">`);
+
+  expect(found.html).toHaveLength(120);
+  expect(found.html.endsWith("…")).toBe(true);
+});
+
+test("readA11yAuditMessage parses the issues of an audit report", () => {
+  const issues = readA11yAuditMessage({
+    type: A11Y_AUDIT_MESSAGE,
+    issues: [
+      {
+        rule: "image-alt",
+        impact: "critical",
+        message: "Image has no alt text",
+        tagName: "img",
+        html: '<img src="/logo.png">',
+        source: "/App.jsx:4:7",
+      },
+      { rule: "label", impact: "unknown", message: "x", tagName: "input" },
+      null,
+    ],
+  });
+
+  expect(issues).toEqual([issue()]);
+});
+
+test("readA11yAuditMessage ignores other messages", () => {
+  expect(readA11yAuditMessage({ type: "uigen:preview-error" })).toBeNull();
+  expect(readA11yAuditMessage({ type: A11Y_AUDIT_MESSAGE })).toBeNull();
+  expect(readA11yAuditMessage("uigen:a11y-audit")).toBeNull();
+});
+
+test("readA11yAuditMessage keeps issues without a source", () => {
+  const [parsed] = readA11yAuditMessage({
+    type: A11Y_AUDIT_MESSAGE,
+    issues: [{ ...issue(), source: null }],
+  })!;
+
+  expect(parsed.source).toBeNull();
+});
+
+test("mergeA11yIssues drops duplicates and sorts by impact", () => {
+  const contrast = issue({
+    rule: "color-contrast",
+    impact: "serious",
+    message: "Text contrast is 2:1, below the 4.5:1 minimum",
+  });
+  const heading = issue({ rule: "empty-heading", impact: "minor" });
+
+  const merged = mergeA11yIssues([
+    [heading, contrast],
+    [contrast, issue()],
+  ]);
+
+  expect(merged).toEqual([issue(), contrast, heading]);
+});
+
+test("formatA11yFixRequest wraps the issues in a tag", () => {
+  const request = formatA11yFixRequest([
+    issue(),
+    issue({ rule: "label", message: "Form field has no label", source: null, html: "<input>" }),
+  ]);
+
+  expect(request).toContain("accessibility issues");
+  expect(request).toContain(
+    '<a11y_issues>\n[critical] image-alt /App.jsx:4:7 <img src="/logo.png">: Image has no alt text\n[critical] label <input>: Form field has no label\n</a11y_issues>'
+  );
+});
@@ -0,0 +1,76 @@
+import { test, expect, vi } from "vitest";
+import { PassThrough } from "stream";
+import { connectDevTools } from "@/lib/preview/devtools-pipe";
+
+function createPipe() {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const written: unknown[] = [];
+  input.setEncoding("utf8");
+  input.on("data", (chunk: string) => {
+    for (const message of chunk.split("\0").filter(Boolean)) {
+      written.push(JSON.parse(message));
+    }
+  });
+  const reply = (message: unknown) => output.write(JSON.stringify(message) + "\0");
+  return { devtools: connectDevTools(input, output), written, output, reply };
+}
+
+test("connectDevTools sends NUL-separated commands and resolves replies", async () => {
+  const { devtools, written, reply } = createPipe();
+
+  const result = devtools.send("Page.getFrameTree", {}, "session-1");
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(written).toEqual([
+    { id: 1, method: "Page.getFrameTree", params: {}, sessionId: "session-1" },
+  ]);
+
+  reply({ id: 1, result: { frameTree: { frame: { id: "frame" } } } });
+  expect(await result).toEqual({ frameTree: { frame: { id: "frame" } } });
+});
+
+test("connectDevTools rejects failed commands", async () => {
+  const { devtools, reply } = createPipe();
+
+  const result = devtools.send("Page.navigate", { url: "file:///" });
+  reply({ id: 1, error: { message: "Not allowed" } });
+
+  await expect(result).rejects.toThrow("Not allowed");
+});
+
+test("connectDevTools reads messages split across chunks", async () => {
+  const { devtools, output } = createPipe();
+  const listener = vi.fn();
+  devtools.on("Fetch.requestPaused", listener);
+
+  const message = JSON.stringify({
+    method: "Fetch.requestPaused",
+    params: { requestId: "1" },
+    sessionId: "session-1",
+  });
+  output.write(message.slice(0, 10));
+  output.write(message.slice(10) + "\0");
+  await new Promise((resolve) => setImmediate(resolve));
+
+  expect(listener).toHaveBeenCalledWith({ requestId: "1" }, "session-1");
+});
+
+test("connectDevTools waits for an event from one session", async () => {
+  const { devtools, reply } = createPipe();
+
+  const expired = devtools.once("Emulation.virtualTimeBudgetExpired", "page");
+  reply({ method: "Emulation.virtualTimeBudgetExpired", params: {}, sessionId: "other" });
+  reply({ method: "Emulation.virtualTimeBudgetExpired", params: { page: true }, sessionId: "page" });
+
+  expect(await expired).toEqual({ page: true });
+});
+
+test("connectDevTools rejects pending commands when the browser goes away", async () => {
+  const { devtools, output } = createPipe();
+
+  const result = devtools.send("Page.captureScreenshot");
+  output.destroy();
+
+  await expect(result).rejects.toThrow("Browser connection closed");
+  await expect(devtools.send("Page.enable")).rejects.toThrow();
+});
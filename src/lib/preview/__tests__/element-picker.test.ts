@@ -0,0 +1,100 @@
+import { test, expect, describe } from "vitest";
+import {
+  ELEMENT_PICKED_MESSAGE,
+  PICKER_CANCELLED_MESSAGE,
+  describePickedElement,
+  formatElementRequest,
+  formatSourceLocation,
+  isPickerCancelledMessage,
+  parseSourceLocation,
+  readPickedElement,
+} from "../element-picker";
+
+const element = {
+  source: { path: "/components/Card.jsx", line: 12, column: 7 },
+  tagName: "button",
+  text: "Save changes",
+};
+
+describe("source locations", () => {
+  test("round-trips a location", () => {
+    expect(formatSourceLocation(element.source)).toBe("/components/Card.jsx:12:7");
+    expect(parseSourceLocation("/components/Card.jsx:12:7")).toEqual(element.source);
+  });
+
+  test("rejects malformed locations", () => {
+    expect(parseSourceLocation("Card.jsx:12:7")).toBeNull();
+    expect(parseSourceLocation("/Card.jsx:12")).toBeNull();
+    expect(parseSourceLocation("")).toBeNull();
+  });
+});
+
+describe("readPickedElement", () => {
+  test("reads the element from a picked message", () => {
+    expect(
+      readPickedElement({
+        type: ELEMENT_PICKED_MESSAGE,
+        source: "/components/Card.jsx:12:7",
+        tagName: "button",
+        text: "Save changes",
+      })
+    ).toEqual(element);
+  });
+
+  test("drops empty text", () => {
+    expect(
+      readPickedElement({
+        type: ELEMENT_PICKED_MESSAGE,
+        source: "/App.jsx:1:1",
+        tagName: "div",
+        text: "",
+      })
+    ).toEqual({ source: { path: "/App.jsx", line: 1, column: 1 }, tagName: "div" });
+  });
+
+  test("ignores other messages", () => {
+    expect(readPickedElement(null)).toBeNull();
+    expect(readPickedElement({ type: "uigen:preview-error" })).toBeNull();
+    expect(
+      readPickedElement({ type: ELEMENT_PICKED_MESSAGE, source: "nowhere", tagName: "a" })
+    ).toBeNull();
+  });
+});
+
+test("isPickerCancelledMessage matches only the cancel message", () => {
+  expect(isPickerCancelledMessage({ type: PICKER_CANCELLED_MESSAGE })).toBe(true);
+  expect(isPickerCancelledMessage({ type: ELEMENT_PICKED_MESSAGE })).toBe(false);
+  expect(isPickerCancelledMessage("uigen:picker-cancelled")).toBe(false);
+});
+
+test("describePickedElement names the tag and location", () => {
+  expect(describePickedElement(element)).toBe("<button> in /components/Card.jsx:12:7");
+});
+
+describe("formatElementRequest", () => {
+  test("puts the element before the request", () => {
+    const message = formatElementRequest(
+      element,
+      "Make it red",
+      '      <button className="btn" onClick={save}>'
+    );
+
+    expect(message).toContain(`<selected_element>
+Element: <button>
+Source: /components/Card.jsx:12:7
+Code: <button className="btn" onClick={save}>
+Text: Save changes
+</selected_element>`);
+    expect(message.endsWith("\n\nMake it red")).toBe(true);
+  });
+
+  test("shortens long text", () => {
+    const message = formatElementRequest(
+      { ...element, text: "word ".repeat(40) },
+      "Shorter copy"
+    );
+
+    expect(message).not.toContain("Code:");
+    expect(message).toMatch(/Text: (word ){15}word…/);
+  });
+});
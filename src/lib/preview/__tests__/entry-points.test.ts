@@ -0,0 +1,86 @@
+import { test, expect, describe } from "vitest";
+import {
+  findDefaultEntryPoint,
+  getPropsPath,
+  listComponentFiles,
+  readPreviewProps,
+} from "../entry-points";
+
+describe("findDefaultEntryPoint", () => {
+  test("prefers App over other component files", () => {
+    const files = new Map([
+      ["/components/Button.jsx", "export default function Button() {}"],
+      ["/App.jsx", "export default function App() {}"],
+    ]);
+    expect(findDefaultEntryPoint(files)).toBe("/App.jsx");
+  });
+
+  test("falls back to the first component file", () => {
+    const files = new Map([
+      ["/styles.css", "body {}"],
+      ["/Card.tsx", "export default function Card() {}"],
+    ]);
+    expect(findDefaultEntryPoint(files)).toBe("/Card.tsx");
+  });
+
+  test("returns null without component files", () => {
+    expect(findDefaultEntryPoint(new Map([["/utils.js", ""]]))).toBeNull();
+  });
+});
+
+describe("listComponentFiles", () => {
+  test("lists sorted jsx and tsx files with a default export", () => {
+    const files = new Map([
+      ["/components/Card.tsx", "const Card = () => null;\nexport { Card as default };"],
+      ["/App.jsx", "export default function App() {}"],
+      ["/components/icons.jsx", "export const Icon = () => null;"],
+      ["/lib/utils.js", "export default {}"],
+    ]);
+    expect(listComponentFiles(files)).toEqual(["/App.jsx", "/components/Card.tsx"]);
+  });
+
+  test("leaves out story files", () => {
+    const files = new Map([
+      ["/components/Button.jsx", "export default function Button() {}"],
+      ["/components/Button.stories.jsx", "export default { component: Button };"],
+    ]);
+    expect(listComponentFiles(files)).toEqual(["/components/Button.jsx"]);
+    expect(findDefaultEntryPoint(new Map([["/Button.stories.jsx", ""]]))).toBeNull();
+  });
+});
+
+describe("getPropsPath", () => {
+  test("points at the sibling .props.json file", () => {
+    expect(getPropsPath("/components/Button.jsx")).toBe("/components/Button.props.json");
+    expect(getPropsPath("/Card.tsx")).toBe("/Card.props.json");
+  });
+});
+
+describe("readPreviewProps", () => {
+  test("returns undefined props without a props file", () => {
+    expect(readPreviewProps(new Map(), "/Button.jsx")).toEqual({ props: undefined });
+  });
+
+  test("parses props from the sibling file", () => {
+    const files = new Map([
+      ["/Button.jsx", "export default function Button() {}"],
+      ["/Button.props.json", '{ "label": "Save", "disabled": true }'],
+    ]);
+    expect(readPreviewProps(files, "/Button.jsx")).toEqual({
+      props: { label: "Save", disabled: true },
+    });
+  });
+
+  test("reports invalid JSON", () => {
+    const files = new Map([["/Button.props.json", "{ label: Save }"]]);
+    const result = readPreviewProps(files, "/Button.jsx");
+    expect("error" in result && result.error).toMatch(/^Invalid JSON/);
+  });
+
+  test("rejects props that are not an object", () => {
+    const files = new Map([["/Button.props.json", "[1, 2]"]]);
+    expect(readPreviewProps(files, "/Button.jsx")).toEqual({
+      error: "Props must be a JSON object",
+    });
+  });
+});
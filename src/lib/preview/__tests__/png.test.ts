@@ -0,0 +1,72 @@
+import { test, expect } from "vitest";
+import { deflateSync } from "zlib";
+import { decodePng, encodePng } from "@/lib/preview/png";
+
+// Builds a PNG from raw, already filtered scanlines
+function buildPng(
+  width: number,
+  height: number,
+  colorType: number,
+  scanlines: number[][]
+): Buffer {
+  const png = encodePng({
+    width,
+    height,
+    data: new Uint8Array(width * height * 4),
+  });
+  const header = Buffer.from(png.subarray(8, 33));
+  header[8 + 9] = colorType;
+
+  const data = deflateSync(Buffer.from(scanlines.flat()));
+  const idat = Buffer.alloc(12 + data.length);
+  idat.writeUInt32BE(data.length, 0);
+  idat.write("IDAT", 4, "ascii");
+  data.copy(idat, 8);
+  // The decoder doesn't verify checksums, so leave this one zeroed
+
+  return Buffer.concat([png.subarray(0, 8), header, idat, png.subarray(-12)]);
+}
+
+test("encodePng and decodePng round-trip RGBA pixels", () => {
+  const data = new Uint8Array([
+    255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40,
+  ]);
+
+  const decoded = decodePng(encodePng({ width: 2, height: 2, data }));
+
+  expect(decoded.width).toBe(2);
+  expect(decoded.height).toBe(2);
+  expect(Array.from(decoded.data)).toEqual(Array.from(data));
+});
+
+test("decodePng undoes row filters and expands RGB to RGBA", () => {
+  // Row 1 uses Sub, row 2 Up, row 3 Average and row 4 Paeth
+  const png = buildPng(2, 4, 2, [
+    [1, 10, 20, 30, 5, 5, 5],
+    [2, 1, 1, 1, 1, 1, 1],
+    [3, 0, 0, 0, 0, 0, 0],
+    [4, 0, 0, 0, 0, 0, 0],
+  ]);
+
+  const { data } = decodePng(png);
+
+  expect(Array.from(data.slice(0, 8))).toEqual([10, 20, 30, 255, 15, 25, 35, 255]);
+  expect(Array.from(data.slice(8, 16))).toEqual([11, 21, 31, 255, 16, 26, 36, 255]);
+  // Average: left is 0 on the first pixel
+  expect(Array.from(data.slice(16, 24))).toEqual([5, 10, 15, 255, 10, 18, 25, 255]);
+  // Paeth predicts from the pixel above here
+  expect(Array.from(data.slice(24, 32))).toEqual([5, 10, 15, 255, 10, 18, 25, 255]);
+});
+
+test("decodePng expands grayscale", () => {
+  const { data } = decodePng(buildPng(1, 1, 0, [[0, 77]]));
+
+  expect(Array.from(data)).toEqual([77, 77, 77, 255]);
+});
+
+test("decodePng rejects other formats", () => {
+  expect(() => decodePng(Buffer.from("GIF89a"))).toThrow("Not a PNG image");
+  expect(() => decodePng(buildPng(1, 1, 3, [[0, 0]]))).toThrow(
+    "Unsupported PNG format"
+  );
+});
@@ -0,0 +1,69 @@
+import { test, expect, describe } from "vitest";
+import {
+  PREVIEW_ERROR_MESSAGE,
+  formatRepairRequest,
+  isPreviewErrorMessage,
+  isSamePreviewError,
+} from "../preview-errors";
+
+describe("isPreviewErrorMessage", () => {
+  test("accepts error messages posted by the preview", () => {
+    expect(
+      isPreviewErrorMessage({
+        type: PREVIEW_ERROR_MESSAGE,
+        error: { kind: "runtime", message: "boom" },
+      })
+    ).toBe(true);
+  });
+
+  test("rejects unrelated or malformed messages", () => {
+    expect(isPreviewErrorMessage(null)).toBe(false);
+    expect(isPreviewErrorMessage("uigen:preview-error")).toBe(false);
+    expect(isPreviewErrorMessage({ type: "other", error: {} })).toBe(false);
+    expect(
+      isPreviewErrorMessage({
+        type: PREVIEW_ERROR_MESSAGE,
+        error: { kind: "network", message: "boom" },
+      })
+    ).toBe(false);
+  });
+});
+
+test("isSamePreviewError ignores stack traces", () => {
+  expect(
+    isSamePreviewError(
+      { kind: "runtime", message: "boom", stack: "at A" },
+      { kind: "runtime", message: "boom", stack: "at B" }
+    )
+  ).toBe(true);
+  expect(
+    isSamePreviewError(
+      { kind: "compile", path: "/A.jsx", message: "boom" },
+      { kind: "compile", path: "/B.jsx", message: "boom" }
+    )
+  ).toBe(false);
+});
+
+describe("formatRepairRequest", () => {
+  test("lists each error with its kind and file", () => {
+    const message = formatRepairRequest([
+      { kind: "compile", path: "/App.jsx", message: "Unexpected token (3:4)" },
+      { kind: "runtime", message: "TypeError: items is undefined" },
+    ]);
+
+    expect(message).toContain("following errors");
+    expect(message).toContain(
+      "<preview_errors>\n[compile] /App.jsx: Unexpected token (3:4)\n[runtime]: TypeError: items is undefined\n</preview_errors>"
+    );
+  });
+
+  test("trims long stack traces", () => {
+    const stack = Array.from({ length: 20 }, (_, i) => `at frame${i}`).join("\n");
+    const message = formatRepairRequest([
+      { kind: "runtime", message: "boom", stack },
+    ]);
+
+    expect(message).toContain("    at frame5");
+    expect(message).not.toContain("at frame6");
+  });
+});
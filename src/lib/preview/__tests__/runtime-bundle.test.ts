@@ -0,0 +1,32 @@
+import { test, expect } from "vitest";
+import {
+  getEntrySource,
+  getRegistrySource,
+} from "@/lib/preview/runtime-bundle";
+
+test("getRegistrySource bundles React and ReactDOM behind one loader", async () => {
+  const source = await getRegistrySource();
+
+  expect(source).toContain('"react": function (module, exports, require)');
+  expect(source).toContain('"react-dom/client": function');
+  expect(source).toContain('"scheduler": function');
+  expect(source).toContain("export { __require as require };");
+});
+
+test("getEntrySource re-exports the named exports of a runtime module", async () => {
+  const source = await getEntrySource("react", "/runtime/__runtime.js");
+
+  expect(source).toContain('import { require } from "/runtime/__runtime.js";');
+  expect(source).toContain("export default mod;");
+  expect(source).toMatch(/export const \{[^}]*\buseState\b[^}]*\} = mod;/);
+});
+
+test("getEntrySource exposes createRoot from react-dom/client", async () => {
+  const source = await getEntrySource("react-dom/client", "/r.js");
+
+  expect(source).toMatch(/\bcreateRoot\b/);
+});
+
+test("getEntrySource rejects unknown modules", () => {
+  expect(getEntrySource("lodash", "/r.js")).toBeNull();
+});
@@ -0,0 +1,101 @@
+import { test, expect } from "vitest";
+import {
+  findBrowser,
+  isAllowedRequest,
+  isPrivateAddress,
+  renderProjectHTML,
+  toDataUrl,
+} from "@/lib/preview/screenshot";
+
+test("findBrowser prefers PREVIEW_BROWSER_PATH", () => {
+  expect(findBrowser({ PREVIEW_BROWSER_PATH: "/opt/chrome/chrome" })).toBe(
+    "/opt/chrome/chrome"
+  );
+});
+
+test("toDataUrl encodes a module as a base64 data URL", () => {
+  const url = toDataUrl("export default 1;");
+
+  expect(url.startsWith("data:text/javascript;base64,")).toBe(true);
+  expect(Buffer.from(url.split(",")[1], "base64").toString()).toBe(
+    "export default 1;"
+  );
+});
+
+test("isPrivateAddress flags local, private and metadata addresses", () => {
+  for (const address of [
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "0.0.0.0",
+    "::1",
+    "::ffff:127.0.0.1",
+    "fd00::1",
+    "fe80::1",
+  ]) {
+    expect(isPrivateAddress(address), address).toBe(true);
+  }
+  expect(isPrivateAddress("93.184.216.34")).toBe(false);
+  expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+});
+
+test("isAllowedRequest only lets pages load public http(s) URLs", async () => {
+  expect(await isAllowedRequest("https://93.184.216.34/react.js")).toBe(true);
+  expect(await isAllowedRequest("data:text/javascript,1")).toBe(true);
+
+  expect(await isAllowedRequest("file:///app/.env")).toBe(false);
+  expect(await isAllowedRequest("http://169.254.169.254/latest/")).toBe(false);
+  expect(await isAllowedRequest("http://[::1]:3000/")).toBe(false);
+  expect(await isAllowedRequest("http://localhost:3000/api/projects")).toBe(
+    false
+  );
+  expect(await isAllowedRequest("ftp://93.184.216.34/")).toBe(false);
+  expect(await isAllowedRequest("not a url")).toBe(false);
+});
+
+test("isAllowedRequest lets pages reach the given bases", async () => {
+  const bases = ["http://localhost:3000/api/packages"];
+
+  expect(
+    await isAllowedRequest("http://localhost:3000/api/packages/react@19", bases)
+  ).toBe(true);
+  expect(
+    await isAllowedRequest("http://localhost:3000/api/packages-admin", bases)
+  ).toBe(false);
+  expect(await isAllowedRequest("http://localhost:3000/api/auth", bases)).toBe(
+    false
+  );
+});
+
+test("renderProjectHTML returns null without an entry point", async () => {
+  const files = new Map([["/notes.md", "# Notes"]]);
+
+  expect(await renderProjectHTML(files)).toBeNull();
+});
+
+test("renderProjectHTML inlines every module so the page needs no app routes", async () => {
+  const files = new Map([
+    [
+      "/App.jsx",
+      `import Button from "./Button";
+export default function App() {
+  return <div className="p-4"><Button /></div>;
+}`,
+    ],
+    [
+      "/Button.jsx",
+      `export default function Button() { return <button>Go</button>; }`,
+    ],
+  ]);
+
+  const html = await renderProjectHTML(files);
+
+  expect(html).not.toBeNull();
+  expect(html).not.toContain("blob:");
+  expect(html).not.toContain("/api/preview/runtime");
+  expect(html).toMatch(/"react": "data:text\/javascript;base64,/);
+  expect(html).toMatch(/"\/Button": "data:text\/javascript;base64,/);
+  expect(html).toContain(".p-4");
+}, 30_000);
@@ -0,0 +1,73 @@
+import { test, expect, describe } from "vitest";
+import {
+  formatStoryName,
+  getStoryNames,
+  getStoryTitle,
+  isStoryFile,
+  listStoryFiles,
+} from "../stories";
+
+describe("isStoryFile", () => {
+  test("matches jsx and tsx story files only", () => {
+    expect(isStoryFile("/components/Button.stories.jsx")).toBe(true);
+    expect(isStoryFile("/components/Button.stories.tsx")).toBe(true);
+    expect(isStoryFile("/components/Button.jsx")).toBe(false);
+    expect(isStoryFile("/components/Button.stories.js")).toBe(false);
+  });
+});
+
+describe("listStoryFiles", () => {
+  test("lists story files sorted by path", () => {
+    const files = new Map([
+      ["/components/Card.stories.jsx", ""],
+      ["/App.jsx", ""],
+      ["/components/Button.stories.tsx", ""],
+    ]);
+    expect(listStoryFiles(files)).toEqual([
+      "/components/Button.stories.tsx",
+      "/components/Card.stories.jsx",
+    ]);
+  });
+});
+
+describe("getStoryNames", () => {
+  test("returns named exports in source order", () => {
+    const source = `
+      import Button from "@/components/Button";
+      export default { component: Button, args: { label: "Save" } };
+      export const Primary = { args: { variant: "primary" } };
+      export function WithIcon(args) { return <Button {...args} />; }
+      const Hidden = {};
+      export let Disabled = { args: { disabled: true } };
+    `;
+    expect(getStoryNames(source)).toEqual(["Primary", "WithIcon", "Disabled"]);
+  });
+
+  test("includes export lists and skips default", () => {
+    const source = `
+      const Small = {};
+      const Large = {};
+      const meta = {};
+      export { Small, Large as Big, meta as default };
+    `;
+    expect(getStoryNames(source)).toEqual(["Small", "Big"]);
+  });
+
+  test("returns nothing for a file without named exports", () => {
+    expect(getStoryNames("export default {};")).toEqual([]);
+  });
+});
+
+describe("getStoryTitle", () => {
+  test("uses the file name without the stories suffix", () => {
+    expect(getStoryTitle("/components/Button.stories.jsx")).toBe("Button");
+  });
+});
+
+describe("formatStoryName", () => {
+  test("splits camel case and underscores", () => {
+    expect(formatStoryName("PrimaryLarge")).toBe("Primary Large");
+    expect(formatStoryName("with_icon")).toBe("with icon");
+    expect(formatStoryName("Size2XL")).toBe("Size2 XL");
+  });
+});
@@ -0,0 +1,55 @@
+import { test, expect } from "vitest";
+import {
+  extractTailwindCandidates,
+  MAX_CANDIDATES,
+} from "@/lib/preview/tailwind-candidates";
+import { compileTailwind } from "@/lib/preview/tailwind-compiler";
+import { parseTheme } from "@/lib/preview/theme";
+
+test("extractTailwindCandidates collects class names from source files", () => {
+  const files = new Map([
+    [
+      "/App.jsx",
+      `export default () => <div className="flex p-4 hover:bg-violet-500 w-[42px]">Hi</div>;`,
+    ],
+    ["/notes.md", "ignored-class"],
+  ]);
+
+  const candidates = extractTailwindCandidates(files);
+
+  expect(candidates).toContain("flex");
+  expect(candidates).toContain("p-4");
+  expect(candidates).toContain("hover:bg-violet-500");
+  expect(candidates).toContain("w-[42px]");
+  expect(candidates).not.toContain("ignored-class");
+});
+
+test("extractTailwindCandidates stays within the compile endpoint's limit", () => {
+  const classes = Array.from(
+    { length: MAX_CANDIDATES + 10 },
+    (_, index) => `w-[${index}px]`
+  );
+  const files = new Map([["/App.jsx", classes.join(" ")]]);
+
+  expect(extractTailwindCandidates(files)).toHaveLength(MAX_CANDIDATES);
+});
+
+test("compileTailwind only emits utilities that are used", async () => {
+  const css = await compileTailwind(["flex", "p-4", "not-a-utility"]);
+
+  expect(css).toContain(".flex");
+  expect(css).toContain(".p-4");
+  expect(css).not.toContain(".grid");
+  expect(css).not.toContain("not-a-utility");
+});
+
+test("compileTailwind adds theme tokens and class-based dark mode", async () => {
+  const result = parseTheme('{ "colors": { "brand": "#7c3aed" }, "radius": { "card": "1.5rem" } }');
+  const theme = "theme" in result ? result.theme : null;
+
+  const css = await compileTailwind(["bg-brand", "rounded-card", "dark:bg-brand"], theme);
+
+  expect(css).toContain("--color-brand: #7c3aed");
+  expect(css).toContain(".rounded-card");
+  expect(css).toContain(":where(.dark, .dark *)");
+});
@@ -0,0 +1,114 @@
+import { test, expect, describe } from "vitest";
+import {
+  createTailwindConfig,
+  createThemeCss,
+  describeThemeForPrompt,
+  parseTheme,
+  readProjectTheme,
+} from "../theme";
+
+const themeJson = JSON.stringify({
+  colors: { brand: "#7c3aed", ink: { "50": "#f8fafc", "900": "#0f172a" } },
+  fonts: { display: ["Playfair Display", "serif"], body: "Inter" },
+  radius: { card: "1.25rem" },
+});
+
+function parsed(content = themeJson) {
+  const result = parseTheme(content);
+  if (!("theme" in result) || !result.theme) throw new Error("expected a theme");
+  return result.theme;
+}
+
+describe("parseTheme", () => {
+  test("normalizes colors, fonts and radius", () => {
+    expect(parsed()).toEqual({
+      colors: { brand: "#7c3aed", ink: { "50": "#f8fafc", "900": "#0f172a" } },
+      fonts: { display: ["Playfair Display", "serif"], body: ["Inter"] },
+      radius: { card: "1.25rem" },
+    });
+  });
+
+  test("treats a single radius as the default", () => {
+    expect(parsed('{ "radius": "0.75rem" }').radius).toEqual({ DEFAULT: "0.75rem" });
+  });
+
+  test("reports invalid JSON", () => {
+    const result = parseTheme("{ colors: }");
+    expect("error" in result && result.error).toMatch(/^Invalid JSON/);
+  });
+
+  test("rejects values that could escape the stylesheet", () => {
+    expect(parseTheme('{ "colors": { "brand": "red; } body { display: none" } }')).toEqual({
+      error: "colors.brand contains an invalid character",
+    });
+  });
+
+  test("rejects token names Tailwind can't use", () => {
+    const result = parseTheme('{ "colors": { "my brand": "red" } }');
+    expect("error" in result && result.error).toMatch(/may only contain/);
+  });
+
+  test("rejects sections that are not objects", () => {
+    expect(parseTheme('{ "fonts": ["Inter"] }')).toEqual({
+      error: '"fonts" must be an object',
+    });
+  });
+});
+
+describe("readProjectTheme", () => {
+  test("returns no theme without /theme.json", () => {
+    expect(readProjectTheme(new Map())).toEqual({ theme: null });
+  });
+
+  test("reads /theme.json", () => {
+    const result = readProjectTheme(new Map([["/theme.json", themeJson]]));
+    expect("theme" in result && result.theme?.colors.brand).toBe("#7c3aed");
+  });
+});
+
+describe("createTailwindConfig", () => {
+  test("uses class-based dark mode and extends the theme", () => {
+    expect(createTailwindConfig(parsed())).toEqual({
+      darkMode: "class",
+      theme: {
+        extend: {
+          colors: { brand: "#7c3aed", ink: { "50": "#f8fafc", "900": "#0f172a" } },
+          fontFamily: { display: ["Playfair Display", "serif"], body: ["Inter"] },
+          borderRadius: { card: "1.25rem" },
+        },
+      },
+    });
+  });
+
+  test("keeps class-based dark mode without a theme", () => {
+    expect(createTailwindConfig(null)).toEqual({
+      darkMode: "class",
+      theme: { extend: {} },
+    });
+  });
+});
+
+describe("createThemeCss", () => {
+  test("declares theme variables for Tailwind v4", () => {
+    const css = createThemeCss(parsed());
+    expect(css).toContain("@custom-variant dark (&:where(.dark, .dark *));");
+    expect(css).toContain("--color-brand: #7c3aed;");
+    expect(css).toContain("--color-ink-900: #0f172a;");
+    expect(css).toContain('--font-display: "Playfair Display", serif;');
+    expect(css).toContain("--radius-card: 1.25rem;");
+  });
+
+  test("only sets up dark mode without a theme", () => {
+    expect(createThemeCss(null)).toBe("@custom-variant dark (&:where(.dark, .dark *));");
+  });
+});
+
+describe("describeThemeForPrompt", () => {
+  test("lists the classes each token provides", () => {
+    const description = describeThemeForPrompt(parsed());
+    expect(description).toContain("bg-brand");
+    expect(description).toContain("ink-50, ink-900");
+    expect(description).toContain("`font-display`: Playfair Display, serif");
+    expect(description).toContain("`rounded-card`: 1.25rem");
+  });
+});
@@ -0,0 +1,111 @@
+import { test, expect, describe } from "vitest";
+import {
+  DEFAULT_VIEWPORT_SETTINGS,
+  DEVICE_PRESETS,
+  MAX_VIEWPORT_SIZE,
+  MIN_VIEWPORT_SIZE,
+  clampViewportSize,
+  getFitZoom,
+  getViewportSizes,
+  parseViewportSettings,
+} from "../viewport";
+
+const settings = (changes = {}) => ({ ...DEFAULT_VIEWPORT_SETTINGS, ...changes });
+
+describe("getViewportSizes", () => {
+  test("is empty for the responsive mode", () => {
+    expect(getViewportSizes(settings())).toEqual([]);
+  });
+
+  test("returns the preset size", () => {
+    expect(getViewportSizes(settings({ device: "mobile" }))).toEqual([
+      DEVICE_PRESETS.mobile,
+    ]);
+  });
+
+  test("swaps width and height when rotated", () => {
+    const [size] = getViewportSizes(settings({ device: "tablet", rotated: true }));
+    expect(size).toMatchObject({ width: 1180, height: 820 });
+  });
+
+  test("clamps custom sizes", () => {
+    const [size] = getViewportSizes(
+      settings({ device: "custom", customWidth: 50, customHeight: 10000 })
+    );
+    expect(size).toMatchObject({
+      label: "Custom",
+      width: MIN_VIEWPORT_SIZE,
+      height: MAX_VIEWPORT_SIZE,
+    });
+  });
+
+  test("shows every preset side by side, rotating only handhelds", () => {
+    const sizes = getViewportSizes(settings({ multi: true, rotated: true }));
+    expect(sizes.map((size) => [size.label, size.width, size.height])).toEqual([
+      ["Mobile", 844, 390],
+      ["Tablet", 1180, 820],
+      ["Desktop", 1440, 900],
+    ]);
+  });
+});
+
+describe("getFitZoom", () => {
+  test("never zooms in", () => {
+    expect(getFitZoom([DEVICE_PRESETS.mobile], { width: 4000, height: 4000 })).toBe(1);
+  });
+
+  test("fits the widest and tallest constraint", () => {
+    const zoom = getFitZoom([DEVICE_PRESETS.desktop], { width: 720, height: 900 });
+    expect(zoom).toBe(0.5);
+  });
+
+  test("accounts for gaps between viewports", () => {
+    const sizes = [
+      { label: "A", width: 100, height: 100 },
+      { label: "B", width: 100, height: 100 },
+    ];
+    expect(getFitZoom(sizes, { width: 110, height: 1000 }, 20)).toBe(0.5);
+  });
+
+  test("falls back to 100% before the stage is measured", () => {
+    expect(getFitZoom([DEVICE_PRESETS.mobile], { width: 0, height: 0 })).toBe(1);
+  });
+});
+
+describe("parseViewportSettings", () => {
+  test("returns defaults for missing or malformed values", () => {
+    expect(parseViewportSettings(null)).toEqual(DEFAULT_VIEWPORT_SETTINGS);
+    expect(parseViewportSettings("mobile")).toEqual(DEFAULT_VIEWPORT_SETTINGS);
+  });
+
+  test("keeps valid fields and drops invalid ones", () => {
+    expect(
+      parseViewportSettings({
+        device: "watch",
+        customWidth: 5000,
+        rotated: true,
+        zoom: 0.3,
+        multi: true,
+      })
+    ).toEqual({
+      ...DEFAULT_VIEWPORT_SETTINGS,
+      customWidth: MAX_VIEWPORT_SIZE,
+      rotated: true,
+      multi: true,
+    });
+  });
+
+  test("accepts a stored zoom level", () => {
+    expect(parseViewportSettings({ device: "tablet", zoom: 0.5 })).toMatchObject({
+      device: "tablet",
+      zoom: 0.5,
+    });
+  });
+});
+
+describe("clampViewportSize", () => {
+  test("rounds and bounds sizes", () => {
+    expect(clampViewportSize(640.4)).toBe(640);
+    expect(clampViewportSize(Number.NaN)).toBe(MIN_VIEWPORT_SIZE);
+  });
+});
@@ -0,0 +1,57 @@
+import { test, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/preview/screenshot", () => ({
+  captureProjectRender: vi.fn(),
+}));
+
+import { encodePng } from "@/lib/preview/png";
+import { captureProjectRender } from "@/lib/preview/screenshot";
+import {
+  compareProjectStates,
+  compareScreenshots,
+} from "@/lib/preview/visual-regression";
+
+function whitePng(width: number, height: number, darkPixels = 0): Buffer {
+  const data = new Uint8Array(width * height * 4).fill(255);
+  for (let i = 0; i < darkPixels; i++) {
+    data.set([0, 0, 0, 255], i * 4);
+  }
+  return encodePng({ width, height, data });
+}
+
+beforeEach(() => {
+  vi.mocked(captureProjectRender).mockReset();
+});
+
+test("compareScreenshots diffs two PNGs", () => {
+  const diff = compareScreenshots(whitePng(4, 4), whitePng(4, 4, 4), {
+    columns: 1,
+    rows: 4,
+  });
+
+  expect(diff.changedPercentage).toBe(25);
+  expect(diff.regions.map((region) => region.changedPercentage)).toEqual([
+    100, 0, 0, 0,
+  ]);
+});
+
+test("compareProjectStates renders and compares both states", async () => {
+  vi.mocked(captureProjectRender)
+    .mockResolvedValueOnce(whitePng(4, 4))
+    .mockResolvedValueOnce(whitePng(4, 4, 2));
+  const before = new Map([["/App.jsx", "before"]]);
+  const after = new Map([["/App.jsx", "after"]]);
+
+  const diff = await compareProjectStates(before, after);
+
+  expect(captureProjectRender).toHaveBeenNthCalledWith(1, before);
+  expect(captureProjectRender).toHaveBeenNthCalledWith(2, after);
+  expect(diff?.changedPixels).toBe(2);
+});
+
+test("compareProjectStates returns null when nothing could be rendered", async () => {
+  vi.mocked(captureProjectRender).mockResolvedValue(null);
+
+  expect(await compareProjectStates(new Map(), new Map())).toBeNull();
+  expect(captureProjectRender).toHaveBeenCalledTimes(1);
+});
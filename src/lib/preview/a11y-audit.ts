@@ -0,0 +1,371 @@
+import {
+  SOURCE_ATTRIBUTE,
+  SourceLocation,
+  formatSourceLocation,
+  parseSourceLocation,
+} from "@/lib/preview/element-picker";
+
+// postMessage type the preview iframe uses to report the audit's findings;
+// each report replaces the previous one
+export const A11Y_AUDIT_MESSAGE = "uigen:a11y-audit";
+
+export type A11yImpact = "critical" | "serious" | "moderate" | "minor";
+
+// Most severe first
+export const A11Y_IMPACTS: A11yImpact[] = [
+  "critical",
+  "serious",
+  "moderate",
+  "minor",
+];
+
+export interface A11yIssue {
+  // Rule id, named after the matching axe-core rule
+  rule: string;
+  impact: A11yImpact;
+  message: string;
+  tagName: string;
+  // Opening tag of the offending element
+  html: string;
+  source: SourceLocation | null;
+}
+
+// Wait for the page to settle before auditing after a change
+const AUDIT_DELAY_MS = 500;
+// Keeps a page full of problems from flooding the panel and the model
+const MAX_ISSUES = 50;
+const MAX_HTML_LENGTH = 120;
+
+/**
+ * Runs in the preview iframe: audits the mounted DOM once the page has
+ * loaded and again after every change, posting the issues to the app. A
+ * subset of axe-core's rules, checked the same way where the DOM allows.
+ * Exposed as window.__runA11yAudit(root) for tests.
+ */
+export const A11Y_AUDIT_SCRIPT = String.raw`(function () {
+  var canvasContext = null;
+
+  function isHidden(element) {
+    for (var node = element; node && node.nodeType === 1; node = node.parentElement) {
+      if (node.hidden || node.getAttribute('aria-hidden') === 'true') return true;
+      var style = getComputedStyle(node);
+      if (style.display === 'none' || style.visibility === 'hidden') return true;
+    }
+    return false;
+  }
+
+  function textOf(node) {
+    if (node.nodeType === 3) return node.textContent;
+    if (node.nodeType !== 1 || node.getAttribute('aria-hidden') === 'true') return '';
+    var label = node.getAttribute('aria-label');
+    if (label && label.trim()) return label;
+    if (node.tagName === 'IMG') return node.getAttribute('alt') || '';
+    var text = '';
+    for (var i = 0; i < node.childNodes.length; i++) {
+      text += ' ' + textOf(node.childNodes[i]);
+    }
+    return text;
+  }
+
+  function accessibleName(element) {
+    var labelledBy = element.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      var text = labelledBy.split(/\s+/).map(function (id) {
+        var labelElement = document.getElementById(id);
+        return labelElement ? textOf(labelElement) : '';
+      }).join(' ').trim();
+      if (text) return text;
+    }
+    var content = textOf(element).trim();
+    if (content) return content;
+    return (element.getAttribute('title') || '').trim();
+  }
+
+  function hasFieldLabel(field) {
+    if (field.labels && Array.prototype.some.call(field.labels, function (label) {
+      return textOf(label).trim();
+    })) {
+      return true;
+    }
+    return ['aria-label', 'aria-labelledby', 'title', 'placeholder'].some(function (name) {
+      return (field.getAttribute(name) || '').trim();
+    });
+  }
+
+  function parseColor(value) {
+    if (!value || value === 'transparent') return [0, 0, 0, 0];
+    var match = /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:\s*[,/]\s*([\d.]+)(%?))?\s*\)$/.exec(value);
+    if (match) {
+      var alpha = match[4] === undefined ? 1 : parseFloat(match[4]) / (match[5] ? 100 : 1);
+      return [+match[1], +match[2], +match[3], alpha];
+    }
+    // Anything else, e.g. the oklch() colors of Tailwind v4, is converted by
+    // painting it onto a canvas
+    if (!canvasContext) {
+      canvasContext = document.createElement('canvas').getContext('2d', { willReadFrequently: true });
+      if (!canvasContext) return null;
+    }
+    canvasContext.clearRect(0, 0, 1, 1);
+    canvasContext.fillStyle = 'rgba(0, 0, 0, 0)';
+    canvasContext.fillStyle = value;
+    canvasContext.fillRect(0, 0, 1, 1);
+    var data = canvasContext.getImageData(0, 0, 1, 1).data;
+    return [data[0], data[1], data[2], data[3] / 255];
+  }
+
+  function blend(top, bottom) {
+    var alpha = top[3];
+    return [0, 1, 2].map(function (i) {
+      return top[i] * alpha + bottom[i] * (1 - alpha);
+    }).concat(1);
+  }
+
+  // The background behind an element's text, or null when it can't be
+  // known, e.g. over a background image
+  function backgroundOf(element) {
+    var layers = [];
+    for (var node = element; node && node.nodeType === 1; node = node.parentElement) {
+      var style = getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+      var color = parseColor(style.backgroundColor);
+      if (!color) return null;
+      if (color[3] > 0) layers.push(color);
+      if (color[3] >= 1) break;
+    }
+    var background = [255, 255, 255, 1];
+    for (var i = layers.length - 1; i >= 0; i--) {
+      background = blend(layers[i], background);
+    }
+    return background;
+  }
+
+  function luminance(color) {
+    var channels = [0, 1, 2].map(function (i) {
+      var value = color[i] / 255;
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+  }
+
+  function contrastRatio(a, b) {
+    var lighter = Math.max(luminance(a), luminance(b));
+    var darker = Math.min(luminance(a), luminance(b));
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  function hasOwnText(element) {
+    for (var i = 0; i < element.childNodes.length; i++) {
+      var child = element.childNodes[i];
+      if (child.nodeType === 3 && child.textContent.trim()) return true;
+    }
+    return false;
+  }
+
+  function checkContrast(element) {
+    var style = getComputedStyle(element);
+    var background = backgroundOf(element);
+    var foreground = parseColor(style.color);
+    if (!background || !foreground) return null;
+
+    var ratio = contrastRatio(blend(foreground, background), background);
+    var fontSize = parseFloat(style.fontSize) || 16;
+    var bold = parseInt(style.fontWeight, 10) >= 700 || style.fontWeight === 'bold';
+    var minimum = fontSize >= 24 || (bold && fontSize >= 18.66) ? 3 : 4.5;
+    if (ratio >= minimum) return null;
+    return 'Text contrast is ' + (Math.floor(ratio * 100) / 100) + ':1, below the ' + minimum + ':1 minimum';
+  }
+
+  function openingTag(element) {
+    var clone = element.cloneNode(false);
+    clone.removeAttribute('${SOURCE_ATTRIBUTE}');
+    var html = clone.outerHTML;
+    var end = html.indexOf('>') + 1;
+    html = end > 0 ? html.slice(0, end) : html;
+    return html.length > ${MAX_HTML_LENGTH} ? html.slice(0, ${MAX_HTML_LENGTH - 1}) + '…' : html;
+  }
+
+  var RULES = [
+    {
+      id: 'image-alt',
+      impact: 'critical',
+      selector: 'img',
+      check: function (element) {
+        if (element.hasAttribute('alt') || element.getAttribute('role') === 'presentation' || accessibleName(element)) {
+          return null;
+        }
+        return 'Image has no alt text';
+      },
+    },
+    {
+      id: 'button-name',
+      impact: 'critical',
+      selector: 'button, [role="button"], input[type="button"]',
+      check: function (element) {
+        if (accessibleName(element) || (element.tagName === 'INPUT' && element.value.trim())) {
+          return null;
+        }
+        return 'Button has no accessible name';
+      },
+    },
+    {
+      id: 'link-name',
+      impact: 'serious',
+      selector: 'a[href]',
+      check: function (element) {
+        return accessibleName(element) ? null : 'Link has no accessible name';
+      },
+    },
+    {
+      id: 'label',
+      impact: 'critical',
+      selector: 'input:not([type="hidden"]):not([type="button"]):not([type="submit"]):not([type="reset"]):not([type="image"]), select, textarea',
+      check: function (element) {
+        return hasFieldLabel(element) ? null : 'Form field has no label';
+      },
+    },
+    {
+      id: 'empty-heading',
+      impact: 'minor',
+      selector: 'h1, h2, h3, h4, h5, h6, [role="heading"]',
+      check: function (element) {
+        return accessibleName(element) ? null : 'Heading is empty';
+      },
+    },
+    {
+      id: 'color-contrast',
+      impact: 'serious',
+      selector: '*',
+      check: function (element) {
+        return hasOwnText(element) ? checkContrast(element) : null;
+      },
+    },
+  ];
+
+  function audit(root) {
+    var issues = [];
+    RULES.forEach(function (rule) {
+      var elements = root.querySelectorAll(rule.selector);
+      for (var i = 0; i < elements.length && issues.length < ${MAX_ISSUES}; i++) {
+        var element = elements[i];
+        if (element.tagName === 'SCRIPT' || element.tagName === 'STYLE' || isHidden(element)) continue;
+        var message = rule.check(element);
+        if (!message) continue;
+        var sourceElement = element.closest('[${SOURCE_ATTRIBUTE}]');
+        issues.push({
+          rule: rule.id,
+          impact: rule.impact,
+          message: message,
+          tagName: element.tagName.toLowerCase(),
+          html: openingTag(element),
+          source: sourceElement ? sourceElement.getAttribute('${SOURCE_ATTRIBUTE}') : null,
+        });
+      }
+    });
+    return issues;
+  }
+
+  window.__runA11yAudit = audit;
+
+  var timer = null;
+  var lastReport = null;
+
+  function report() {
+    var issues = audit(document.body);
+    var serialized = JSON.stringify(issues);
+    if (serialized === lastReport) return;
+    lastReport = serialized;
+    window.parent.postMessage({ type: '${A11Y_AUDIT_MESSAGE}', issues: issues }, '*');
+  }
+
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(report, ${AUDIT_DELAY_MS});
+  }
+
+  window.addEventListener('load', function () {
+    schedule();
+    // Renders, state changes and the dark mode class all change the result
+    new MutationObserver(schedule).observe(document.documentElement, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      characterData: true,
+    });
+  });
+})();`;
+
+function isA11yImpact(value: unknown): value is A11yImpact {
+  return A11Y_IMPACTS.includes(value as A11yImpact);
+}
+
+// Returns the issues an A11Y_AUDIT_MESSAGE reports, or null for any other
+// message
+export function readA11yAuditMessage(data: unknown): A11yIssue[] | null {
+  if (!data || typeof data !== "object") return null;
+
+  const { type, issues } = data as { type?: unknown; issues?: unknown };
+  if (type !== A11Y_AUDIT_MESSAGE || !Array.isArray(issues)) return null;
+
+  return issues.flatMap((issue) => {
+    if (!issue || typeof issue !== "object") return [];
+
+    const { rule, impact, message, tagName, html, source } = issue;
+    if (
+      typeof rule !== "string" ||
+      !isA11yImpact(impact) ||
+      typeof message !== "string" ||
+      typeof tagName !== "string"
+    ) {
+      return [];
+    }
+    return [
+      {
+        rule,
+        impact,
+        message,
+        tagName,
+        html: typeof html === "string" ? html : `<${tagName}>`,
+        source: typeof source === "string" ? parseSourceLocation(source) : null,
+      },
+    ];
+  });
+}
+
+function getIssueKey(issue: A11yIssue): string {
+  const source = issue.source ? formatSourceLocation(issue.source) : issue.html;
+  return `${issue.rule}\n${source}\n${issue.message}`;
+}
+
+/**
+ * Combines the reports of several frames, e.g. side-by-side viewports,
+ * dropping duplicates and ordering the most severe issues first.
+ */
+export function mergeA11yIssues(reports: A11yIssue[][]): A11yIssue[] {
+  const issues = new Map<string, A11yIssue>();
+  for (const issue of reports.flat()) {
+    const key = getIssueKey(issue);
+    if (!issues.has(key)) issues.set(key, issue);
+  }
+
+  return Array.from(issues.values()).sort(
+    (a, b) => A11Y_IMPACTS.indexOf(a.impact) - A11Y_IMPACTS.indexOf(b.impact)
+  );
+}
+
+function formatA11yIssue(issue: A11yIssue): string {
+  const location = issue.source ? ` ${formatSourceLocation(issue.source)}` : "";
+  return `[${issue.impact}] ${issue.rule}${location} ${issue.html}: ${issue.message}`;
+}
+
+/**
+ * Builds the chat message asking the model to fix the audit's findings.
+ * Issues are wrapped in a tag so the model can tell them apart from
+ * regular user instructions.
+ */
+export function formatA11yFixRequest(issues: A11yIssue[]): string {
+  return `The preview has the following accessibility issue${issues.length > 1 ? "s" : ""}. Fix the code so it passes, changing only what is needed and keeping the design otherwise as it is.
+
+<a11y_issues>
+${issues.map(formatA11yIssue).join("\n")}
+</a11y_issues>`;
+}
@@ -0,0 +1,107 @@
+import type { Readable, Writable } from "stream";
+
+type Params = Record<string, unknown>;
+// Protocol payloads are untyped JSON
+type Payload = any;
+type EventListener = (params: Payload, sessionId?: string) => void;
+
+interface Message {
+  id?: number;
+  method?: string;
+  params?: Payload;
+  result?: Payload;
+  error?: { message: string };
+  sessionId?: string;
+}
+
+export interface DevToolsConnection {
+  // Sends a command to the browser, or to an attached target's session
+  send(method: string, params?: Params, sessionId?: string): Promise<Payload>;
+  on(method: string, listener: EventListener): void;
+  // Resolves with the next event of this kind from the given session
+  once(method: string, sessionId?: string): Promise<Payload>;
+}
+
+/**
+ * Chrome DevTools Protocol over the pipe Chrome opens for
+ * --remote-debugging-pipe: JSON messages separated by NUL bytes, commands
+ * written to the browser's fd 3 and replies read from its fd 4.
+ */
+export function connectDevTools(
+  input: Writable,
+  output: Readable
+): DevToolsConnection {
+  const pending = new Map<
+    number,
+    { resolve: (result: Payload) => void; reject: (error: Error) => void }
+  >();
+  const listeners = new Map<string, Set<EventListener>>();
+  let nextId = 1;
+  let buffered = "";
+  let closedError: Error | null = null;
+
+  const dispatch = (message: Message) => {
+    if (message.id !== undefined) {
+      const command = pending.get(message.id);
+      pending.delete(message.id);
+      if (message.error) {
+        command?.reject(new Error(message.error.message));
+      } else {
+        command?.resolve(message.result);
+      }
+      return;
+    }
+    if (message.method) {
+      listeners.get(message.method)?.forEach((listener) => {
+        listener(message.params, message.sessionId);
+      });
+    }
+  };
+
+  output.setEncoding("utf8");
+  output.on("data", (chunk: string) => {
+    const messages = (buffered + chunk).split("\0");
+    buffered = messages.pop() ?? "";
+    for (const message of messages) {
+      dispatch(JSON.parse(message));
+    }
+  });
+
+  const close = (error: Error) => {
+    closedError ??= error;
+    pending.forEach((command) => command.reject(closedError!));
+    pending.clear();
+  };
+  output.on("close", () => close(new Error("Browser connection closed")));
+  output.on("error", close);
+  // Writes after the browser has gone fail here, and reject through close
+  input.on("error", close);
+
+  const on = (method: string, listener: EventListener) => {
+    if (!listeners.has(method)) listeners.set(method, new Set());
+    listeners.get(method)!.add(listener);
+  };
+
+  return {
+    send(method, params = {}, sessionId) {
+      if (closedError) return Promise.reject(closedError);
+
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        input.write(JSON.stringify({ id, method, params, sessionId }) + "\0");
+      });
+    },
+    on,
+    once(method, sessionId) {
+      return new Promise((resolve) => {
+        const listener: EventListener = (params, eventSessionId) => {
+          if (eventSessionId !== sessionId) return;
+          listeners.get(method)?.delete(listener);
+          resolve(params);
+        };
+        on(method, listener);
+      });
+    },
+  };
+}
@@ -0,0 +1,110 @@
+// Attribute the preview transform stamps on host elements, e.g.
+// data-source="/components/Card.jsx:12:5"
+export const SOURCE_ATTRIBUTE = "data-source";
+
+// postMessage types between the app and the preview iframe: the app turns
+// picking on and off, the iframe reports the element that was clicked or
+// that picking was cancelled with Escape
+export const PICKER_MODE_MESSAGE = "uigen:picker-mode";
+export const ELEMENT_PICKED_MESSAGE = "uigen:element-picked";
+export const PICKER_CANCELLED_MESSAGE = "uigen:picker-cancelled";
+
+// Keeps the element's text from crowding out the user's request
+const MAX_TEXT_LENGTH = 80;
+
+export interface SourceLocation {
+  path: string;
+  line: number;
+  column: number;
+}
+
+export interface PickedElement {
+  source: SourceLocation;
+  tagName: string;
+  text?: string;
+}
+
+export interface ElementPickedMessage {
+  type: typeof ELEMENT_PICKED_MESSAGE;
+  source: string;
+  tagName: string;
+  text?: string;
+}
+
+export function formatSourceLocation({ path, line, column }: SourceLocation): string {
+  return `${path}:${line}:${column}`;
+}
+
+export function parseSourceLocation(value: string): SourceLocation | null {
+  const match = /^(\/.+):(\d+):(\d+)$/.exec(value);
+  if (!match) return null;
+  return { path: match[1], line: Number(match[2]), column: Number(match[3]) };
+}
+
+// Returns the element an ELEMENT_PICKED_MESSAGE reports, or null for any
+// other message
+export function readPickedElement(data: unknown): PickedElement | null {
+  if (!data || typeof data !== "object") return null;
+
+  const { type, source, tagName, text } = data as Partial<ElementPickedMessage>;
+  if (
+    type !== ELEMENT_PICKED_MESSAGE ||
+    typeof source !== "string" ||
+    typeof tagName !== "string"
+  ) {
+    return null;
+  }
+
+  const location = parseSourceLocation(source);
+  if (!location) return null;
+  return {
+    source: location,
+    tagName,
+    text: typeof text === "string" && text ? text : undefined,
+  };
+}
+
+export function isPickerCancelledMessage(data: unknown): boolean {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (data as { type?: unknown }).type === PICKER_CANCELLED_MESSAGE
+  );
+}
+
+export function describePickedElement(element: PickedElement): string {
+  return `<${element.tagName}> in ${formatSourceLocation(element.source)}`;
+}
+
+/**
+ * Prefixes a chat message with the element picked in the preview. The
+ * location is wrapped in a tag so the model can tell it apart from the
+ * user's own words; `sourceLine` is the JSX line the element starts on.
+ */
+export function formatElementRequest(
+  element: PickedElement,
+  request: string,
+  sourceLine?: string
+): string {
+  const text = element.text?.replace(/\s+/g, " ").trim();
+  const lines = [
+    `Element: <${element.tagName}>`,
+    `Source: ${formatSourceLocation(element.source)}`,
+  ];
+  if (sourceLine?.trim()) {
+    lines.push(`Code: ${sourceLine.trim()}`);
+  }
+  if (text) {
+    lines.push(
+      `Text: ${text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH).trimEnd()}…` : text}`
+    );
+  }
+
+  return `The request below is about this element, picked in the preview. Change the code at that location.
+
+<selected_element>
+${lines.join("\n")}
+</selected_element>
+
+${request}`;
+}
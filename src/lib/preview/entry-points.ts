@@ -0,0 +1,78 @@
+import { isStoryFile } from "@/lib/preview/stories";
+
+// Files the preview renders when no component has been picked
+export const DEFAULT_ENTRY_POINTS = [
+  "/App.jsx",
+  "/App.tsx",
+  "/index.jsx",
+  "/index.tsx",
+  "/src/App.jsx",
+  "/src/App.tsx",
+];
+
+const COMPONENT_FILE = /\.(jsx|tsx)$/;
+const DEFAULT_EXPORT = /\bexport\s+default\b|\bexport\s*\{[^}]*\bas\s+default\b/;
+
+export function findDefaultEntryPoint(
+  files: Map<string, string>
+): string | null {
+  const found = DEFAULT_ENTRY_POINTS.find((path) => files.has(path));
+  if (found) return found;
+
+  // Just use the first .jsx/.tsx file found
+  return (
+    Array.from(files.keys()).find(
+      (path) => COMPONENT_FILE.test(path) && !isStoryFile(path)
+    ) ?? null
+  );
+}
+
+/**
+ * Component files with a default export, i.e. ones the preview can render.
+ * Story files export their metadata as default, so they are left out.
+ */
+export function listComponentFiles(files: Map<string, string>): string[] {
+  return Array.from(files.entries())
+    .filter(
+      ([path, content]) =>
+        COMPONENT_FILE.test(path) &&
+        !isStoryFile(path) &&
+        DEFAULT_EXPORT.test(content)
+    )
+    .map(([path]) => path)
+    .sort();
+}
+
+// "/components/Button.jsx" -> "/components/Button.props.json"
+export function getPropsPath(componentPath: string): string {
+  return componentPath.replace(COMPONENT_FILE, ".props.json");
+}
+
+export type PreviewPropsResult =
+  | { props: Record<string, unknown> | undefined }
+  | { error: string };
+
+/** Reads the props for a component from its sibling `.props.json`, if any. */
+export function readPreviewProps(
+  files: Map<string, string>,
+  componentPath: string
+): PreviewPropsResult {
+  const content = files.get(getPropsPath(componentPath));
+  if (content === undefined || !content.trim()) {
+    return { props: undefined };
+  }
+
+  let props: unknown;
+  try {
+    props = JSON.parse(content);
+  } catch (error) {
+    return {
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  if (typeof props !== "object" || props === null || Array.isArray(props)) {
+    return { error: "Props must be a JSON object" };
+  }
+  return { props: props as Record<string, unknown> };
+}
@@ -0,0 +1,172 @@
+import { deflateSync, inflateSync } from "zlib";
+import type { RGBAImage } from "@/lib/visual-diff";
+
+// Just enough PNG to read the screenshots Chrome writes and to write diff
+// overlays: 8-bit, non-interlaced, grayscale or truecolor with or without alpha
+
+const SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Samples per pixel by color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+function unfilter(
+  raw: Buffer,
+  width: number,
+  height: number,
+  channels: number
+): Uint8Array {
+  const stride = width * channels;
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = y * (stride + 1) + 1;
+    const row = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const a = x >= channels ? pixels[row + x - channels] : 0;
+      const b = y > 0 ? pixels[row - stride + x] : 0;
+      const c = x >= channels && y > 0 ? pixels[row - stride + x - channels] : 0;
+      const value = raw[line + x];
+
+      switch (filter) {
+        case 0:
+          pixels[row + x] = value;
+          break;
+        case 1:
+          pixels[row + x] = value + a;
+          break;
+        case 2:
+          pixels[row + x] = value + b;
+          break;
+        case 3:
+          pixels[row + x] = value + ((a + b) >> 1);
+          break;
+        case 4:
+          pixels[row + x] = value + paeth(a, b, c);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+    }
+  }
+
+  return pixels;
+}
+
+export function decodePng(png: Uint8Array): RGBAImage {
+  const buffer = Buffer.from(png.buffer, png.byteOffset, png.byteLength);
+  if (!buffer.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  const chunks: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === "IDAT") {
+      chunks.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels || interlace !== 0) {
+    throw new Error(
+      `Unsupported PNG format (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`
+    );
+  }
+
+  const pixels = unfilter(
+    inflateSync(Buffer.concat(chunks)),
+    width,
+    height,
+    channels
+  );
+  if (channels === 4) {
+    return { width, height, data: pixels };
+  }
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const source = i * channels;
+    const gray = channels <= 2;
+    data[i * 4] = pixels[source];
+    data[i * 4 + 1] = pixels[source + (gray ? 0 : 1)];
+    data[i * 4 + 2] = pixels[source + (gray ? 0 : 2)];
+    data[i * 4 + 3] = channels === 2 ? pixels[source + 1] : 255;
+  }
+  return { width, height, data };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, "ascii");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+export function encodePng({ width, height, data }: RGBAImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  // Every row unfiltered, which deflate still packs well for screenshots
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
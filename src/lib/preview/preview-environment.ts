@@ -0,0 +1,71 @@
+import { extractTailwindCandidates } from "@/lib/preview/tailwind-candidates";
+import { THEME_PATH, readProjectTheme } from "@/lib/preview/theme";
+
+// The CDN runtime (esm.sh React, cdn.tailwindcss.com) is opt-in; by default
+// the app serves React and a compiled Tailwind stylesheet itself
+export const USE_PREVIEW_CDN = process.env.NEXT_PUBLIC_PREVIEW_USE_CDN === "true";
+
+// Previews run code written by the model, collaborators and whoever shared
+// the project, so frames get an opaque origin: no allow-same-origin, and
+// modules are loaded from data URLs (createDataURL) instead of blob URLs
+export const PREVIEW_SANDBOX = "allow-scripts allow-forms";
+
+// Optional local package mirror, e.g. "/api/packages", for offline previews
+export function getPackageMirrorUrl(): string | undefined {
+  const mirrorUrl = process.env.NEXT_PUBLIC_PACKAGE_MIRROR_URL;
+  if (!mirrorUrl) return undefined;
+  // The preview is a srcdoc iframe, so make relative mirror URLs absolute
+  return new URL(mirrorUrl, window.location.origin).toString();
+}
+
+export function getRuntimeUrl(): string | undefined {
+  if (USE_PREVIEW_CDN) return undefined;
+  return new URL("/api/preview/runtime", window.location.origin).toString();
+}
+
+async function compileTailwindCss(
+  candidates: string[],
+  theme: string | undefined
+): Promise<string> {
+  const response = await fetch("/api/preview/tailwind", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ candidates, theme }),
+  });
+  if (!response.ok) {
+    throw new Error(`Tailwind compilation failed with status ${response.status}`);
+  }
+  return response.text();
+}
+
+/**
+ * Returns a function that compiles the stylesheet for a set of files,
+ * reusing the last result while the class names and theme are unchanged.
+ * It resolves to undefined when the preview should use the Tailwind CDN.
+ */
+export function createTailwindLoader() {
+  let cache: { key: string; css: string } | null = null;
+
+  return async (files: Map<string, string>): Promise<string | undefined> => {
+    if (USE_PREVIEW_CDN) return undefined;
+
+    const candidates = extractTailwindCandidates(files);
+    // An invalid theme is reported by the preview itself; compile without it
+    const theme =
+      "error" in readProjectTheme(files) ? undefined : files.get(THEME_PATH);
+    const key = `${candidates.join(" ")}\n${theme ?? ""}`;
+    if (cache?.key === key) {
+      return cache.css;
+    }
+
+    try {
+      const css = await compileTailwindCss(candidates, theme);
+      cache = { key, css };
+      return css;
+    } catch (err) {
+      // Fall back to the CDN rather than rendering unstyled
+      console.error("Failed to compile Tailwind, using CDN:", err);
+      return undefined;
+    }
+  };
+}
@@ -0,0 +1,58 @@
+// postMessage type the preview iframe uses to report errors to the app
+export const PREVIEW_ERROR_MESSAGE = "uigen:preview-error";
+
+// Stack traces are trimmed so repair requests stay small
+const MAX_STACK_LINES = 6;
+
+export interface PreviewError {
+  kind: "compile" | "runtime";
+  message: string;
+  path?: string;
+  stack?: string;
+}
+
+export interface PreviewErrorMessage {
+  type: typeof PREVIEW_ERROR_MESSAGE;
+  error: PreviewError;
+}
+
+export function isPreviewErrorMessage(data: unknown): data is PreviewErrorMessage {
+  if (!data || typeof data !== "object") return false;
+
+  const { type, error } = data as Partial<PreviewErrorMessage>;
+  return (
+    type === PREVIEW_ERROR_MESSAGE &&
+    !!error &&
+    (error.kind === "compile" || error.kind === "runtime") &&
+    typeof error.message === "string"
+  );
+}
+
+export function isSamePreviewError(a: PreviewError, b: PreviewError): boolean {
+  return a.kind === b.kind && a.path === b.path && a.message === b.message;
+}
+
+function formatPreviewError(error: PreviewError): string {
+  const location = error.path ? ` ${error.path}` : "";
+  const stack = error.stack
+    ?.split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .slice(0, MAX_STACK_LINES)
+    .map((line) => `    ${line}`)
+    .join("\n");
+
+  return `[${error.kind}]${location}: ${error.message}${stack ? `\n${stack}` : ""}`;
+}
+
+/**
+ * Builds the chat message sent in auto-fix mode. Errors are wrapped in a
+ * tag so the model can tell them apart from regular user instructions.
+ */
+export function formatRepairRequest(errors: PreviewError[]): string {
+  return `The preview failed with the following error${errors.length > 1 ? "s" : ""}. Fix the code so the preview renders without errors, changing only what is needed.
+
+<preview_errors>
+${errors.map(formatPreviewError).join("\n")}
+</preview_errors>`;
+}
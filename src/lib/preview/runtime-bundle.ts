@@ -0,0 +1,100 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+// Production CommonJS builds the preview runtime is assembled from
+const RUNTIME_SOURCES: Record<string, string> = {
+  react: "react/cjs/react.production.js",
+  "react/jsx-runtime": "react/cjs/react-jsx-runtime.production.js",
+  "react/jsx-dev-runtime": "react/cjs/react-jsx-dev-runtime.production.js",
+  "react-dom": "react-dom/cjs/react-dom.production.js",
+  "react-dom/client": "react-dom/cjs/react-dom-client.production.js",
+  scheduler: "scheduler/cjs/scheduler.production.js",
+};
+
+// Specifiers the preview import map points at this runtime
+export const RUNTIME_ENTRIES = [
+  "react",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+  "react-dom",
+  "react-dom/client",
+];
+
+export const RUNTIME_REGISTRY_MODULE = "__runtime";
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+let registrySource: Promise<string> | null = null;
+const entrySources = new Map<string, Promise<string>>();
+
+async function buildRegistrySource(): Promise<string> {
+  const definitions = await Promise.all(
+    Object.entries(RUNTIME_SOURCES).map(async ([name, file]) => {
+      const source = await readFile(
+        path.join(process.cwd(), "node_modules", file),
+        "utf8"
+      );
+      return `${JSON.stringify(name)}: function (module, exports, require) {\n${source}\n}`;
+    })
+  );
+
+  // A tiny CommonJS loader so the modules can share one React instance
+  return `const process = { env: { NODE_ENV: "production" } };
+const __definitions = {
+${definitions.join(",\n")}
+};
+const __cache = {};
+function __require(name) {
+  if (!__cache[name]) {
+    const module = { exports: {} };
+    __cache[name] = module;
+    __definitions[name](module, module.exports, __require);
+  }
+  return __cache[name].exports;
+}
+`;
+}
+
+export function getRegistrySource(): Promise<string> {
+  registrySource ??= buildRegistrySource().then(
+    (source) => `${source}export { __require as require };\n`
+  );
+  return registrySource;
+}
+
+async function buildEntrySource(
+  specifier: string,
+  registryUrl: string
+): Promise<string> {
+  // Evaluate the runtime once on the server to learn each module's exports
+  const registry = await buildRegistrySource();
+  const load = new Function(`${registry}\nreturn __require;`)();
+  const exportNames = Object.keys(load(specifier)).filter(
+    (name) => name !== "default" && IDENTIFIER_REGEX.test(name)
+  );
+
+  return `import { require } from ${JSON.stringify(registryUrl)};
+const mod = require(${JSON.stringify(specifier)});
+export default mod;
+export const { ${exportNames.join(", ")} } = mod;
+`;
+}
+
+/**
+ * Returns an ES module re-exporting one of the runtime packages, e.g.
+ * `react-dom/client`. `registryUrl` is where the shared loader is served.
+ */
+export function getEntrySource(
+  specifier: string,
+  registryUrl: string
+): Promise<string> | null {
+  if (!RUNTIME_ENTRIES.includes(specifier)) {
+    return null;
+  }
+
+  const key = `${registryUrl}|${specifier}`;
+  if (!entrySources.has(key)) {
+    entrySources.set(key, buildEntrySource(specifier, registryUrl));
+  }
+  return entrySources.get(key)!;
+}
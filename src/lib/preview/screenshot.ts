@@ -0,0 +1,378 @@
+import { spawn } from "child_process";
+import { lookup } from "dns/promises";
+import { once } from "events";
+import { existsSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { BlockList, isIP } from "net";
+import os from "os";
+import path from "path";
+import type { Readable, Writable } from "stream";
+import {
+  createImportMap,
+  createPreviewHTML,
+} from "@/lib/transform/jsx-transformer";
+import { findDefaultEntryPoint } from "@/lib/preview/entry-points";
+import {
+  RUNTIME_ENTRIES,
+  getEntrySource,
+  getRegistrySource,
+} from "@/lib/preview/runtime-bundle";
+import { extractTailwindCandidates } from "@/lib/preview/tailwind-candidates";
+import { compileTailwind } from "@/lib/preview/tailwind-compiler";
+import { readProjectTheme } from "@/lib/preview/theme";
+import {
+  DevToolsConnection,
+  connectDevTools,
+} from "@/lib/preview/devtools-pipe";
+
+// Where Chrome or Chromium usually lives, unless PREVIEW_BROWSER_PATH is set
+const BROWSER_PATHS = [
+  "/usr/bin/chromium",
+  "/usr/bin/chromium-browser",
+  "/usr/bin/google-chrome",
+  "/usr/bin/google-chrome-stable",
+  "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  "/Applications/Chromium.app/Contents/MacOS/Chromium",
+];
+
+// The page is laid out at desktop size and captured at half scale
+export const THUMBNAIL_VIEWPORT = { width: 1280, height: 800 };
+const THUMBNAIL_SCALE = 0.5;
+// Renders for comparison cover the whole page at full scale, up to a
+// height that keeps a runaway page from producing a huge image
+const MAX_RENDER_HEIGHT = 4000;
+
+interface CaptureOptions {
+  scale: number;
+  fullPage: boolean;
+}
+
+// Time the page gets to load its modules and render before the capture
+const RENDER_BUDGET_MS = 5000;
+const BROWSER_TIMEOUT_MS = 30_000;
+
+type Env = Record<string, string | undefined>;
+
+export function findBrowser(env: Env = process.env): string | null {
+  if (env.PREVIEW_BROWSER_PATH) return env.PREVIEW_BROWSER_PATH;
+  return BROWSER_PATHS.find((browserPath) => existsSync(browserPath)) ?? null;
+}
+
+export function toDataUrl(source: string, mimeType = "text/javascript"): string {
+  return `data:${mimeType};base64,${Buffer.from(source).toString("base64")}`;
+}
+
+let runtimeModules: Promise<Record<string, string>> | null = null;
+
+// The headless browser can't reach the app's runtime route, so the
+// runtime is inlined into the import map
+function getRuntimeModules(): Promise<Record<string, string>> {
+  runtimeModules ??= (async () => {
+    const registryUrl = toDataUrl(await getRegistrySource());
+    const entries = await Promise.all(
+      RUNTIME_ENTRIES.map(async (specifier) => [
+        specifier,
+        toDataUrl((await getEntrySource(specifier, registryUrl))!),
+      ])
+    );
+    return Object.fromEntries(entries);
+  })().catch((error) => {
+    runtimeModules = null;
+    throw error;
+  });
+  return runtimeModules;
+}
+
+// Relative mirror URLs point at the app, which needs APP_URL to be reachable
+function getPackageMirrorUrl(env: Env = process.env): string | undefined {
+  const mirrorUrl = env.NEXT_PUBLIC_PACKAGE_MIRROR_URL;
+  if (!mirrorUrl) return undefined;
+  if (/^https?:\/\//.test(mirrorUrl)) return mirrorUrl;
+  return env.APP_URL ? new URL(mirrorUrl, env.APP_URL).toString() : undefined;
+}
+
+// Loopback, private, link-local (cloud metadata services), shared and
+// reserved ranges, which a rendered project must not reach
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+function isUnder(url: URL, base: string): boolean {
+  const baseUrl = new URL(base);
+  return (
+    url.origin === baseUrl.origin &&
+    url.pathname.startsWith(baseUrl.pathname.replace(/\/?$/, "/"))
+  );
+}
+
+/**
+ * Whether a page being captured may load a URL: http(s) on public
+ * addresses only, apart from the given bases, e.g. a package mirror on the
+ * app's own host.
+ */
+export async function isAllowedRequest(
+  url: string,
+  allowedBases: string[] = []
+): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol === "data:") return true;
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return false;
+  if (allowedBases.some((base) => isUnder(parsed, base))) return true;
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  return addresses.length > 0 && !addresses.some(isPrivateAddress);
+}
+
+/**
+ * Builds a self-contained preview document for a project's entry point,
+ * the same way the preview frame does but without any blob URLs.
+ * Returns null when there is nothing to render.
+ */
+export async function renderProjectHTML(
+  files: Map<string, string>
+): Promise<string | null> {
+  const entryPoint = findDefaultEntryPoint(files);
+  if (!entryPoint) return null;
+
+  const { importMap, styles, errors } = createImportMap(files, {
+    packageMirrorUrl: getPackageMirrorUrl(),
+    runtimeModules: await getRuntimeModules(),
+    createModuleUrl: toDataUrl,
+  });
+  const themeResult = readProjectTheme(files);
+  const theme = "theme" in themeResult ? themeResult.theme : null;
+
+  return createPreviewHTML(entryPoint, importMap, styles, errors, {
+    tailwindCss: await compileTailwind(extractTailwindCandidates(files), theme),
+    theme,
+  });
+}
+
+// One browser at a time, since each capture starts a whole Chrome process
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task, task);
+  queue = result.catch(() => {});
+  return result;
+}
+
+const BROWSER_ARGS = [
+  "--headless=new",
+  "--disable-gpu",
+  "--hide-scrollbars",
+  "--no-first-run",
+  "--no-default-browser-check",
+  "--remote-debugging-pipe",
+];
+
+async function renderPage(
+  devtools: DevToolsConnection,
+  html: string,
+  allowedBases: string[],
+  options: CaptureOptions
+): Promise<Buffer> {
+  // Requests wait in the browser until checked here
+  devtools.on("Fetch.requestPaused", ({ requestId, request }, sessionId) => {
+    isAllowedRequest(request.url, allowedBases)
+      .catch(() => false)
+      .then((allowed) =>
+        allowed
+          ? devtools.send("Fetch.continueRequest", { requestId }, sessionId)
+          : devtools.send(
+              "Fetch.failRequest",
+              { requestId, errorReason: "BlockedByClient" },
+              sessionId
+            )
+      )
+      .catch(() => {});
+  });
+
+  const intercept = async (sessionId: string) => {
+    await devtools.send(
+      "Fetch.enable",
+      { patterns: [{ urlPattern: "*" }] },
+      sessionId
+    );
+    // Frames in other processes and workers get their own sessions, and
+    // wait for them to be intercepted as well
+    await devtools.send(
+      "Target.setAutoAttach",
+      { autoAttach: true, waitForDebuggerOnStart: true, flatten: true },
+      sessionId
+    );
+  };
+  devtools.on("Target.attachedToTarget", ({ sessionId }, parentSessionId) => {
+    if (!parentSessionId) return;
+    // A target that can't be intercepted is left paused
+    intercept(sessionId)
+      .then(() => devtools.send("Runtime.runIfWaitingForDebugger", {}, sessionId))
+      .catch(() => {});
+  });
+
+  // A new about:blank page has an opaque origin, so nothing the project
+  // runs is same-origin with anything, let alone the local filesystem
+  const { targetId } = await devtools.send("Target.createTarget", {
+    url: "about:blank",
+  });
+  const { sessionId } = await devtools.send("Target.attachToTarget", {
+    targetId,
+    flatten: true,
+  });
+  const send = (method: string, params?: Record<string, unknown>) =>
+    devtools.send(method, params, sessionId);
+
+  await intercept(sessionId);
+  await send("Emulation.setDeviceMetricsOverride", {
+    width: THUMBNAIL_VIEWPORT.width,
+    height: THUMBNAIL_VIEWPORT.height,
+    deviceScaleFactor: options.scale,
+    mobile: false,
+  });
+  const { frameTree } = await send("Page.getFrameTree");
+  await send("Page.setDocumentContent", { frameId: frameTree.frame.id, html });
+
+  // Virtual time only moves on while no request is pending, so slow
+  // module loads don't eat into the render budget
+  const rendered = devtools.once("Emulation.virtualTimeBudgetExpired", sessionId);
+  await send("Emulation.setVirtualTimePolicy", {
+    policy: "pauseIfNetworkFetchesPending",
+    budget: RENDER_BUDGET_MS,
+  });
+  await rendered;
+
+  if (!options.fullPage) {
+    const { data } = await send("Page.captureScreenshot", { format: "png" });
+    return Buffer.from(data, "base64");
+  }
+
+  const { cssContentSize } = await send("Page.getLayoutMetrics");
+  const { data } = await send("Page.captureScreenshot", {
+    format: "png",
+    captureBeyondViewport: true,
+    clip: {
+      x: 0,
+      y: 0,
+      width: Math.max(THUMBNAIL_VIEWPORT.width, Math.ceil(cssContentSize.width)),
+      height: Math.min(
+        MAX_RENDER_HEIGHT,
+        Math.max(THUMBNAIL_VIEWPORT.height, Math.ceil(cssContentSize.height))
+      ),
+      scale: 1,
+    },
+  });
+  return Buffer.from(data, "base64");
+}
+
+async function captureScreenshot(
+  browser: string,
+  html: string,
+  options: CaptureOptions
+): Promise<Buffer> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), "uigen-screenshot-"));
+  // Chrome keeps its sandbox, which it refuses to start as root: run the
+  // app as an unprivileged user to capture thumbnails
+  const chrome = spawn(
+    browser,
+    [...BROWSER_ARGS, `--user-data-dir=${path.join(dir, "profile")}`],
+    { stdio: ["ignore", "ignore", "ignore", "pipe", "pipe"] }
+  );
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const devtools = connectDevTools(
+      chrome.stdio[3] as Writable,
+      chrome.stdio[4] as Readable
+    );
+    const mirrorUrl = getPackageMirrorUrl();
+
+    return await Promise.race([
+      renderPage(devtools, html, mirrorUrl ? [mirrorUrl] : [], options),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error("Timed out capturing the screenshot")),
+          BROWSER_TIMEOUT_MS
+        );
+        chrome.once("error", reject);
+        chrome.once("exit", (code) => {
+          reject(new Error(`Browser exited with code ${code}`));
+        });
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    if (chrome.pid && chrome.exitCode === null && chrome.signalCode === null) {
+      const exited = once(chrome, "exit");
+      chrome.kill("SIGKILL");
+      await exited;
+    }
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function captureProject(
+  files: Map<string, string>,
+  options: CaptureOptions
+): Promise<Buffer | null> {
+  const browser = findBrowser();
+  if (!browser) return null;
+
+  const html = await renderProjectHTML(files);
+  if (!html) return null;
+
+  return enqueue(() => captureScreenshot(browser, html, options));
+}
+
+/**
+ * Renders the project in a local headless Chrome and returns a PNG of
+ * the first screen, or null when no browser is installed or the project
+ * has no entry point.
+ */
+export function captureProjectThumbnail(
+  files: Map<string, string>
+): Promise<Buffer | null> {
+  return captureProject(files, { scale: THUMBNAIL_SCALE, fullPage: false });
+}
+
+/**
+ * Like captureProjectThumbnail, but of the whole page at full scale, for
+ * pixel comparisons that must not miss changes below the fold or smaller
+ * than a thumbnail pixel.
+ */
+export function captureProjectRender(
+  files: Map<string, string>
+): Promise<Buffer | null> {
+  return captureProject(files, { scale: 1, fullPage: true });
+}
@@ -0,0 +1,57 @@
+/**
+ * Story files follow a small subset of Component Story Format:
+ *
+ *   export default { title: "Button", component: Button, args: { label: "Save" } };
+ *   export const Primary = { args: { variant: "primary" } };
+ *   export const Disabled = { args: { disabled: true } };
+ *   export const WithIcon = (args) => <Button {...args} icon="+" />;
+ *
+ * Each named export is a story. Object stories render the meta `component`
+ * with the meta args merged with their own, or call their `render(args)`.
+ */
+
+const STORY_FILE = /\.stories\.(jsx|tsx)$/;
+
+export function isStoryFile(path: string): boolean {
+  return STORY_FILE.test(path);
+}
+
+export function listStoryFiles(files: Map<string, string>): string[] {
+  return Array.from(files.keys()).filter(isStoryFile).sort();
+}
+
+/** Names of the stories a file exports, in source order. */
+export function getStoryNames(source: string): string[] {
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (name !== "default" && !names.includes(name)) names.push(name);
+  };
+
+  for (const match of source.matchAll(
+    /\bexport\s+(?:const|let|var|function)\s+([A-Za-z_$][\w$]*)/g
+  )) {
+    add(match[1]);
+  }
+
+  for (const match of source.matchAll(/\bexport\s*\{([^}]*)\}/g)) {
+    for (const specifier of match[1].split(",")) {
+      const name = specifier.trim().split(/\s+as\s+/).pop()?.trim();
+      if (name) add(name);
+    }
+  }
+
+  return names;
+}
+
+// "/components/Button.stories.jsx" -> "Button"
+export function getStoryTitle(path: string): string {
+  return (path.split("/").pop() ?? path).replace(STORY_FILE, "");
+}
+
+// "PrimaryLarge" -> "Primary Large"
+export function formatStoryName(name: string): string {
+  return name
+    .replace(/_/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .trim();
+}
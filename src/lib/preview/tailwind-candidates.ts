@@ -0,0 +1,27 @@
+// Splits source text the way Tailwind's scanner roughly does: anything
+// between quotes, whitespace and JSX punctuation may be a class candidate
+const CANDIDATE_SEPARATOR = /[\s"'`{}<>;,()=]+/;
+
+const CANDIDATE_PATTERN = /^[!a-z0-9@\-\[\]\/:.#%_&*+>~]+$/i;
+
+// Limits the compile endpoint enforces; each request compiles from scratch
+export const MAX_CANDIDATE_LENGTH = 100;
+export const MAX_CANDIDATES = 10_000;
+
+export function extractTailwindCandidates(
+  files: Map<string, string>
+): string[] {
+  const candidates = new Set<string>();
+
+  for (const [path, content] of files) {
+    if (!/\.(jsx?|tsx?|html|css)$/.test(path)) continue;
+
+    for (const token of content.split(CANDIDATE_SEPARATOR)) {
+      if (token && token.length <= MAX_CANDIDATE_LENGTH && CANDIDATE_PATTERN.test(token)) {
+        candidates.add(token);
+      }
+    }
+  }
+
+  return Array.from(candidates).sort().slice(0, MAX_CANDIDATES);
+}
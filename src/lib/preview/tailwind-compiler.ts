@@ -0,0 +1,38 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { compile } from "tailwindcss";
+import { PreviewTheme, createThemeCss } from "@/lib/preview/theme";
+
+const TAILWIND_DIR = path.join(process.cwd(), "node_modules", "tailwindcss");
+
+async function loadStylesheet(id: string, base: string) {
+  const file =
+    id === "tailwindcss"
+      ? path.join(TAILWIND_DIR, "index.css")
+      : path.resolve(base, id);
+
+  return {
+    path: file,
+    base: path.dirname(file),
+    content: await readFile(file, "utf8"),
+  };
+}
+
+/**
+ * Builds a Tailwind stylesheet containing only the utilities used by the
+ * given class candidates. Unknown candidates are ignored by Tailwind.
+ * The project theme, if any, extends Tailwind's default theme.
+ */
+export async function compileTailwind(
+  candidates: string[],
+  theme: PreviewTheme | null = null
+): Promise<string> {
+  // A compiler remembers every candidate it has built, so use a fresh one
+  // per request to keep projects from leaking classes into each other
+  const css = `@import "tailwindcss";\n${createThemeCss(theme)}`;
+  const { build } = await compile(css, {
+    base: TAILWIND_DIR,
+    loadStylesheet,
+  });
+  return build(candidates);
+}
@@ -0,0 +1,204 @@
+/**
+ * Project theme read from /theme.json, e.g.
+ *
+ *   {
+ *     "colors": { "brand": "#7c3aed", "surface": { "50": "#fafaf9", "900": "#1c1917" } },
+ *     "fonts": { "display": ["Playfair Display", "serif"] },
+ *     "radius": { "card": "1.25rem" }
+ *   }
+ *
+ * Each token becomes a Tailwind theme value, so the example above provides
+ * `bg-brand`, `text-surface-900`, `font-display` and `rounded-card`.
+ */
+
+export const THEME_PATH = "/theme.json";
+
+// Sent to preview frames to toggle the `dark` class without a re-render
+export const DARK_MODE_MESSAGE = "uigen:dark-mode";
+
+export interface PreviewTheme {
+  colors: Record<string, string | Record<string, string>>;
+  fonts: Record<string, string[]>;
+  radius: Record<string, string>;
+}
+
+export type ThemeResult = { theme: PreviewTheme | null } | { error: string };
+
+const TOKEN_NAME = /^[a-z0-9][a-z0-9-]*$/i;
+// Values end up inside CSS and a script, so nothing that could close either
+const UNSAFE_VALUE = /[;{}<>\\]/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkValue(value: unknown, where: string): string {
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`${where} must be a non-empty string`);
+  }
+  if (UNSAFE_VALUE.test(value)) {
+    throw new Error(`${where} contains an invalid character`);
+  }
+  return value.trim();
+}
+
+function checkName(name: string, where: string): string {
+  if (!TOKEN_NAME.test(name)) {
+    throw new Error(
+      `${where} "${name}" may only contain letters, numbers and dashes`
+    );
+  }
+  return name;
+}
+
+function parseSection<T>(
+  value: unknown,
+  section: string,
+  parseEntry: (entry: unknown, where: string) => T
+): Record<string, T> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) {
+    throw new Error(`"${section}" must be an object`);
+  }
+
+  const result: Record<string, T> = {};
+  for (const [name, entry] of Object.entries(value)) {
+    const where = `${section}.${checkName(name, section)}`;
+    result[name] = parseEntry(entry, where);
+  }
+  return result;
+}
+
+export function parseTheme(content: string): ThemeResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return {
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  if (!isRecord(raw)) {
+    return { error: "The theme must be a JSON object" };
+  }
+
+  try {
+    return {
+      theme: {
+        colors: parseSection(raw.colors, "colors", (entry, where) =>
+          isRecord(entry)
+            ? parseSection(entry, where, checkValue)
+            : checkValue(entry, where)
+        ),
+        fonts: parseSection(raw.fonts, "fonts", (entry, where) =>
+          Array.isArray(entry)
+            ? entry.map((font, i) => checkValue(font, `${where}[${i}]`))
+            : [checkValue(entry, where)]
+        ),
+        // A single value sets the default `rounded` radius
+        radius:
+          typeof raw.radius === "string"
+            ? { DEFAULT: checkValue(raw.radius, "radius") }
+            : parseSection(raw.radius, "radius", checkValue),
+      },
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export function readProjectTheme(files: Map<string, string>): ThemeResult {
+  const content = files.get(THEME_PATH);
+  if (content === undefined || !content.trim()) {
+    return { theme: null };
+  }
+  return parseTheme(content);
+}
+
+function formatFontFamily(fonts: string[]): string {
+  return fonts
+    .map((font) => (/^[\w-]+$/.test(font) ? font : `"${font.replace(/"/g, "")}"`))
+    .join(", ");
+}
+
+/** `tailwind.config` for the Tailwind CDN, which runs Tailwind v3. */
+export function createTailwindConfig(theme: PreviewTheme | null) {
+  return {
+    darkMode: "class",
+    theme: {
+      extend: theme
+        ? {
+            colors: theme.colors,
+            fontFamily: theme.fonts,
+            borderRadius: theme.radius,
+          }
+        : {},
+    },
+  };
+}
+
+/**
+ * CSS placed after `@import "tailwindcss"` for the Tailwind v4 compiler:
+ * class-based dark mode and the theme as CSS variables.
+ */
+export function createThemeCss(theme: PreviewTheme | null): string {
+  const lines = ["@custom-variant dark (&:where(.dark, .dark *));"];
+  if (!theme) return lines.join("\n");
+
+  const variables: string[] = [];
+  for (const [name, value] of Object.entries(theme.colors)) {
+    if (typeof value === "string") {
+      variables.push(`--color-${name}: ${value};`);
+    } else {
+      for (const [shade, shadeValue] of Object.entries(value)) {
+        variables.push(
+          shade === "DEFAULT"
+            ? `--color-${name}: ${shadeValue};`
+            : `--color-${name}-${shade}: ${shadeValue};`
+        );
+      }
+    }
+  }
+  for (const [name, fonts] of Object.entries(theme.fonts)) {
+    variables.push(`--font-${name}: ${formatFontFamily(fonts)};`);
+  }
+  for (const [name, value] of Object.entries(theme.radius)) {
+    variables.push(
+      name === "DEFAULT" ? `--radius: ${value};` : `--radius-${name}: ${value};`
+    );
+  }
+
+  if (variables.length > 0) {
+    lines.push("@theme {", ...variables.map((line) => `  ${line}`), "}");
+  }
+  return lines.join("\n");
+}
+
+/** Lists the classes the theme provides, for the system prompt. */
+export function describeThemeForPrompt(theme: PreviewTheme): string {
+  const lines: string[] = [];
+
+  for (const [name, value] of Object.entries(theme.colors)) {
+    if (typeof value === "string") {
+      lines.push(`* Color \`${name}\` (${value}): e.g. bg-${name}, text-${name}, border-${name}`);
+    } else {
+      const shades = Object.keys(value).map((shade) =>
+        shade === "DEFAULT" ? name : `${name}-${shade}`
+      );
+      lines.push(`* Color scale \`${name}\`: ${shades.join(", ")}, e.g. bg-${shades[0]}`);
+    }
+  }
+  for (const [name, fonts] of Object.entries(theme.fonts)) {
+    lines.push(`* Font \`font-${name}\`: ${fonts.join(", ")}`);
+  }
+  for (const [name, value] of Object.entries(theme.radius)) {
+    lines.push(
+      name === "DEFAULT"
+        ? `* Radius \`rounded\`: ${value}`
+        : `* Radius \`rounded-${name}\`: ${value}`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,135 @@
+export type DevicePreset = "mobile" | "tablet" | "desktop";
+
+// "responsive" fills the panel, as the preview always did
+export type ViewportDevice = "responsive" | DevicePreset | "custom";
+
+export type ViewportZoom = number | "fit";
+
+export interface ViewportSettings {
+  device: ViewportDevice;
+  customWidth: number;
+  customHeight: number;
+  // Swaps width and height, e.g. a phone held sideways
+  rotated: boolean;
+  zoom: ViewportZoom;
+  // Shows every preset side by side instead of a single viewport
+  multi: boolean;
+}
+
+export interface ViewportSize {
+  label: string;
+  width: number;
+  height: number;
+}
+
+// Sizes in CSS pixels, in each device's usual orientation
+export const DEVICE_PRESETS: Record<DevicePreset, ViewportSize> = {
+  mobile: { label: "Mobile", width: 390, height: 844 },
+  tablet: { label: "Tablet", width: 820, height: 1180 },
+  desktop: { label: "Desktop", width: 1440, height: 900 },
+};
+
+export const ZOOM_LEVELS = [0.25, 0.5, 0.75, 1, 1.25, 1.5];
+
+export const MIN_VIEWPORT_SIZE = 200;
+export const MAX_VIEWPORT_SIZE = 3840;
+
+export const DEFAULT_VIEWPORT_SETTINGS: ViewportSettings = {
+  device: "responsive",
+  customWidth: 1024,
+  customHeight: 768,
+  rotated: false,
+  zoom: "fit",
+  multi: false,
+};
+
+export function clampViewportSize(value: number): number {
+  if (!Number.isFinite(value)) return MIN_VIEWPORT_SIZE;
+  return Math.min(MAX_VIEWPORT_SIZE, Math.max(MIN_VIEWPORT_SIZE, Math.round(value)));
+}
+
+function rotate(size: ViewportSize, rotated: boolean): ViewportSize {
+  return rotated ? { ...size, width: size.height, height: size.width } : size;
+}
+
+/**
+ * The viewports to render, in order. Empty for "responsive", where a single
+ * frame fills the available space.
+ */
+export function getViewportSizes(settings: ViewportSettings): ViewportSize[] {
+  if (settings.multi) {
+    return Object.values(DEVICE_PRESETS).map((size) =>
+      // Rotating only makes sense for handhelds
+      size === DEVICE_PRESETS.desktop ? size : rotate(size, settings.rotated)
+    );
+  }
+
+  switch (settings.device) {
+    case "responsive":
+      return [];
+    case "custom":
+      return [
+        rotate(
+          {
+            label: "Custom",
+            width: clampViewportSize(settings.customWidth),
+            height: clampViewportSize(settings.customHeight),
+          },
+          settings.rotated
+        ),
+      ];
+    default:
+      return [rotate(DEVICE_PRESETS[settings.device], settings.rotated)];
+  }
+}
+
+/** Largest zoom, up to 100%, at which the viewports fit next to each other. */
+export function getFitZoom(
+  sizes: ViewportSize[],
+  available: { width: number; height: number },
+  gap = 0
+): number {
+  if (sizes.length === 0 || available.width <= 0 || available.height <= 0) {
+    return 1;
+  }
+
+  const totalWidth =
+    sizes.reduce((sum, size) => sum + size.width, 0) + gap * (sizes.length - 1);
+  const maxHeight = Math.max(...sizes.map((size) => size.height));
+  return Math.min(1, available.width / totalWidth, available.height / maxHeight);
+}
+
+const VIEWPORT_DEVICES: ViewportDevice[] = [
+  "responsive",
+  "mobile",
+  "tablet",
+  "desktop",
+  "custom",
+];
+
+/** Validates settings read back from storage, keeping defaults for bad fields. */
+export function parseViewportSettings(value: unknown): ViewportSettings {
+  const settings = { ...DEFAULT_VIEWPORT_SETTINGS };
+  if (typeof value !== "object" || value === null) return settings;
+
+  const raw = value as Record<string, unknown>;
+  if (VIEWPORT_DEVICES.includes(raw.device as ViewportDevice)) {
+    settings.device = raw.device as ViewportDevice;
+  }
+  if (typeof raw.customWidth === "number") {
+    settings.customWidth = clampViewportSize(raw.customWidth);
+  }
+  if (typeof raw.customHeight === "number") {
+    settings.customHeight = clampViewportSize(raw.customHeight);
+  }
+  if (typeof raw.rotated === "boolean") {
+    settings.rotated = raw.rotated;
+  }
+  if (raw.zoom === "fit" || ZOOM_LEVELS.includes(raw.zoom as number)) {
+    settings.zoom = raw.zoom as ViewportZoom;
+  }
+  if (typeof raw.multi === "boolean") {
+    settings.multi = raw.multi;
+  }
+  return settings;
+}
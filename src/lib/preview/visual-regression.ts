@@ -0,0 +1,35 @@
+import { decodePng } from "@/lib/preview/png";
+import { captureProjectRender } from "@/lib/preview/screenshot";
+import {
+  VisualDiff,
+  VisualDiffOptions,
+  diffImages,
+} from "@/lib/visual-diff";
+
+export function compareScreenshots(
+  before: Uint8Array,
+  after: Uint8Array,
+  options?: VisualDiffOptions
+): VisualDiff {
+  return diffImages(decodePng(before), decodePng(after), options);
+}
+
+/**
+ * Renders two states of a project in the headless browser and diffs them.
+ * Returns null when there is no browser or either state has nothing to
+ * render. Also meant for tests, e.g.
+ *
+ *   const diff = await compareProjectStates(before, after);
+ *   expect(diff?.changedPercentage).toBeLessThan(1);
+ */
+export async function compareProjectStates(
+  before: Map<string, string>,
+  after: Map<string, string>,
+  options?: VisualDiffOptions
+): Promise<VisualDiff | null> {
+  const beforePng = await captureProjectRender(before);
+  const afterPng = beforePng && (await captureProjectRender(after));
+  if (!beforePng || !afterPng) return null;
+
+  return compareScreenshots(beforePng, afterPng, options);
+}
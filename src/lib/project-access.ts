@@ -0,0 +1,83 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { ProjectRole, hasRole, isProjectRole } from "@/lib/project-roles";
+
+export async function getProjectRole(
+  projectId: string,
+  userId: string
+): Promise<ProjectRole | null> {
+  const member = await prisma.projectMember.findUnique({
+    where: {
+      projectId_userId: {
+        projectId,
+        userId,
+      },
+    },
+  });
+
+  return member && isProjectRole(member.role) ? member.role : null;
+}
+
+/**
+ * Throws unless the user has at least the required role. Non-members get
+ * "Project not found" so project ids can't be probed.
+ */
+export async function requireProjectRole(
+  projectId: string,
+  userId: string,
+  required: ProjectRole
+): Promise<ProjectRole> {
+  const role = await getProjectRole(projectId, userId);
+
+  if (!role) {
+    throw new Error("Project not found");
+  }
+  if (!hasRole(role, required)) {
+    throw new Error("Forbidden");
+  }
+
+  return role;
+}
+
+/**
+ * Turns the invitation behind an invite link into a membership and returns
+ * its project id. Signing up with an invited email isn't proof of owning
+ * it, so joining takes the link's token as well as a matching email.
+ */
+export async function acceptInvitation(
+  token: string,
+  userId: string,
+  email: string
+): Promise<string> {
+  const invitation = await prisma.projectInvitation.findUnique({
+    where: { token },
+  });
+  if (!invitation) {
+    throw new Error("Invitation not found");
+  }
+  if (invitation.email !== email.toLowerCase()) {
+    throw new Error("This invitation is for a different email address");
+  }
+
+  await prisma.$transaction([
+    prisma.projectMember.upsert({
+      where: {
+        projectId_userId: {
+          projectId: invitation.projectId,
+          userId,
+        },
+      },
+      create: {
+        projectId: invitation.projectId,
+        userId,
+        role: invitation.role,
+      },
+      update: {},
+    }),
+    prisma.projectInvitation.delete({
+      where: { id: invitation.id },
+    }),
+  ]);
+
+  return invitation.projectId;
+}
@@ -0,0 +1,25 @@
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+// Roles that can be handed out through an invitation; a project has one owner
+export type InvitableRole = Exclude<ProjectRole, "owner">;
+
+export const INVITABLE_ROLES: InvitableRole[] = ["editor", "viewer"];
+
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 0,
+  editor: 1,
+  owner: 2,
+};
+
+export function isProjectRole(value: unknown): value is ProjectRole {
+  return typeof value === "string" && Object.hasOwn(ROLE_RANK, value);
+}
+
+export function isInvitableRole(value: unknown): value is InvitableRole {
+  return INVITABLE_ROLES.includes(value as InvitableRole);
+}
+
+// Owners can do everything editors can, editors everything viewers can
+export function hasRole(role: ProjectRole, required: ProjectRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
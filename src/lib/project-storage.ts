@@ -0,0 +1,167 @@
+import "server-only";
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { FileNode } from "@/lib/file-system";
+
+// Either the client itself or the one passed to an interactive transaction
+type Db = Pick<typeof prisma, "projectFile" | "message">;
+
+interface FileRow {
+  path: string;
+  type: string;
+  content: string | null;
+  hash: string;
+}
+
+interface MessageRow {
+  position: number;
+  role: string;
+  content: string;
+  hash: string;
+}
+
+export function hashContent(...parts: string[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+/** Rows for a `serialize()` map, usable in a nested `files: { create }`. */
+export function toFileRows(data: Record<string, FileNode>): FileRow[] {
+  return Object.entries(data).map(([path, node]) => {
+    const content = node.type === "file" ? (node.content ?? "") : null;
+    return {
+      path,
+      type: node.type,
+      content,
+      hash: hashContent(node.type, content ?? ""),
+    };
+  });
+}
+
+/** Rows for a chat history, usable in a nested `messages: { create }`. */
+export function toMessageRows(messages: any[]): MessageRow[] {
+  return messages.map((message, position) => {
+    const content = JSON.stringify(message);
+    return {
+      position,
+      role: message.role,
+      content,
+      hash: hashContent(content),
+    };
+  });
+}
+
+export async function loadProjectFiles(
+  projectId: string,
+  db: Db = prisma
+): Promise<Record<string, FileNode>> {
+  const rows: { path: string; type: string; content: string | null }[] =
+    await db.projectFile.findMany({
+      where: { projectId },
+      select: { path: true, type: true, content: true },
+    });
+
+  const data: Record<string, FileNode> = {};
+  for (const row of rows) {
+    const node: FileNode = {
+      type: row.type === "directory" ? "directory" : "file",
+      name: row.path.split("/").pop() ?? "",
+      path: row.path,
+    };
+    if (node.type === "file") {
+      node.content = row.content ?? "";
+    }
+    data[row.path] = node;
+  }
+  return data;
+}
+
+export async function loadProjectMessages(
+  projectId: string,
+  db: Db = prisma
+): Promise<any[]> {
+  const rows: { content: string }[] = await db.message.findMany({
+    where: { projectId },
+    orderBy: { position: "asc" },
+    select: { content: true },
+  });
+
+  return rows.map((row) => JSON.parse(row.content));
+}
+
+/**
+ * Brings the stored files in line with `data`, touching only rows whose
+ * content changed and deleting paths that are gone. Run it inside a
+ * transaction when it has to stay consistent with other writes.
+ */
+export async function saveProjectFiles(
+  projectId: string,
+  data: Record<string, FileNode>,
+  db: Db = prisma
+): Promise<void> {
+  const existing: { path: string; hash: string | null }[] =
+    await db.projectFile.findMany({
+      where: { projectId },
+      select: { path: true, hash: true },
+    });
+  const storedHashes = new Map(existing.map((row) => [row.path, row.hash]));
+
+  const rows = toFileRows(data);
+  for (const row of rows) {
+    if (storedHashes.get(row.path) === row.hash) continue;
+
+    await db.projectFile.upsert({
+      where: { projectId_path: { projectId, path: row.path } },
+      create: { projectId, ...row },
+      update: { type: row.type, content: row.content, hash: row.hash },
+    });
+  }
+
+  const removed = existing
+    .map((row) => row.path)
+    .filter((path) => !(path in data));
+  if (removed.length > 0) {
+    await db.projectFile.deleteMany({
+      where: { projectId, path: { in: removed } },
+    });
+  }
+}
+
+/**
+ * Same as saveProjectFiles for the chat history. Chat turns only append,
+ * so normally just the new messages are written.
+ */
+export async function saveProjectMessages(
+  projectId: string,
+  messages: any[],
+  db: Db = prisma
+): Promise<void> {
+  const existing: { position: number; hash: string | null }[] =
+    await db.message.findMany({
+      where: { projectId },
+      select: { position: true, hash: true },
+    });
+  const storedHashes = new Map(
+    existing.map((row) => [row.position, row.hash])
+  );
+
+  for (const row of toMessageRows(messages)) {
+    if (storedHashes.get(row.position) === row.hash) continue;
+
+    await db.message.upsert({
+      where: { projectId_position: { projectId, position: row.position } },
+      create: { projectId, ...row },
+      update: { role: row.role, content: row.content, hash: row.hash },
+    });
+  }
+
+  if (existing.some((row) => row.position >= messages.length)) {
+    await db.message.deleteMany({
+      where: { projectId, position: { gte: messages.length } },
+    });
+  }
+}
@@ -1,11 +1,23 @@
-import { anthropic } from "@ai-sdk/anthropic";
+import { anthropic, createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import {
   LanguageModelV1,
   LanguageModelV1StreamPart,
   LanguageModelV1Message,
 } from "@ai-sdk/provider";
-
-const MODEL = "claude-haiku-4-5";
+import {
+  createModelRegistry,
+  getProviderApiKey,
+  resolveModel,
+  MOCK_MODEL,
+  ProviderConfig,
+} from "@/lib/model-registry";
+import { getFixturesDir } from "@/lib/llm-fixtures/fixture-store";
+import { FixtureLanguageModel } from "@/lib/llm-fixtures/fixture-model";
+import { RecordingLanguageModel } from "@/lib/llm-fixtures/recording-model";
+
+// The mock repeats itself when given the step budget of a real model
+export const MOCK_MAX_STEPS = 4;
 
 export class MockLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = "v1" as const;
@@ -506,13 +518,55 @@ export default function App() {
   }
 }
 
-export function getLanguageModel() {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
+function createLanguageModel(
+  provider: ProviderConfig,
+  modelName: string
+): LanguageModelV1 {
+  const apiKey = getProviderApiKey(provider);
+
+  switch (provider.type) {
+    case "anthropic":
+      return apiKey ? createAnthropic({ apiKey })(modelName) : anthropic(modelName);
+
+    case "openai-compatible":
+      return createOpenAICompatible({
+        name: provider.id,
+        baseURL: provider.baseURL!,
+        apiKey,
+      }).chatModel(modelName);
+
+    case "mock":
+      console.log("No LLM provider configured, using mock provider");
+      return new MockLanguageModel(modelName);
+  }
+}
 
-  if (!apiKey || apiKey.trim() === "") {
-    console.log("No ANTHROPIC_API_KEY found, using mock provider");
-    return new MockLanguageModel("mock-claude-sonnet-4-0");
+/**
+ * Returns the language model for a "<provider>/<model>" id, or the
+ * configured default when the id is missing or no longer available.
+ *
+ * LLM_FIXTURES=replay answers from recorded fixtures instead (falling back
+ * to the mock provider), and LLM_FIXTURES=record saves every live session.
+ */
+export function getLanguageModel(modelId?: string | null): LanguageModelV1 {
+  const fixtureMode = process.env.LLM_FIXTURES;
+
+  if (fixtureMode === "replay") {
+    return new FixtureLanguageModel(
+      "fixtures",
+      getFixturesDir(),
+      new MockLanguageModel(MOCK_MODEL),
+      {
+        delayMs: Number(process.env.LLM_FIXTURES_DELAY_MS) || 0,
+        fallbackMaxSteps: MOCK_MAX_STEPS,
+      }
+    );
   }
 
-  return anthropic(MODEL);
+  const { provider, modelName } = resolveModel(createModelRegistry(), modelId);
+  const model = createLanguageModel(provider, modelName);
+
+  return fixtureMode === "record"
+    ? new RecordingLanguageModel(model, getFixturesDir())
+    : model;
 }
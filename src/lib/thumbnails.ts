@@ -0,0 +1,68 @@
+import "server-only";
+import { prisma } from "@/lib/prisma";
+import { VirtualFileSystem, type FileNode } from "@/lib/file-system";
+import {
+  captureProjectRender,
+  captureProjectThumbnail,
+} from "@/lib/preview/screenshot";
+
+function toFileMap(data: Record<string, FileNode>): Map<string, string> {
+  const fileSystem = new VirtualFileSystem();
+  fileSystem.deserializeFromNodes(data);
+  return fileSystem.getAllFiles();
+}
+
+// Thumbnails are captured in the background, so a failure only gets logged
+// and the row keeps no thumbnail
+
+export async function saveVersionThumbnail(
+  versionId: string,
+  data: Record<string, FileNode>
+) {
+  try {
+    const thumbnail = await captureProjectThumbnail(toFileMap(data));
+    if (!thumbnail) return;
+
+    await prisma.projectVersion.update({
+      where: { id: versionId },
+      data: { thumbnail },
+    });
+  } catch (error) {
+    console.error("Failed to capture version thumbnail:", error);
+  }
+}
+
+export async function saveShareLinkThumbnail(
+  shareLinkId: string,
+  data: Record<string, FileNode>
+) {
+  try {
+    const thumbnail = await captureProjectThumbnail(toFileMap(data));
+    if (!thumbnail) return;
+
+    await prisma.shareLink.update({
+      where: { id: shareLinkId },
+      data: { thumbnail },
+    });
+  } catch (error) {
+    console.error("Failed to capture share link thumbnail:", error);
+  }
+}
+
+/**
+ * Renders a stored version in full for comparisons. Unlike thumbnails,
+ * these renders aren't saved, and errors are thrown.
+ */
+export function captureVersionRender(data: string): Promise<Buffer | null> {
+  return captureProjectRender(toFileMap(JSON.parse(data)));
+}
+
+export function thumbnailResponse(thumbnail: Uint8Array, cacheControl: string) {
+  // Copied into a plain ArrayBuffer-backed array, which is what BodyInit takes
+  return new Response(new Uint8Array(thumbnail), {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": cacheControl,
+    },
+  });
+}
@@ -0,0 +1,24 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { VirtualFileSystem } from "../file-system";
+import {
+  MAX_CHECKED_SOURCE_SIZE,
+  checkTypes,
+  formatDiagnostics,
+  getSourceSize,
+} from "../diagnostics/type-checker";
+
+export function buildCheckTypesTool(fileSystem: VirtualFileSystem) {
+  return tool({
+    description:
+      "Type-check the TypeScript files (.ts, .tsx) in the file system and list any compiler errors with their file, line and column. Run it after creating or editing TypeScript files and fix the reported errors.",
+    parameters: z.object({}),
+    execute: async () => {
+      const files = fileSystem.getAllFiles();
+      if (getSourceSize(files) > MAX_CHECKED_SOURCE_SIZE) {
+        return "The project is too large to type-check.";
+      }
+      return formatDiagnostics(checkTypes(files));
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import { test, expect } from "vitest";
+import {
+  parsePackageSpecifier,
+  pinVersion,
+  readPackageDependencies,
+  resolvePackageUrl,
+} from "@/lib/transform/dependency-resolver";
+
+test("parsePackageSpecifier splits names and subpaths", () => {
+  expect(parsePackageSpecifier("date-fns")).toEqual({
+    name: "date-fns",
+    subpath: "",
+  });
+  expect(parsePackageSpecifier("date-fns/format")).toEqual({
+    name: "date-fns",
+    subpath: "/format",
+  });
+  expect(parsePackageSpecifier("@radix-ui/react-dialog")).toEqual({
+    name: "@radix-ui/react-dialog",
+    subpath: "",
+  });
+});
+
+test("pinVersion extracts an exact version from a range", () => {
+  expect(pinVersion("^2.30.0")).toBe("2.30.0");
+  expect(pinVersion("~11.0.3")).toBe("11.0.3");
+  expect(pinVersion(">=1.2")).toBe("1.2");
+  expect(pinVersion("1.0.0-beta.2")).toBe("1.0.0-beta.2");
+  expect(pinVersion("latest")).toBe("latest");
+});
+
+test("readPackageDependencies reads the virtual package.json", () => {
+  const files = new Map([
+    [
+      "/package.json",
+      JSON.stringify({
+        dependencies: { "framer-motion": "^11.0.0" },
+        devDependencies: { clsx: "2.1.1" },
+      }),
+    ],
+  ]);
+
+  expect(readPackageDependencies(files)).toEqual({
+    "framer-motion": "^11.0.0",
+    clsx: "2.1.1",
+  });
+});
+
+test("readPackageDependencies tolerates a missing or invalid manifest", () => {
+  expect(readPackageDependencies(new Map())).toEqual({});
+  expect(
+    readPackageDependencies(new Map([["/package.json", "{ not json"]]))
+  ).toEqual({});
+});
+
+test("resolvePackageUrl pins declared packages on esm.sh", () => {
+  expect(
+    resolvePackageUrl("date-fns/format", { "date-fns": "^3.6.0" })
+  ).toBe("https://esm.sh/date-fns@3.6.0/format?external=react,react-dom");
+  expect(resolvePackageUrl("lucide-react", {})).toBe(
+    "https://esm.sh/lucide-react?external=react,react-dom"
+  );
+  expect(resolvePackageUrl("react-dom/client", { "react-dom": "19" })).toBe(
+    "https://esm.sh/react-dom@19/client"
+  );
+});
+
+test("resolvePackageUrl uses the local mirror when configured", () => {
+  const options = { packageMirrorUrl: "http://localhost:3000/api/packages/" };
+
+  expect(
+    resolvePackageUrl("framer-motion", { "framer-motion": "^11.0.0" }, options)
+  ).toBe("http://localhost:3000/api/packages/framer-motion@11.0.0");
+  expect(resolvePackageUrl("clsx", {}, options)).toBe(
+    "http://localhost:3000/api/packages/clsx@latest"
+  );
+});
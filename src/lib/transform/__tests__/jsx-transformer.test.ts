@@ -2,6 +2,7 @@ import { test, expect, vi } from "vitest";
 import {
   transformJSX,
   createBlobURL,
+  createDataURL,
   createImportMap,
   createPreviewHTML,
 } from "../jsx-transformer";
@@ -94,6 +95,14 @@ test("createBlobURL accepts custom mime type", () => {
   );
 });
 
+test("createDataURL encodes the module into the URL", () => {
+  const code = "export default () => '<div>100%</div>';";
+  const url = createDataURL(code);
+
+  expect(url).toMatch(/^data:application\/javascript;charset=utf-8,/);
+  expect(decodeURIComponent(url.slice(url.indexOf(",") + 1))).toBe(code);
+});
+
 test("createImportMap includes React CDN imports", () => {
   const files = new Map();
   const result = createImportMap(files);
@@ -183,7 +192,15 @@ test("createPreviewHTML generates valid HTML with import map", () => {
   expect(html).toContain('type="importmap"');
   expect(html).toContain(importMap);
   expect(html).toContain("blob:mock-url-123");
-  expect(html).toContain("import('blob:mock-url-123')");
+  expect(html).toContain('import("blob:mock-url-123")');
+});
+
+test("createPreviewHTML embeds entry point paths as string literals", () => {
+  const path = "/components/it's\\odd.jsx";
+  const html = createPreviewHTML(path, "{}");
+
+  expect(html).toContain(`const ENTRY_POINT = ${JSON.stringify(path)};`);
+  expect(html).not.toContain(`'${path}'`);
 });
 
 test("createPreviewHTML includes Tailwind CSS", () => {
@@ -191,6 +208,77 @@ test("createPreviewHTML includes Tailwind CSS", () => {
   expect(html).toContain("https://cdn.tailwindcss.com");
 });
 
+test("createPreviewHTML passes props to the entry point", () => {
+  const html = createPreviewHTML("/Button.jsx", "{}", "", [], {
+    props: { label: "</script>" },
+  });
+  expect(html).toContain(
+    'React.createElement(App, {"label":"\\u003c/script>"})'
+  );
+});
+
+test("createPreviewHTML renders the entry point without props by default", () => {
+  const html = createPreviewHTML("/App.jsx", "{}");
+  expect(html).toContain("React.createElement(App, null)");
+});
+
+test("createPreviewHTML renders a named story when asked", () => {
+  const html = createPreviewHTML("/Button.stories.jsx", "{}", "", [], {
+    story: "Primary",
+  });
+  expect(html).toContain('createStoryElement(module, "Primary")');
+  expect(html).not.toContain("const element = createAppElement(module)");
+});
+
+test("createPreviewHTML configures the Tailwind CDN with the theme", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [], {
+    theme: { colors: { brand: "#7c3aed" }, fonts: {}, radius: {} },
+  });
+  expect(html).toContain("tailwind.config = ");
+  expect(html).toContain('"darkMode":"class"');
+  expect(html).toContain('"brand":"#7c3aed"');
+});
+
+test("createPreviewHTML skips the Tailwind config with a compiled stylesheet", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [], { tailwindCss: ".flex{}" });
+  expect(html).not.toContain("tailwind.config");
+});
+
+test("createPreviewHTML starts in dark mode when asked", () => {
+  expect(createPreviewHTML("/App.jsx", "{}", "", [], { darkMode: true })).toContain(
+    '<html lang="en" class="dark">'
+  );
+  expect(createPreviewHTML("/App.jsx", "{}")).toContain('<html lang="en">');
+});
+
+test("createPreviewHTML lets the parent toggle dark mode by message", () => {
+  expect(createPreviewHTML("/App.jsx", "{}")).toContain("uigen:dark-mode");
+});
+
+test("createPreviewHTML runs the accessibility audit when asked", () => {
+  expect(
+    createPreviewHTML("/App.jsx", "{}", "", [], { a11yAudit: true })
+  ).toContain("uigen:a11y-audit");
+  expect(createPreviewHTML("/App.jsx", "{}")).not.toContain("uigen:a11y-audit");
+  // A page showing syntax errors has nothing of the project's to audit
+  expect(
+    createPreviewHTML(
+      "/App.jsx",
+      "{}",
+      "",
+      [{ path: "/App.jsx", error: "Unexpected token" }],
+      { a11yAudit: true }
+    )
+  ).not.toContain("uigen:a11y-audit");
+});
+
+test("createPreviewHTML includes the element picker", () => {
+  const html = createPreviewHTML("/App.jsx", "{}");
+  expect(html).toContain("uigen:picker-mode");
+  expect(html).toContain("closest('[data-source]')");
+  expect(html).toContain("uigen:element-picked");
+});
+
 test("createPreviewHTML includes error boundary", () => {
   const html = createPreviewHTML("/App.jsx", "{}");
   expect(html).toContain("class ErrorBoundary");
@@ -493,4 +581,123 @@ test("files with syntax errors are not included in import map", () => {
   
   // Restore mock
   vi.mocked(Babel.transform).mockReset();
-});
\ No newline at end of file
+});
+test("createImportMap pins packages declared in /package.json", () => {
+  const files = new Map([
+    [
+      "/package.json",
+      JSON.stringify({ dependencies: { "framer-motion": "^11.2.0" } }),
+    ],
+    [
+      "/App.jsx",
+      "import { motion } from 'framer-motion';\nexport default () => <motion.div />;",
+    ],
+  ]);
+
+  const result = createImportMap(files);
+  const parsed = JSON.parse(result.importMap);
+
+  expect(parsed.imports["framer-motion"]).toBe(
+    "https://esm.sh/framer-motion@11.2.0?external=react,react-dom"
+  );
+});
+
+test("createImportMap keeps the runtime React when a file imports react", () => {
+  const files = new Map([
+    ["/App.jsx", "import React from 'react';\nexport default () => <div />;"],
+  ]);
+
+  const parsed = JSON.parse(createImportMap(files).importMap);
+
+  expect(parsed.imports.react).toBe("https://esm.sh/react@19");
+});
+
+test("createImportMap resolves packages from a local mirror", () => {
+  const files = new Map([
+    ["/App.jsx", "import clsx from 'clsx';\nexport default () => <div />;"],
+  ]);
+
+  const parsed = JSON.parse(
+    createImportMap(files, { packageMirrorUrl: "http://localhost/mirror" })
+      .importMap
+  );
+
+  expect(parsed.imports.react).toBe("http://localhost/mirror/react@19");
+  expect(parsed.imports["react-dom/client"]).toBe(
+    "http://localhost/mirror/react-dom@19/client"
+  );
+  expect(parsed.imports.clsx).toBe("http://localhost/mirror/clsx@latest");
+});
+
+test("createImportMap points React at the app-served runtime", () => {
+  const parsed = JSON.parse(
+    createImportMap(new Map(), {
+      runtimeUrl: "http://localhost:3000/api/preview/runtime/",
+    }).importMap
+  );
+
+  expect(parsed.imports.react).toBe(
+    "http://localhost:3000/api/preview/runtime/react.js"
+  );
+  expect(parsed.imports["react-dom/client"]).toBe(
+    "http://localhost:3000/api/preview/runtime/react-dom/client.js"
+  );
+});
+
+test("createImportMap uses inlined runtime modules and module URLs when given", () => {
+  const files = new Map([["/App.jsx", "export default () => null;"]]);
+  const parsed = JSON.parse(
+    createImportMap(files, {
+      runtimeUrl: "http://localhost:3000/api/preview/runtime/",
+      runtimeModules: { react: "data:text/javascript;base64,cmVhY3Q=" },
+      createModuleUrl: (code) => `data:text/javascript,${code.length}`,
+    }).importMap
+  );
+
+  expect(parsed.imports.react).toBe("data:text/javascript;base64,cmVhY3Q=");
+  expect(parsed.imports["react-dom/client"]).toBe(
+    "http://localhost:3000/api/preview/runtime/react-dom/client.js"
+  );
+  expect(parsed.imports["/App"]).toMatch(/^data:text\/javascript,\d+$/);
+  expect(JSON.stringify(parsed)).not.toContain("blob:");
+});
+
+test("createPreviewHTML inlines a compiled Tailwind stylesheet", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [], {
+    tailwindCss: ".flex{display:flex}",
+  });
+
+  expect(html).toContain(".flex{display:flex}");
+  expect(html).not.toContain("https://cdn.tailwindcss.com");
+});
+
+test("createPreviewHTML keeps stylesheets from closing their style element", () => {
+  const html = createPreviewHTML(
+    "/App.jsx",
+    "{}",
+    ".a::after{content:'</style><img src=x onerror=alert(1)>'}",
+    [],
+    { tailwindCss: ".w-\\[<\\/style>\\]{width:</style><script>}" }
+  );
+
+  expect(html).not.toContain("</style><img");
+  expect(html).not.toContain("</style><script>");
+  expect(html).toContain("content:'<\\/style><img src=x onerror=alert(1)>'");
+});
+
+test("createPreviewHTML reports errors to the parent window", () => {
+  const html = createPreviewHTML("/App.jsx", "{}");
+
+  expect(html).toContain("window.parent.postMessage");
+  expect(html).toContain("uigen:preview-error");
+  expect(html).toContain("addEventListener('unhandledrejection'");
+});
+
+test("createPreviewHTML posts syntax errors without breaking the script tag", () => {
+  const html = createPreviewHTML("/App.jsx", "{}", "", [
+    { path: "/App.jsx", error: "Unexpected token </script> (1:2)" },
+  ]);
+
+  expect(html).toContain("kind: 'compile'");
+  expect(html).toContain("Unexpected token \\u003c/script> (1:2)");
+});
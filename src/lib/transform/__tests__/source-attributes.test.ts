@@ -0,0 +1,44 @@
+import { test, expect } from "vitest";
+import { transformJSX } from "../jsx-transformer";
+
+test("transformJSX stamps host elements with their source location", () => {
+  const code = `export default function App() {
+  return (
+    <main className="p-4">
+      <button>Save</button>
+    </main>
+  );
+}`;
+  const result = transformJSX(code, "/App.jsx", new Set());
+
+  expect(result.error).toBeUndefined();
+  expect(result.code).toContain('"data-source": "/App.jsx:3:5"');
+  expect(result.code).toContain('"data-source": "/App.jsx:4:7"');
+});
+
+test("transformJSX leaves components and fragments unstamped", () => {
+  const code = `import Card from "./Card";
+export default function App() {
+  return <><Card title="Hi" /><Icons.Star /></>;
+}`;
+  const result = transformJSX(code, "/App.jsx", new Set());
+
+  expect(result.error).toBeUndefined();
+  expect(result.code).not.toContain("data-source");
+});
+
+test("transformJSX keeps an existing data-source attribute", () => {
+  const code = `export const Box = () => <div data-source="custom" />;`;
+  const result = transformJSX(code, "/Box.tsx", new Set());
+
+  expect(result.code).toContain('"data-source": "custom"');
+  expect(result.code).not.toContain("/Box.tsx:");
+});
+
+test("transformJSX keeps line numbers after removing CSS imports", () => {
+  const code = `import "./styles.css";
+export default () => <p>Hi</p>;`;
+  const result = transformJSX(code, "/App.jsx", new Set());
+
+  expect(result.code).toContain('"data-source": "/App.jsx:2:22"');
+});
@@ -0,0 +1,92 @@
+export const DEFAULT_PACKAGE_CDN_URL = "https://esm.sh";
+
+// Packages the preview runtime provides itself; they must never be bundled twice
+const RUNTIME_PACKAGES = ["react", "react-dom"];
+
+export interface DependencyResolverOptions {
+  // Base URL of a local mirror serving prebuilt ESM bundles; disables the CDN
+  packageMirrorUrl?: string;
+}
+
+export interface PackageSpecifier {
+  name: string;
+  subpath: string;
+}
+
+export function parsePackageSpecifier(specifier: string): PackageSpecifier {
+  const parts = specifier.split("/");
+  const nameLength = specifier.startsWith("@") ? 2 : 1;
+
+  return {
+    name: parts.slice(0, nameLength).join("/"),
+    subpath: parts.length > nameLength
+      ? "/" + parts.slice(nameLength).join("/")
+      : "",
+  };
+}
+
+export function isPackageImport(specifier: string): boolean {
+  return (
+    !specifier.startsWith(".") &&
+    !specifier.startsWith("/") &&
+    !specifier.startsWith("@/")
+  );
+}
+
+/**
+ * Reads the dependencies declared in the virtual /package.json. A missing or
+ * malformed manifest simply means no packages are pinned.
+ */
+export function readPackageDependencies(
+  files: Map<string, string>
+): Record<string, string> {
+  const manifest = files.get("/package.json");
+  if (!manifest) return {};
+
+  try {
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(manifest);
+    const declared: Record<string, string> = {};
+
+    for (const [name, version] of Object.entries({
+      ...devDependencies,
+      ...dependencies,
+    })) {
+      if (typeof version === "string") {
+        declared[name] = version;
+      }
+    }
+
+    return declared;
+  } catch {
+    return {};
+  }
+}
+
+// Turns a semver range like "^2.30.0" into the exact version "2.30.0"
+export function pinVersion(range: string): string {
+  const match = range.match(/\d+(?:\.\d+){0,2}(?:-[0-9A-Za-z.-]+)?/);
+  return match ? match[0] : "latest";
+}
+
+export function resolvePackageUrl(
+  specifier: string,
+  dependencies: Record<string, string>,
+  options: DependencyResolverOptions = {}
+): string {
+  const { name, subpath } = parsePackageSpecifier(specifier);
+  const declared = dependencies[name];
+
+  if (options.packageMirrorUrl) {
+    const mirrorUrl = options.packageMirrorUrl.replace(/\/+$/, "");
+    const version = declared ? pinVersion(declared) : "latest";
+    return `${mirrorUrl}/${name}@${version}${subpath}`;
+  }
+
+  const versioned = declared ? `${name}@${pinVersion(declared)}` : name;
+  // Share the import map's React instead of letting esm.sh bundle its own copy
+  const external = RUNTIME_PACKAGES.includes(name)
+    ? ""
+    : `?external=${RUNTIME_PACKAGES.join(",")}`;
+
+  return `${DEFAULT_PACKAGE_CDN_URL}/${versioned}${subpath}${external}`;
+}
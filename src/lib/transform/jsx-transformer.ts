@@ -1,4 +1,25 @@
 import * as Babel from "@babel/standalone";
+import type { PluginObj, types as BabelTypes } from "@babel/core";
+import {
+  DependencyResolverOptions,
+  isPackageImport,
+  readPackageDependencies,
+  resolvePackageUrl,
+} from "./dependency-resolver";
+import { PREVIEW_ERROR_MESSAGE } from "@/lib/preview/preview-errors";
+import {
+  DARK_MODE_MESSAGE,
+  PreviewTheme,
+  createTailwindConfig,
+} from "@/lib/preview/theme";
+import {
+  ELEMENT_PICKED_MESSAGE,
+  PICKER_CANCELLED_MESSAGE,
+  PICKER_MODE_MESSAGE,
+  SOURCE_ATTRIBUTE,
+  formatSourceLocation,
+} from "@/lib/preview/element-picker";
+import { A11Y_AUDIT_SCRIPT } from "@/lib/preview/a11y-audit";
 
 export interface TransformResult {
   code: string;
@@ -19,6 +40,44 @@ export { ${componentName} };
 `;
 }
 
+// Stamps host elements with where they are written, so the element picker
+// can map a click back to the source. Components are left alone since they
+// may not pass the attribute through to the DOM.
+function sourceAttributePlugin({
+  types: t,
+}: {
+  types: typeof BabelTypes;
+}): PluginObj {
+  return {
+    visitor: {
+      JSXOpeningElement(path, state) {
+        const { name, attributes, loc } = path.node;
+        if (!loc || !state.filename) return;
+        if (!t.isJSXIdentifier(name) || !/^[a-z]/.test(name.name)) return;
+
+        const hasSource = attributes.some(
+          (attribute) =>
+            t.isJSXAttribute(attribute) &&
+            attribute.name.name === SOURCE_ATTRIBUTE
+        );
+        if (hasSource) return;
+
+        attributes.push(
+          t.jsxAttribute(
+            t.jsxIdentifier(SOURCE_ATTRIBUTE),
+            t.stringLiteral(
+              formatSourceLocation({
+                path: state.filename,
+                line: loc.start.line,
+                column: loc.start.column + 1,
+              })
+            )
+          )
+        );
+      },
+    },
+  };
+}
 
 export function transformJSX(
   code: string,
@@ -59,7 +118,7 @@ export function transformJSX(
         ["react", { runtime: "automatic" }],
         ...(isTypeScript ? ["typescript"] : []),
       ],
-      plugins: [],
+      plugins: [sourceAttributePlugin],
     });
 
     return {
@@ -83,20 +142,67 @@ export function createBlobURL(
   return URL.createObjectURL(blob);
 }
 
+// Unlike blob URLs, data URLs load in sandboxed frames without
+// allow-same-origin, which keep previews off the app's origin
+export function createDataURL(
+  code: string,
+  mimeType: string = "application/javascript"
+): string {
+  return `data:${mimeType};charset=utf-8,${encodeURIComponent(code)}`;
+}
+
 export interface ImportMapResult {
   importMap: string;
   styles: string;
   errors: Array<{ path: string; error: string }>;
 }
 
-export function createImportMap(files: Map<string, string>): ImportMapResult {
-  const imports: Record<string, string> = {
-    react: "https://esm.sh/react@19",
-    "react-dom": "https://esm.sh/react-dom@19",
-    "react-dom/client": "https://esm.sh/react-dom@19/client",
-    "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
-    "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
-  };
+// The preview runtime always uses this React, whatever /package.json declares
+const RUNTIME_DEPENDENCIES: Record<string, string> = {
+  react: "19",
+  "react-dom": "19",
+};
+
+const RUNTIME_IMPORTS = [
+  "react",
+  "react-dom",
+  "react-dom/client",
+  "react/jsx-runtime",
+  "react/jsx-dev-runtime",
+];
+
+export interface ImportMapOptions extends DependencyResolverOptions {
+  // Base URL of the app-served React runtime, used instead of any CDN
+  runtimeUrl?: string;
+  // URLs for each runtime specifier, taking precedence over runtimeUrl
+  runtimeModules?: Record<string, string>;
+  // Turns a transformed module into a URL; blob URLs only exist in the
+  // browser that made them, so server-side rendering passes data URLs
+  createModuleUrl?: (code: string) => string;
+}
+
+export function createImportMap(
+  files: Map<string, string>,
+  options: ImportMapOptions = {}
+): ImportMapResult {
+  const createModuleUrl = options.createModuleUrl ?? createBlobURL;
+  const imports: Record<string, string> = {};
+  for (const specifier of RUNTIME_IMPORTS) {
+    imports[specifier] =
+      options.runtimeModules?.[specifier] ??
+      (options.runtimeUrl
+        ? `${options.runtimeUrl.replace(/\/+$/, "")}/${specifier}.js`
+        : resolvePackageUrl(specifier, RUNTIME_DEPENDENCIES, options));
+  }
+
+  // Map every declared package up front so versions are pinned even for
+  // modules that are only imported dynamically
+  const dependencies = readPackageDependencies(files);
+  for (const name of Object.keys(dependencies)) {
+    if (!(name in RUNTIME_DEPENDENCIES)) {
+      imports[name] = resolvePackageUrl(name, dependencies, options);
+    }
+  }
 
   // Transform each file and create blob URLs
   const transformedFiles = new Map<string, string>();
@@ -128,20 +234,15 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
       }
       
       // Normal successful transform
-      const blobUrl = createBlobURL(code);
+      const blobUrl = createModuleUrl(code);
       transformedFiles.set(path, blobUrl);
 
       // Collect all imports
       if (missingImports) {
         missingImports.forEach((imp) => {
-          // Check if this is a third-party package
-          const isPackage = !imp.startsWith(".") && 
-                            !imp.startsWith("/") && 
-                            !imp.startsWith("@/");
-          
-          if (isPackage) {
+          if (isPackageImport(imp)) {
             // Add third-party packages directly to import map
-            imports[imp] = `https://esm.sh/${imp}`;
+            imports[imp] ??= resolvePackageUrl(imp, dependencies, options);
           } else {
             // Add local imports to be processed later
             allImports.add(imp);
@@ -215,15 +316,12 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
       continue;
     }
 
-    // Check if this is a third-party package (no relative path indicators)
-    const isPackage = !importPath.startsWith(".") && 
-                      !importPath.startsWith("/") && 
-                      !importPath.startsWith("@/");
-
-    if (isPackage) {
-      // Handle third-party packages from esm.sh
-      const packageUrl = `https://esm.sh/${importPath}`;
-      imports[importPath] = packageUrl;
+    if (isPackageImport(importPath)) {
+      imports[importPath] = resolvePackageUrl(
+        importPath,
+        dependencies,
+        options
+      );
       continue;
     }
 
@@ -256,7 +354,7 @@ export function createImportMap(files: Map<string, string>): ImportMapResult {
 
       // Create placeholder module
       const placeholderCode = createPlaceholderModule(componentName);
-      const placeholderUrl = createBlobURL(placeholderCode);
+      const placeholderUrl = createModuleUrl(placeholderCode);
 
       // Add all possible import variations
       imports[importPath] = placeholderUrl;
@@ -290,11 +388,41 @@ function resolveRelativePath(fromDir: string, relativePath: string): string {
   return "/" + parts.join("/");
 }
 
+// Embeds a value in an inline <script> without letting it close the tag
+function serializeForScript(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+// Embeds CSS in a <style> element without letting it close the tag; "\/"
+// is the CSS escape for "/", so the stylesheet itself is unchanged
+function escapeStyle(css: string): string {
+  return css.replace(/<\//g, "<\\/");
+}
+
+export interface PreviewHTMLOptions {
+  // Precompiled Tailwind stylesheet; without it the Tailwind CDN is used
+  tailwindCss?: string;
+  // Props passed to the entry point's export, e.g. from a .props.json file
+  props?: Record<string, unknown>;
+  // Renders this named story of a *.stories.jsx entry point instead of its
+  // default export
+  story?: string;
+  // Project theme from /theme.json; the compiled stylesheet already has it,
+  // so this only configures the Tailwind CDN
+  theme?: PreviewTheme | null;
+  // Starts the document with the `dark` class set
+  darkMode?: boolean;
+  // Audits the rendered page for accessibility issues and reports them to
+  // the parent window
+  a11yAudit?: boolean;
+}
+
 export function createPreviewHTML(
   entryPoint: string,
   importMap: string,
   styles: string = "",
-  errors: Array<{ path: string; error: string }> = []
+  errors: Array<{ path: string; error: string }> = [],
+  options: PreviewHTMLOptions = {}
 ): string {
   // Parse the import map to get the blob URL for the entry point
   let entryPointUrl = entryPoint;
@@ -308,12 +436,17 @@ export function createPreviewHTML(
   }
 
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="en"${options.darkMode ? ' class="dark"' : ''}>
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Preview</title>
-  <script src="https://cdn.tailwindcss.com"></script>
+  ${options.tailwindCss !== undefined
+    ? `<style>\n${escapeStyle(options.tailwindCss)}\n</style>`
+    : `<script src="https://cdn.tailwindcss.com"></script>
+  <script>
+    tailwind.config = ${serializeForScript(createTailwindConfig(options.theme ?? null))};
+  </script>`}
   <style>
     body {
       margin: 0;
@@ -324,6 +457,13 @@ export function createPreviewHTML(
       width: 100vw;
       height: 100vh;
     }
+    html.dark {
+      color-scheme: dark;
+    }
+    html.dark body {
+      background: #0a0a0a;
+      color: #fafafa;
+    }
     .error-boundary {
       color: red;
       padding: 1rem;
@@ -382,7 +522,114 @@ export function createPreviewHTML(
       color: #991b1b;
     }
   </style>
-  ${styles ? `<style>\n${styles}</style>` : ''}
+  ${styles ? `<style>\n${escapeStyle(styles)}</style>` : ''}
+  <script>
+    window.__reportPreviewError = function (error) {
+      try {
+        window.parent.postMessage({ type: '${PREVIEW_ERROR_MESSAGE}', error: error }, '*');
+      } catch (e) {}
+    };
+    window.addEventListener('error', function (event) {
+      window.__reportPreviewError({
+        kind: 'runtime',
+        message: event.message || String(event.error),
+        stack: event.error && event.error.stack,
+      });
+    });
+    window.addEventListener('unhandledrejection', function (event) {
+      var reason = event.reason;
+      window.__reportPreviewError({
+        kind: 'runtime',
+        message: String((reason && reason.message) || reason),
+        stack: reason && reason.stack,
+      });
+    });
+  </script>
+  <script>
+    window.addEventListener('message', function (event) {
+      if (event.source !== window.parent) return;
+      if (event.data && event.data.type === '${DARK_MODE_MESSAGE}') {
+        document.documentElement.classList.toggle('dark', !!event.data.enabled);
+      }
+    });
+  </script>
+  <script>
+    // Element picker: outlines the element under the cursor and reports the
+    // source location of the one clicked, while the app has picking on
+    (function () {
+      var enabled = false;
+      var overlay = null;
+      var target = null;
+
+      function findSourceElement(node) {
+        return node && node.closest ? node.closest('[${SOURCE_ATTRIBUTE}]') : null;
+      }
+
+      function highlight(element) {
+        target = element;
+        if (!overlay) {
+          overlay = document.createElement('div');
+          overlay.style.cssText = 'position:fixed;z-index:2147483647;pointer-events:none;border:2px solid #3b82f6;background:rgba(59,130,246,0.12);border-radius:2px;';
+          document.body.appendChild(overlay);
+        }
+        if (!element) {
+          overlay.style.display = 'none';
+          return;
+        }
+        var rect = element.getBoundingClientRect();
+        overlay.style.display = 'block';
+        overlay.style.top = rect.top + 'px';
+        overlay.style.left = rect.left + 'px';
+        overlay.style.width = rect.width + 'px';
+        overlay.style.height = rect.height + 'px';
+      }
+
+      function setEnabled(next) {
+        enabled = next;
+        document.documentElement.style.cursor = next ? 'crosshair' : '';
+        if (!next && overlay) highlight(null);
+      }
+
+      window.addEventListener('message', function (event) {
+        if (event.source !== window.parent) return;
+        if (event.data && event.data.type === '${PICKER_MODE_MESSAGE}') {
+          setEnabled(!!event.data.enabled);
+        }
+      });
+      document.addEventListener('mouseover', function (event) {
+        if (enabled) highlight(findSourceElement(event.target));
+      }, true);
+      document.addEventListener('scroll', function () {
+        if (enabled && target) highlight(target);
+      }, true);
+      // Keep the page from reacting to the clicks that pick an element
+      document.addEventListener('mousedown', function (event) {
+        if (!enabled) return;
+        event.preventDefault();
+        event.stopPropagation();
+      }, true);
+      document.addEventListener('click', function (event) {
+        if (!enabled) return;
+        event.preventDefault();
+        event.stopPropagation();
+        var element = findSourceElement(event.target);
+        if (!element) return;
+        setEnabled(false);
+        window.parent.postMessage({
+          type: '${ELEMENT_PICKED_MESSAGE}',
+          source: element.getAttribute('${SOURCE_ATTRIBUTE}'),
+          tagName: element.tagName.toLowerCase(),
+          text: (element.textContent || '').trim().slice(0, 200),
+        }, '*');
+      }, true);
+      document.addEventListener('keydown', function (event) {
+        if (!enabled || event.key !== 'Escape') return;
+        setEnabled(false);
+        window.parent.postMessage({ type: '${PICKER_CANCELLED_MESSAGE}' }, '*');
+      }, true);
+    })();
+  </script>
+  ${options.a11yAudit && errors.length === 0 ? `<script>\n${A11Y_AUDIT_SCRIPT}\n  </script>` : ''}
   <script type="importmap">
     ${importMap}
   </script>
@@ -412,12 +659,19 @@ export function createPreviewHTML(
       `;
       }).join('')}
     </div>
+    <script>
+      ${serializeForScript(errors)}.forEach(function (e) {
+        window.__reportPreviewError({ kind: 'compile', path: e.path, message: e.error });
+      });
+    </script>
   ` : ''}
   <div id="root"></div>
   ${errors.length === 0 ? `<script type="module">
     import React from 'react';
     import ReactDOM from 'react-dom/client';
-    
+
+    const ENTRY_POINT = ${serializeForScript(entryPoint)};
+
     class ErrorBoundary extends React.Component {
       constructor(props) {
         super(props);
@@ -430,6 +684,11 @@ export function createPreviewHTML(
 
       componentDidCatch(error, errorInfo) {
         console.error('Error caught by boundary:', error, errorInfo);
+        window.__reportPreviewError({
+          kind: 'runtime',
+          message: error?.toString() || 'Unknown error',
+          stack: errorInfo?.componentStack,
+        });
       }
 
       render() {
@@ -444,25 +703,59 @@ export function createPreviewHTML(
       }
     }
 
+    function createAppElement(module) {
+      const App = module.default || module.App;
+
+      if (!App) {
+        throw new Error('No default export or App export found in ' + ENTRY_POINT);
+      }
+
+      return React.createElement(App, ${serializeForScript(options.props ?? null)});
+    }
+
+    // Function stories and render functions receive the args as props
+    function createStoryElement(module, name) {
+      const meta = module.default || {};
+      const story = module[name];
+
+      if (!story) {
+        throw new Error('Story "' + name + '" not found in ' + ENTRY_POINT);
+      }
+
+      const args = Object.assign({}, meta.args, story.args);
+      if (typeof story === 'function') {
+        return React.createElement(story, args);
+      }
+      if (typeof story.render === 'function') {
+        return React.createElement(story.render, args);
+      }
+      if (!meta.component) {
+        throw new Error('Story "' + name + '" has no render function and ' + ENTRY_POINT + ' has no default component');
+      }
+      return React.createElement(meta.component, args);
+    }
+
     async function loadApp() {
       try {
-        const module = await import('${entryPointUrl}');
-        const App = module.default || module.App;
-        
-        if (!App) {
-          throw new Error('No default export or App export found in ${entryPoint}');
-        }
+        const module = await import(${serializeForScript(entryPointUrl)});
+        const element = ${options.story !== undefined
+          ? `createStoryElement(module, ${serializeForScript(options.story)})`
+          : "createAppElement(module)"};
 
         const root = ReactDOM.createRoot(document.getElementById('root'));
         root.render(
-          React.createElement(ErrorBoundary, null,
-            React.createElement(App)
-          )
+          React.createElement(ErrorBoundary, null, element)
         );
       } catch (error) {
         console.error('Failed to load app:', error);
-        console.error('Import map:', ${JSON.stringify(importMap)});
+        console.error('Import map:', ${serializeForScript(importMap)});
         document.getElementById('root').innerHTML = '<div class="error-boundary"><h2>Failed to load app</h2><pre>' + error.toString() + '</pre></div>';
+        window.__reportPreviewError({
+          kind: 'runtime',
+          path: ENTRY_POINT,
+          message: 'Failed to load app: ' + error.toString(),
+          stack: error?.stack,
+        });
       }
     }
 
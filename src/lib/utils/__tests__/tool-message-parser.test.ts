@@ -12,6 +12,7 @@ import {
   FileSymlink,
   Eye,
   Undo,
+  ListChecks,
 } from "lucide-react";
 
 describe("extractFileName", () => {
@@ -220,6 +221,14 @@ describe("parseToolInvocation", () => {
     expect(result.icon).toBe(FileX);
   });
 
+  test("describes check_types as a project-wide type check", () => {
+    const result = parseToolInvocation("check_types", {});
+
+    expect(result.action).toBe("Type-checking");
+    expect(result.fileName).toBe("project");
+    expect(result.icon).toBe(ListChecks);
+  });
+
   test("handles unknown tool with fallback", () => {
     const result = parseToolInvocation("unknown_tool", {});
 
@@ -6,6 +6,7 @@ import {
   FileSymlink,
   Eye,
   Undo,
+  ListChecks,
 } from "lucide-react";
 
 export interface ToolMessage {
@@ -143,6 +144,17 @@ export function parseToolInvocation(
     case "file_manager":
       return parseFileManager(args);
 
+    case "check_types":
+      return {
+        action: "Type-checking",
+        fileName: "project",
+        filePath: "",
+        icon: ListChecks,
+        colorClass: "text-sky-600",
+        bgColorClass: "bg-sky-50",
+        borderColorClass: "border-sky-200",
+      };
+
     default:
       return {
         action: "Running",
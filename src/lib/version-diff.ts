@@ -0,0 +1,114 @@
+import type { FileNode } from "@/lib/file-system";
+
+export type FileChangeStatus = "added" | "removed" | "modified";
+
+export interface FileChange {
+  path: string;
+  status: FileChangeStatus;
+  before?: string;
+  after?: string;
+}
+
+export interface LineChange {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+// Above this many LCS cells a file is shown as fully replaced instead
+const MAX_LCS_CELLS = 4_000_000;
+
+function getFileContents(
+  snapshot: Record<string, FileNode>
+): Map<string, string> {
+  const contents = new Map<string, string>();
+
+  for (const [path, node] of Object.entries(snapshot)) {
+    if (node.type === "file") {
+      contents.set(path, node.content || "");
+    }
+  }
+
+  return contents;
+}
+
+export function diffSnapshots(
+  before: Record<string, FileNode>,
+  after: Record<string, FileNode>
+): FileChange[] {
+  const beforeFiles = getFileContents(before);
+  const afterFiles = getFileContents(after);
+  const changes: FileChange[] = [];
+
+  for (const [path, content] of beforeFiles) {
+    if (!afterFiles.has(path)) {
+      changes.push({ path, status: "removed", before: content });
+    } else if (afterFiles.get(path) !== content) {
+      changes.push({
+        path,
+        status: "modified",
+        before: content,
+        after: afterFiles.get(path),
+      });
+    }
+  }
+
+  for (const [path, content] of afterFiles) {
+    if (!beforeFiles.has(path)) {
+      changes.push({ path, status: "added", after: content });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    result.push({ type: "removed", text: a[i++] });
+  }
+  while (j < b.length) {
+    result.push({ type: "added", text: b[j++] });
+  }
+
+  return result;
+}
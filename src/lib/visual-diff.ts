@@ -0,0 +1,143 @@
+// Same layout as a canvas ImageData: width * height RGBA pixels
+export interface RGBAImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  changedPixels: number;
+  // 0-100, share of the region's pixels that changed
+  changedPercentage: number;
+}
+
+export interface VisualDiff {
+  width: number;
+  height: number;
+  changedPixels: number;
+  changedPercentage: number;
+  // A grid over the image, row by row
+  regions: DiffRegion[];
+  // The after image faded out, with changed pixels in red
+  overlay: RGBAImage;
+}
+
+export interface VisualDiffOptions {
+  // 0-1, how far a color channel may move before the pixel counts as
+  // changed; the default absorbs anti-aliasing and rounding noise
+  threshold?: number;
+  columns?: number;
+  rows?: number;
+}
+
+const DEFAULT_THRESHOLD = 0.1;
+const DEFAULT_GRID = 4;
+const CHANGED_COLOR = [239, 68, 68];
+// How much of the after image shows through the overlay
+const OVERLAY_OPACITY = 0.25;
+
+// Channel value of a pixel flattened onto white, or null outside the image
+function readPixel(image: RGBAImage, x: number, y: number): number[] | null {
+  if (x >= image.width || y >= image.height) return null;
+
+  const offset = (y * image.width + x) * 4;
+  const alpha = image.data[offset + 3] / 255;
+  return [0, 1, 2].map(
+    (channel) => image.data[offset + channel] * alpha + 255 * (1 - alpha)
+  );
+}
+
+function toPercentage(part: number, total: number): number {
+  return total === 0 ? 0 : (part / total) * 100;
+}
+
+/**
+ * Compares two renders pixel by pixel. Images of different sizes are
+ * compared over the larger of the two, where missing pixels count as changed.
+ */
+export function diffImages(
+  before: RGBAImage,
+  after: RGBAImage,
+  options: VisualDiffOptions = {}
+): VisualDiff {
+  const threshold = (options.threshold ?? DEFAULT_THRESHOLD) * 255;
+  const columns = Math.max(1, options.columns ?? DEFAULT_GRID);
+  const rows = Math.max(1, options.rows ?? DEFAULT_GRID);
+
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  const overlay = new Uint8ClampedArray(width * height * 4);
+  const changedByCell = new Array<number>(columns * rows).fill(0);
+  const cellWidth = width / columns;
+  const cellHeight = height / rows;
+  let changedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const beforePixel = readPixel(before, x, y);
+      const afterPixel = readPixel(after, x, y);
+      const changed =
+        !beforePixel ||
+        !afterPixel ||
+        beforePixel.some(
+          (value, channel) => Math.abs(value - afterPixel[channel]) > threshold
+        );
+
+      const offset = (y * width + x) * 4;
+      if (changed) {
+        changedPixels++;
+        changedByCell[
+          Math.floor(y / cellHeight) * columns + Math.floor(x / cellWidth)
+        ]++;
+        overlay.set(CHANGED_COLOR, offset);
+      } else {
+        const [r, g, b] = afterPixel!;
+        const gray = 0.299 * r + 0.587 * g + 0.114 * b;
+        overlay.fill(
+          gray * OVERLAY_OPACITY + 255 * (1 - OVERLAY_OPACITY),
+          offset,
+          offset + 3
+        );
+      }
+      overlay[offset + 3] = 255;
+    }
+  }
+
+  const regions: DiffRegion[] = changedByCell.map((changed, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    // The same bounds the pixels were counted into above
+    const x = Math.ceil(column * cellWidth);
+    const y = Math.ceil(row * cellHeight);
+    const regionWidth = Math.ceil((column + 1) * cellWidth) - x;
+    const regionHeight = Math.ceil((row + 1) * cellHeight) - y;
+    return {
+      x,
+      y,
+      width: regionWidth,
+      height: regionHeight,
+      changedPixels: changed,
+      changedPercentage: toPercentage(changed, regionWidth * regionHeight),
+    };
+  });
+
+  return {
+    width,
+    height,
+    changedPixels,
+    changedPercentage: toPercentage(changedPixels, width * height),
+    regions,
+    overlay: { width, height, data: overlay },
+  };
+}
+
+// Keeps a handful of changed pixels from reading as "0.0%"
+export function formatChangePercentage(percentage: number): string {
+  if (percentage === 0) return "0%";
+  if (percentage < 0.1) return "<0.1%";
+  return `${percentage.toFixed(1)}%`;
+}